@@ -3,24 +3,42 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { AuthProvider } from "@/components/AuthProvider";
+import { RequireAuth } from "@/components/RequireAuth";
 import Index from "./pages/Index";
+import Inspections from "./pages/Inspections";
+import InspectionDetail from "./pages/InspectionDetail";
+import InspectionComparison from "./pages/InspectionComparison";
+import VehicleTimeline from "./pages/VehicleTimeline";
+import Auth from "./pages/Auth";
+import Account from "./pages/Account";
+import Usage from "./pages/Usage";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
-    <TooltipProvider>
-      <Toaster />
-      <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
-    </TooltipProvider>
+    <AuthProvider>
+      <TooltipProvider>
+        <Toaster />
+        <Sonner />
+        <BrowserRouter>
+          <Routes>
+            <Route path="/" element={<Index />} />
+            <Route path="/login" element={<Auth />} />
+            <Route path="/account" element={<RequireAuth><Account /></RequireAuth>} />
+            <Route path="/usage" element={<RequireAuth><Usage /></RequireAuth>} />
+            <Route path="/inspections" element={<RequireAuth><Inspections /></RequireAuth>} />
+            <Route path="/inspections/compare" element={<RequireAuth><InspectionComparison /></RequireAuth>} />
+            <Route path="/inspections/:id" element={<RequireAuth><InspectionDetail /></RequireAuth>} />
+            <Route path="/vehicles/:id" element={<RequireAuth><VehicleTimeline /></RequireAuth>} />
+            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </BrowserRouter>
+      </TooltipProvider>
+    </AuthProvider>
   </QueryClientProvider>
 );
 
@@ -0,0 +1,89 @@
+import * as React from "react";
+import type { Session } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { AuthContext, type AuthContextValue, type Membership } from "@/hooks/use-auth";
+import { isRole } from "@shared/roles.ts";
+
+const fetchMembership = async (userId: string): Promise<Membership | null> => {
+  const { data, error } = await supabase
+    .from("organization_members")
+    .select("organization_id, role, organizations(name)")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  if (!data || !isRole(data.role)) return null;
+  return {
+    organizationId: data.organization_id,
+    organizationName: data.organizations?.name ?? "",
+    role: data.role,
+  };
+};
+
+export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
+  const [session, setSession] = React.useState<Session | null>(null);
+  const [membership, setMembership] = React.useState<Membership | null>(null);
+  const [sessionRead, setSessionRead] = React.useState(false);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const userId = session?.user.id ?? null;
+
+  React.useEffect(() => {
+    // Subscribe before reading the stored session so no change is missed
+    const { data } = supabase.auth.onAuthStateChange((_event, next) => setSession(next));
+    supabase.auth.getSession().then(({ data: { session: stored } }) => {
+      setSession(stored);
+      setSessionRead(true);
+    });
+    return () => data.subscription.unsubscribe();
+  }, []);
+
+  const refreshMembership = React.useCallback(async () => {
+    if (!userId) {
+      setMembership(null);
+      return;
+    }
+    try {
+      setMembership(await fetchMembership(userId));
+    } catch (error) {
+      console.error("Failed to load organization membership:", error);
+      setMembership(null);
+    }
+  }, [userId]);
+
+  React.useEffect(() => {
+    if (!sessionRead) return;
+    setIsLoading(true);
+    refreshMembership().finally(() => setIsLoading(false));
+  }, [sessionRead, refreshMembership]);
+
+  const value = React.useMemo<AuthContextValue>(
+    () => ({
+      session,
+      user: session?.user ?? null,
+      membership,
+      isLoading,
+      signIn: async (email, password) => {
+        const { error } = await supabase.auth.signInWithPassword({ email, password });
+        if (error) throw new Error(error.message);
+      },
+      signUp: async (email, password) => {
+        const { data, error } = await supabase.auth.signUp({
+          email,
+          password,
+          options: { emailRedirectTo: `${window.location.origin}/account` },
+        });
+        if (error) throw new Error(error.message);
+        // Without a session the project requires the address to be confirmed first
+        return { confirmationRequired: !data.session };
+      },
+      signOut: async () => {
+        const { error } = await supabase.auth.signOut();
+        if (error) throw new Error(error.message);
+      },
+      refreshMembership,
+    }),
+    [session, membership, isLoading, refreshMembership],
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
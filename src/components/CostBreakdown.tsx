@@ -0,0 +1,51 @@
+import { cn } from "@/lib/utils";
+import type { CostCategory, CostLineItem, DamageItem } from "@shared/contract.ts";
+import { describeDamageLocation } from "@shared/parts.ts";
+
+interface CostBreakdownProps {
+  lineItems: CostLineItem[];
+  formatAmount: (amount: number) => string;
+  /** When given, items are grouped under a heading per damage. */
+  damages?: DamageItem[];
+  className?: string;
+}
+
+const categoryLabel: Record<CostCategory, string> = {
+  parts: "Parts",
+  paint: "Paint",
+  labor: "Labor",
+};
+
+const formatRange = (item: CostLineItem, formatAmount: (amount: number) => string) =>
+  item.min === item.max ? formatAmount(item.min) : `${formatAmount(item.min)} - ${formatAmount(item.max)}`;
+
+/** Lists the rate-table line items behind a repair estimate. */
+export const CostBreakdown = ({ lineItems, formatAmount, damages, className }: CostBreakdownProps) => {
+  const groups = damages
+    ? damages
+      .map((damage, index) => ({ damage, index, items: lineItems.filter((item) => item.damageIndex === index) }))
+      .filter((group) => group.items.length > 0)
+    : [{ damage: null, index: -1, items: lineItems }];
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      {groups.map(({ damage, index, items }) => (
+        <div key={index} className="space-y-1">
+          {damage && (
+            <p className="text-xs font-medium text-foreground capitalize">
+              {index + 1}. {damage.type.replace(/_/g, " ")} · {describeDamageLocation(damage, navigator.language)}
+            </p>
+          )}
+          {items.map((item, itemIndex) => (
+            <div key={itemIndex} className="flex items-start justify-between gap-3 text-xs">
+              <span className="text-muted-foreground">
+                <span className="font-medium text-foreground/80">{categoryLabel[item.category]}</span> · {item.description}
+              </span>
+              <span className="shrink-0 font-medium text-foreground">{formatRange(item, formatAmount)}</span>
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,114 @@
+import { cn } from "@/lib/utils";
+import type { DamageItem, Severity } from "@shared/contract.ts";
+import { describeDamageLocation } from "@shared/parts.ts";
+
+interface DamageOverlayProps {
+  imageSrc: string;
+  damages: DamageItem[];
+  highlightedIndex: number | null;
+  onHighlight: (index: number | null) => void;
+  alt?: string;
+  className?: string;
+}
+
+const severityStroke: Record<Severity, string> = {
+  Minor: "stroke-success fill-success/10",
+  Moderate: "stroke-warning fill-warning/10",
+  Severe: "stroke-destructive fill-destructive/10",
+};
+
+const severityBadge: Record<Severity, string> = {
+  Minor: "bg-success text-success-foreground",
+  Moderate: "bg-warning text-warning-foreground",
+  Severe: "bg-destructive text-destructive-foreground",
+};
+
+/**
+ * Draws each damage's normalized boxes and polygons over the original photo.
+ * Hovering a region reports its damage index so the damage list can highlight it, and vice versa.
+ */
+export const DamageOverlay = ({
+  imageSrc,
+  damages,
+  highlightedIndex,
+  onHighlight,
+  alt = "Vehicle with detected damage regions",
+  className,
+}: DamageOverlayProps) => {
+  return (
+    <div className={cn("relative w-full", className)} onMouseLeave={() => onHighlight(null)}>
+      <img src={imageSrc} alt={alt} className="block w-full h-auto rounded-xl" />
+
+      <svg
+        viewBox="0 0 1 1"
+        preserveAspectRatio="none"
+        className="absolute inset-0 w-full h-full rounded-xl"
+      >
+        {damages.map((damage, index) => {
+          const isHighlighted = highlightedIndex === index;
+          const isDimmed = highlightedIndex !== null && !isHighlighted;
+          const shapeProps = {
+            className: cn(
+              "cursor-pointer transition-opacity",
+              severityStroke[damage.severity],
+              isDimmed && "opacity-30",
+            ),
+            strokeWidth: isHighlighted ? 4 : 2,
+            vectorEffect: "non-scaling-stroke" as const,
+            onMouseEnter: () => onHighlight(index),
+          };
+
+          return (
+            <g key={index}>
+              {damage.polygons?.length > 0
+                ? damage.polygons.map((polygon, polygonIndex) => (
+                    <polygon
+                      key={polygonIndex}
+                      points={polygon.map(([x, y]) => `${x},${y}`).join(" ")}
+                      {...shapeProps}
+                    />
+                  ))
+                : damage.boundingBoxes?.map((box, boxIndex) => (
+                    <rect
+                      key={boxIndex}
+                      x={box.x}
+                      y={box.y}
+                      width={box.width}
+                      height={box.height}
+                      {...shapeProps}
+                    />
+                  ))}
+            </g>
+          );
+        })}
+      </svg>
+
+      {/* Number badges live outside the SVG so they are not stretched by the non-uniform viewBox */}
+      {damages.map((damage, index) => {
+        const anchor = damage.boundingBoxes?.[0] ?? (damage.polygons?.[0] && {
+          x: Math.min(...damage.polygons[0].map(([x]) => x)),
+          y: Math.min(...damage.polygons[0].map(([, y]) => y)),
+        });
+        if (!anchor) return null;
+
+        return (
+          <button
+            key={index}
+            type="button"
+            onMouseEnter={() => onHighlight(index)}
+            onFocus={() => onHighlight(index)}
+            className={cn(
+              "absolute -translate-x-1/2 -translate-y-1/2 w-6 h-6 rounded-full text-xs font-bold flex items-center justify-center shadow-md transition-transform",
+              severityBadge[damage.severity],
+              highlightedIndex === index && "scale-125 ring-2 ring-background",
+            )}
+            style={{ left: `${anchor.x * 100}%`, top: `${anchor.y * 100}%` }}
+            aria-label={`Damage ${index + 1}: ${damage.severity} ${damage.type} on ${describeDamageLocation(damage, navigator.language)}`}
+          >
+            {index + 1}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
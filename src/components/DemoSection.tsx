@@ -1,114 +1,149 @@
-import { useState, useCallback, useRef } from "react";
+import { useState, useCallback, useRef, type ReactNode } from "react";
+import { Link } from "react-router-dom";
 import { GlassCard } from "./GlassCard";
 import { Button } from "./ui/button";
-import { Upload, Image, AlertTriangle, CheckCircle, X, DollarSign, Wrench, Download, Video, Play, Layers, Images } from "lucide-react";
+import { Upload, Image, AlertTriangle, CheckCircle, X, DollarSign, Wrench, Download, Video, Play, Layers, Images, ExternalLink, Car, Lock, Camera } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import jsPDF from "jspdf";
+import { useAuth } from "@/hooks/use-auth";
 import { Progress } from "./ui/progress";
-
-interface DamageItem {
-  type: string;
-  location: string;
-  severity: "Minor" | "Moderate" | "Severe";
-  description: string;
-}
-
-interface AnalysisResult {
-  hasVehicle: boolean;
-  hasDamage: boolean;
-  overallSeverity: "None" | "Minor" | "Moderate" | "Severe";
-  confidenceScore: number;
-  damages: DamageItem[];
-  affectedAreas: string[];
-  estimatedRepairCost: {
-    min: number;
-    max: number;
-    currency: string;
-  };
-  recommendations: string[];
-  summary: string;
-  annotatedImage?: string | null;
-}
-
-interface FrameAnalysisResult extends AnalysisResult {
-  frameIndex: number;
-  frameImage: string;
-}
-
-interface CombinedAnalysisResult {
-  totalFramesAnalyzed: number;
-  framesWithDamage: number;
-  overallSeverity: "None" | "Minor" | "Moderate" | "Severe";
-  averageConfidence: number;
-  allDamages: (DamageItem & { frameIndex: number })[];
-  uniqueDamageTypes: string[];
-  affectedAreas: string[];
-  estimatedRepairCost: {
-    min: number;
-    max: number;
-    currency: string;
-  };
-  recommendations: string[];
-  summary: string;
-  frameResults: FrameAnalysisResult[];
-}
+import { DamageOverlay } from "./DamageOverlay";
+import { CostBreakdown } from "./CostBreakdown";
+import { Switch } from "./ui/switch";
+import { Label } from "./ui/label";
+import { Input } from "./ui/input";
+import { Alert, AlertDescription, AlertTitle } from "./ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import {
+  analyzeDamage,
+  analyzeDamageBatch,
+  AnalyzeDamageError,
+  type BatchAnalysisOutcome,
+  getDefaultDemoMode,
+  getDefaultPricing,
+  getDisplayCurrency,
+  hasDamageGeometry,
+  persistDemoMode,
+  persistPricing,
+  type PricingSettings,
+} from "@/lib/analyze-damage";
+import { MAX_VEHICLE_REF_LENGTH, type AnalysisResult, type CombinedAnalysisResult } from "@shared/contract.ts";
+import { describeDamageLocation } from "@shared/parts.ts";
+import { buildCombinedReport, buildDamageReport, reportFileName } from "@/lib/report-pdf";
+import { withInlineAnnotation } from "@/lib/image-storage";
+import { preprocessImageFile, type PreprocessedImage } from "@/lib/image-preprocess";
+import {
+  describeSampling,
+  extractVideoFrames,
+  FrameExtractionError,
+  FRAME_SAMPLING_PRESETS,
+  formatTimestamp,
+  getFrameExtractionOptions,
+  samplingKey,
+  type FrameSampling,
+} from "@/lib/video-frames";
+import { QualityWarnings } from "./ImageQuality";
+import { WalkAroundCapture, type WalkAroundShot } from "./WalkAroundCapture";
+import type { ImageQuality } from "@shared/image-quality.ts";
+import { VIEWPOINT_LABELS, type Viewpoint } from "@shared/viewpoints.ts";
+import { DEFAULT_EXCHANGE_RATES, formatCurrency as formatMoney } from "@shared/currency.ts";
+import { REGIONS, getRegion, isRegionCode } from "@shared/regions.ts";
+import { canAnalyze } from "@shared/roles.ts";
 
 const DemoSection = () => {
   const [uploadedImage, setUploadedImage] = useState<string | null>(null);
   const [uploadedImages, setUploadedImages] = useState<string[]>([]);
   const [uploadedVideo, setUploadedVideo] = useState<string | null>(null);
   const [videoFrames, setVideoFrames] = useState<string[]>([]);
+  /** Seconds into the video of each extracted frame, in the same order. */
+  const [frameTimestamps, setFrameTimestamps] = useState<number[]>([]);
+  const [frameSampling, setFrameSampling] = useState<FrameSampling>(() => getFrameExtractionOptions().sampling);
   const [selectedFrameIndex, setSelectedFrameIndex] = useState<number>(0);
   const [selectedImageIndex, setSelectedImageIndex] = useState<number>(0);
   const [isExtractingFrames, setIsExtractingFrames] = useState(false);
+  const [extractionProgress, setExtractionProgress] = useState(0);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [isAnalyzingAllFrames, setIsAnalyzingAllFrames] = useState(false);
   const [isAnalyzingAllImages, setIsAnalyzingAllImages] = useState(false);
-  const [analysisProgress, setAnalysisProgress] = useState(0);
-  const [currentAnalyzingFrame, setCurrentAnalyzingFrame] = useState(0);
   const [results, setResults] = useState<AnalysisResult | null>(null);
   const [combinedResults, setCombinedResults] = useState<CombinedAnalysisResult | null>(null);
   const [isDragOver, setIsDragOver] = useState(false);
   const [mediaType, setMediaType] = useState<'image' | 'video' | 'multi-image' | null>(null);
+  const [demoMode, setDemoMode] = useState<boolean>(getDefaultDemoMode);
+  const [pricing, setPricing] = useState<PricingSettings>(getDefaultPricing);
+  const [vehicleRef, setVehicleRef] = useState("");
+  const [vehicleDetails, setVehicleDetails] = useState({ make: "", model: "", year: "", color: "" });
+  const [analysisError, setAnalysisError] = useState<AnalyzeDamageError | null>(null);
+  const [batchFailures, setBatchFailures] = useState<BatchAnalysisOutcome["failures"]>([]);
+  const [highlightedDamage, setHighlightedDamage] = useState<number | null>(null);
+  const [inspectionId, setInspectionId] = useState<string | null>(null);
+  const [vehicleId, setVehicleId] = useState<string | null>(null);
+  const [imageQualities, setImageQualities] = useState<Map<string, ImageQuality>>(new Map());
+  /** EXIF capture times of photos that had one. */
+  const [imageCaptureTimes, setImageCaptureTimes] = useState<Map<string, string>>(new Map());
+  const [qualityAcknowledged, setQualityAcknowledged] = useState(false);
+  /** Angles of photos taken with the walk-around capture. */
+  const [imageViewpoints, setImageViewpoints] = useState<Map<string, Viewpoint>>(new Map());
+  const [isWalkAroundOpen, setIsWalkAroundOpen] = useState(false);
   const videoRef = useRef<HTMLVideoElement>(null);
+  const extractionRef = useRef<AbortController | null>(null);
   const { toast } = useToast();
+  const { session, membership } = useAuth();
+  // Demo mode never leaves the browser; real analyses need an inspector or admin
+  const analysisBlocked = !demoMode && !(membership && canAnalyze(membership.role));
+
+  const qualityOf = (image: string) => imageQualities.get(image);
+  const timestampOf = (image: string) => {
+    const index = videoFrames.indexOf(image);
+    return index >= 0 ? frameTimestamps[index] : undefined;
+  };
+  const samplingChoices = FRAME_SAMPLING_PRESETS.some((preset) => samplingKey(preset) === samplingKey(frameSampling))
+    ? FRAME_SAMPLING_PRESETS
+    : [frameSampling, ...FRAME_SAMPLING_PRESETS];
+  // The analyze buttons act on the whole set of photos or frames, so one acknowledgement covers the set
+  const currentImages = mediaType === 'video' ? videoFrames : mediaType === 'multi-image' ? uploadedImages : uploadedImage ? [uploadedImage] : [];
+  const qualityBlocked = !qualityAcknowledged && currentImages.some((image) => (qualityOf(image)?.issues.length ?? 0) > 0);
+
+  const toggleDemoMode = (enabled: boolean) => {
+    setDemoMode(enabled);
+    persistDemoMode(enabled);
+  };
 
-  const getStaticResult = (imageBase64?: string | null): AnalysisResult => {
-    return {
-      hasVehicle: true,
-      hasDamage: true,
-      overallSeverity: "Moderate",
-      confidenceScore: 92,
-      damages: [
-        {
-          type: "Dent",
-          location: "Front bumper",
-          severity: "Moderate",
-          description: "Visible dent with minor deformation on the front bumper area.",
-        },
-        {
-          type: "Scratch",
-          location: "Left fender",
-          severity: "Minor",
-          description: "Surface scratches likely caused by light contact.",
-        },
-      ],
-      affectedAreas: ["Front bumper", "Left fender"],
-      estimatedRepairCost: {
-        min: 4500,
-        max: 12000,
-        currency: "INR",
-      },
-      recommendations: [
-        "Inspect bumper alignment and mounts.",
-        "Polish scratches and apply protective coating.",
-        "Schedule a body shop assessment for precise repair cost.",
-      ],
-      summary:
-        "Static demo result: Vehicle damage detected with moderate severity. " +
-        "Recommended repair includes bumper inspection and scratch correction.",
-      annotatedImage: imageBase64 || null,
-    };
+  const updatePricing = (next: PricingSettings) => {
+    setPricing(next);
+    persistPricing(next);
+  };
+
+  /** Vehicle details as request options, leaving out empty fields. */
+  const analyzeOptions = () => ({
+    demoMode,
+    pricing,
+    vehicleRef,
+    organizationId: membership?.organizationId,
+    detailsOf: (image: string) => ({
+      quality: qualityOf(image),
+      capturedAt: imageCaptureTimes.get(image),
+      timestamp: timestampOf(image),
+      viewpoint: imageViewpoints.get(image),
+    }),
+    vehicleDetails: {
+      ...(vehicleDetails.make.trim() ? { make: vehicleDetails.make.trim() } : {}),
+      ...(vehicleDetails.model.trim() ? { model: vehicleDetails.model.trim() } : {}),
+      ...(Number(vehicleDetails.year) > 0 ? { year: Number(vehicleDetails.year) } : {}),
+      ...(vehicleDetails.color.trim() ? { color: vehicleDetails.color.trim() } : {}),
+    },
+  });
+
+  const reportAnalysisError = (error: unknown, fallback: string) => {
+    console.error('Analysis error:', error);
+    const analysisFailure = error instanceof AnalyzeDamageError
+      ? error
+      : new AnalyzeDamageError("server_error", error instanceof Error ? error.message : fallback);
+    setAnalysisError(analysisFailure);
+    toast({
+      title: analysisFailure.title,
+      description: analysisFailure.message,
+      variant: "destructive",
+    });
   };
 
   const handleDrop = useCallback((e: React.DragEvent) => {
@@ -149,56 +184,102 @@ const DemoSection = () => {
     }
   };
 
-  const processImageFile = (file: File) => {
-    const reader = new FileReader();
-    reader.onload = () => {
-      setUploadedImage(reader.result as string);
-      setUploadedImages([]);
-      setUploadedVideo(null);
-      setVideoFrames([]);
-      setMediaType('image');
-      setResults(null);
-      setCombinedResults(null);
-    };
-    reader.readAsDataURL(file);
+  /** Reports files the browser could not decode, such as HEIC photos outside Safari. */
+  const reportUnreadableImage = (error: unknown) => {
+    console.error('Image preprocessing error:', error);
+    toast({
+      title: "Could not read image",
+      description: "This image format is not supported by your browser. Please try a JPEG, PNG or WebP photo.",
+      variant: "destructive",
+    });
   };
 
-  const processMultipleImages = async (files: File[]) => {
-    const images: string[] = [];
-    
-    for (const file of files) {
-      const dataUrl = await new Promise<string>((resolve) => {
-        const reader = new FileReader();
-        reader.onload = () => resolve(reader.result as string);
-        reader.readAsDataURL(file);
-      });
-      images.push(dataUrl);
+  /**
+   * Keeps the quality, capture times and any viewpoints of freshly prepared
+   * images; earlier measurements, tags and acknowledgements no longer apply.
+   */
+  const rememberImageDetails = (images: PreprocessedImage[], viewpoints: Viewpoint[] = []) => {
+    setImageQualities(new Map(images.map(({ dataUrl, quality }) => [dataUrl, quality])));
+    setImageCaptureTimes(new Map(images.filter(({ capturedAt }) => capturedAt).map(({ dataUrl, capturedAt }) => [dataUrl, capturedAt])));
+    setImageViewpoints(new Map(viewpoints.map((viewpoint, index) => [images[index].dataUrl, viewpoint])));
+    setQualityAcknowledged(false);
+  };
+
+  const processImageFile = async (file: File) => {
+    let image: PreprocessedImage;
+    try {
+      image = await preprocessImageFile(file);
+    } catch (error) {
+      reportUnreadableImage(error);
+      return;
     }
-    
-    setUploadedImages(images);
-    setUploadedImage(images[0]);
+    rememberImageDetails([image]);
+    setUploadedImage(image.dataUrl);
+    setUploadedImages([]);
+    setUploadedVideo(null);
+    setVideoFrames([]);
+    setFrameTimestamps([]);
+    setMediaType('image');
+    setResults(null);
+    setAnalysisError(null);
+    setCombinedResults(null);
+  };
+
+  /** Shows a set of prepared photos as a multi-image inspection. */
+  const showMultipleImages = (images: PreprocessedImage[], viewpoints?: Viewpoint[]) => {
+    rememberImageDetails(images, viewpoints);
+    setUploadedImages(images.map((image) => image.dataUrl));
+    setUploadedImage(images[0].dataUrl);
     setSelectedImageIndex(0);
     setUploadedVideo(null);
     setVideoFrames([]);
+    setFrameTimestamps([]);
     setMediaType('multi-image');
     setResults(null);
+    setAnalysisError(null);
     setCombinedResults(null);
+  };
+
+  const processMultipleImages = async (files: File[]) => {
+    const images: PreprocessedImage[] = [];
+    
+    for (const file of files) {
+      try {
+        images.push(await preprocessImageFile(file));
+      } catch (error) {
+        reportUnreadableImage(error);
+        return;
+      }
+    }
     
+    showMultipleImages(images);
     toast({
       title: "Images Uploaded",
       description: `${images.length} images ready for analysis. Select an image or analyze all at once.`,
     });
   };
 
+  const completeWalkAround = (shots: WalkAroundShot[]) => {
+    showMultipleImages(shots.map((shot) => shot.image), shots.map((shot) => shot.viewpoint));
+    toast({
+      title: "Walk-around captured",
+      description: `${shots.length} tagged photos ready for analysis.`,
+    });
+  };
+
   const processVideoFile = (file: File) => {
     const reader = new FileReader();
     reader.onload = () => {
+      cancelFrameExtraction();
       setUploadedVideo(reader.result as string);
+      rememberImageDetails([]);
       setUploadedImage(null);
       setUploadedImages([]);
       setVideoFrames([]);
+      setFrameTimestamps([]);
       setMediaType('video');
       setResults(null);
+      setAnalysisError(null);
       setCombinedResults(null);
     };
     reader.readAsDataURL(file);
@@ -207,65 +288,59 @@ const DemoSection = () => {
   const extractFramesFromVideo = async () => {
     if (!uploadedVideo || !videoRef.current) return;
 
+    const extraction = new AbortController();
+    extractionRef.current = extraction;
     setIsExtractingFrames(true);
-    const video = videoRef.current;
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-    
-    if (!ctx) {
-      toast({
-        title: "Error",
-        description: "Could not create canvas context for frame extraction.",
-        variant: "destructive",
-      });
-      setIsExtractingFrames(false);
-      return;
-    }
-
-    const frames: string[] = [];
-    const duration = video.duration;
-    const frameCount = Math.min(6, Math.ceil(duration)); // Extract up to 6 frames
-    const interval = duration / frameCount;
-
+    setExtractionProgress(0);
     try {
-      for (let i = 0; i < frameCount; i++) {
-        const time = i * interval + interval / 2;
-        await new Promise<void>((resolve) => {
-          video.currentTime = time;
-          video.onseeked = () => {
-            canvas.width = video.videoWidth;
-            canvas.height = video.videoHeight;
-            ctx.drawImage(video, 0, 0);
-            frames.push(canvas.toDataURL('image/jpeg', 0.9));
-            resolve();
-          };
-        });
-      }
-
-      setVideoFrames(frames);
+      const frames = await extractVideoFrames(
+        videoRef.current,
+        { ...getFrameExtractionOptions(), sampling: frameSampling },
+        { signal: extraction.signal, onProgress: setExtractionProgress },
+      );
+
+      rememberImageDetails(frames);
+      setVideoFrames(frames.map((frame) => frame.dataUrl));
+      setFrameTimestamps(frames.map((frame) => frame.timestamp));
       setSelectedFrameIndex(0);
-      setUploadedImage(frames[0]);
+      setUploadedImage(frames[0].dataUrl);
       
       toast({
         title: "Frames Extracted",
         description: `Extracted ${frames.length} frames from video. Select a frame to analyze.`,
       });
     } catch (error) {
+      if (error instanceof FrameExtractionError && error.reason === "cancelled") return;
       console.error('Frame extraction error:', error);
       toast({
         title: "Extraction Failed",
-        description: "Could not extract frames from video. Please try a different video.",
+        description: error instanceof FrameExtractionError && error.reason === "timeout"
+          ? "The video stopped responding and may be corrupt. Please try a different video."
+          : "Could not extract frames from video. Please try a different video.",
         variant: "destructive",
       });
     } finally {
-      setIsExtractingFrames(false);
+      if (extractionRef.current === extraction) {
+        extractionRef.current = null;
+        setIsExtractingFrames(false);
+      }
     }
   };
 
+  const cancelFrameExtraction = () => extractionRef.current?.abort();
+
+  /** Shows a frame and seeks the source video to it, keeping the combined results on screen. */
+  const jumpToFrame = (index: number) => {
+    setSelectedFrameIndex(index);
+    setUploadedImage(videoFrames[index]);
+    if (videoRef.current && frameTimestamps[index] !== undefined) videoRef.current.currentTime = frameTimestamps[index];
+  };
+
   const selectFrame = (index: number) => {
     setSelectedFrameIndex(index);
     setUploadedImage(videoFrames[index]);
     setResults(null);
+    setAnalysisError(null);
     setCombinedResults(null);
   };
 
@@ -273,273 +348,94 @@ const DemoSection = () => {
     setSelectedImageIndex(index);
     setUploadedImage(uploadedImages[index]);
     setResults(null);
+    setAnalysisError(null);
     setCombinedResults(null);
   };
 
-  const analyzeAllImages = async () => {
-    if (uploadedImages.length === 0) return;
-    
-    setIsAnalyzingAllImages(true);
-    setAnalysisProgress(0);
-    setCurrentAnalyzingFrame(0);
+  const analyzeAll = async (images: string[], source: "multi-image" | "video") => {
+    const unit = source === "multi-image" ? "image" : "frame";
+    const setBusy = source === "multi-image" ? setIsAnalyzingAllImages : setIsAnalyzingAllFrames;
+
+    setBusy(true);
     setCombinedResults(null);
     setResults(null);
-    
-    const imageResults: FrameAnalysisResult[] = [];
-    
-    try {
-      for (let i = 0; i < uploadedImages.length; i++) {
-        setCurrentAnalyzingFrame(i + 1);
-        const staticResult = getStaticResult(uploadedImages[i]);
-        imageResults.push({
-          ...staticResult,
-          frameIndex: i,
-          frameImage: uploadedImages[i],
-        });
-        
-        setAnalysisProgress(((i + 1) / uploadedImages.length) * 100);
-      }
+    setAnalysisError(null);
+    setBatchFailures([]);
+    setInspectionId(null);
+    setVehicleId(null);
 
-      if (imageResults.length === 0) {
-        toast({
-          title: "Analysis Failed",
-          description: "Could not analyze any images. Please try again.",
-          variant: "destructive",
-        });
+    try {
+      const { combined, failures, ...saved } = await analyzeDamageBatch(images, source, analyzeOptions());
+      setBatchFailures(failures);
+      setInspectionId(saved.inspectionId);
+      setVehicleId(saved.vehicleId);
+
+      if (!combined) {
+        // Every item failed; surface the first failure as the reason
+        reportAnalysisError(failures[0]?.error, `Could not analyze any ${unit}s. Please try again.`);
         return;
       }
 
-      // Combine results from all images
-      const combined = combineImageResults(imageResults);
       setCombinedResults(combined);
       
       toast({
         title: "Comprehensive Analysis Complete",
-        description: `Analyzed ${imageResults.length} images. Found ${combined.allDamages.length} total damage instances.`,
+        description: `Analyzed ${combined.totalFramesAnalyzed} ${unit}s. Found ${combined.distinctDamages.length} distinct damage(s) in ${combined.allDamages.length} instances.` +
+          (failures.length > 0 ? ` ${failures.length} ${unit}(s) could not be analyzed.` : ""),
       });
     } catch (error) {
-      console.error('Analysis error:', error);
-      toast({
-        title: "Analysis Failed",
-        description: error instanceof Error ? error.message : "Failed to analyze images. Please try again.",
-        variant: "destructive",
-      });
+      reportAnalysisError(error, `Failed to analyze ${unit}s. Please try again.`);
     } finally {
-      setIsAnalyzingAllImages(false);
-      setAnalysisProgress(0);
-      setCurrentAnalyzingFrame(0);
+      setBusy(false);
     }
   };
 
-  const combineImageResults = (imageResults: FrameAnalysisResult[]): CombinedAnalysisResult => {
-    const imagesWithDamage = imageResults.filter(f => f.hasDamage).length;
-    const avgConfidence = Math.round(
-      imageResults.reduce((sum, f) => sum + f.confidenceScore, 0) / imageResults.length
-    );
-    
-    // Collect all damages with image index
-    const allDamages: (DamageItem & { frameIndex: number })[] = [];
-    imageResults.forEach(image => {
-      image.damages.forEach(damage => {
-        allDamages.push({
-          ...damage,
-          frameIndex: image.frameIndex
-        });
-      });
-    });
-
-    // Get unique damage types
-    const uniqueDamageTypes = [...new Set(allDamages.map(d => d.type))];
-    
-    // Get all affected areas
-    const affectedAreas = [...new Set(imageResults.flatMap(f => f.affectedAreas))];
-    
-    // Determine overall severity (highest found)
-    const severityOrder = { "None": 0, "Minor": 1, "Moderate": 2, "Severe": 3 };
-    const overallSeverity = imageResults.reduce<"None" | "Minor" | "Moderate" | "Severe">((max, image) => {
-      return severityOrder[image.overallSeverity] > severityOrder[max] ? image.overallSeverity : max;
-    }, "None");
-
-    // Calculate combined repair cost (take max range found)
-    const minCost = Math.max(...imageResults.map(f => f.estimatedRepairCost?.min || 0));
-    const maxCost = Math.max(...imageResults.map(f => f.estimatedRepairCost?.max || 0));
-    const currency = imageResults.find(f => f.estimatedRepairCost?.currency)?.estimatedRepairCost?.currency || "INR";
-
-    // Combine unique recommendations
-    const recommendations = [...new Set(imageResults.flatMap(f => f.recommendations || []))];
-
-    // Generate comprehensive summary
-    const summary = `Comprehensive analysis of ${imageResults.length} images reveals ${imagesWithDamage} image(s) showing vehicle damage. ` +
-      `A total of ${allDamages.length} damage instances were detected across ${uniqueDamageTypes.length} damage type(s): ${uniqueDamageTypes.join(", ")}. ` +
-      `Affected areas include: ${affectedAreas.join(", ")}. Overall severity is assessed as ${overallSeverity}.`;
-
-    return {
-      totalFramesAnalyzed: imageResults.length,
-      framesWithDamage: imagesWithDamage,
-      overallSeverity,
-      averageConfidence: avgConfidence,
-      allDamages,
-      uniqueDamageTypes,
-      affectedAreas,
-      estimatedRepairCost: {
-        min: minCost,
-        max: maxCost,
-        currency
-      },
-      recommendations,
-      summary,
-      frameResults: imageResults
-    };
+  const analyzeAllImages = () => {
+    if (uploadedImages.length === 0) return;
+    return analyzeAll(uploadedImages, "multi-image");
   };
 
-  const analyzeAllFrames = async () => {
+  const analyzeAllFrames = () => {
     if (videoFrames.length === 0) return;
-    
-    setIsAnalyzingAllFrames(true);
-    setAnalysisProgress(0);
-    setCurrentAnalyzingFrame(0);
-    setCombinedResults(null);
-    setResults(null);
-    
-    const frameResults: FrameAnalysisResult[] = [];
-    
-    try {
-      for (let i = 0; i < videoFrames.length; i++) {
-        setCurrentAnalyzingFrame(i + 1);
-        const staticResult = getStaticResult(videoFrames[i]);
-        frameResults.push({
-          ...staticResult,
-          frameIndex: i,
-          frameImage: videoFrames[i],
-        });
-        
-        setAnalysisProgress(((i + 1) / videoFrames.length) * 100);
-      }
-
-      if (frameResults.length === 0) {
-        toast({
-          title: "Analysis Failed",
-          description: "Could not analyze any frames. Please try again.",
-          variant: "destructive",
-        });
-        return;
-      }
-
-      // Combine results from all frames
-      const combined = combineFrameResults(frameResults);
-      setCombinedResults(combined);
-      
-      toast({
-        title: "Comprehensive Analysis Complete",
-        description: `Analyzed ${frameResults.length} frames. Found ${combined.allDamages.length} total damage instances.`,
-      });
-    } catch (error) {
-      console.error('Analysis error:', error);
-      toast({
-        title: "Analysis Failed",
-        description: error instanceof Error ? error.message : "Failed to analyze frames. Please try again.",
-        variant: "destructive",
-      });
-    } finally {
-      setIsAnalyzingAllFrames(false);
-      setAnalysisProgress(0);
-      setCurrentAnalyzingFrame(0);
-    }
-  };
-
-  const combineFrameResults = (frameResults: FrameAnalysisResult[]): CombinedAnalysisResult => {
-    const framesWithDamage = frameResults.filter(f => f.hasDamage).length;
-    const avgConfidence = Math.round(
-      frameResults.reduce((sum, f) => sum + f.confidenceScore, 0) / frameResults.length
-    );
-    
-    // Collect all damages with frame index
-    const allDamages: (DamageItem & { frameIndex: number })[] = [];
-    frameResults.forEach(frame => {
-      frame.damages.forEach(damage => {
-        allDamages.push({
-          ...damage,
-          frameIndex: frame.frameIndex
-        });
-      });
-    });
-
-    // Get unique damage types
-    const uniqueDamageTypes = [...new Set(allDamages.map(d => d.type))];
-    
-    // Get all affected areas
-    const affectedAreas = [...new Set(frameResults.flatMap(f => f.affectedAreas))];
-    
-    // Determine overall severity (highest found)
-    const severityOrder = { "None": 0, "Minor": 1, "Moderate": 2, "Severe": 3 };
-    const overallSeverity = frameResults.reduce<"None" | "Minor" | "Moderate" | "Severe">((max, frame) => {
-      return severityOrder[frame.overallSeverity] > severityOrder[max] ? frame.overallSeverity : max;
-    }, "None");
-
-    // Calculate combined repair cost (take max range found)
-    const minCost = Math.max(...frameResults.map(f => f.estimatedRepairCost?.min || 0));
-    const maxCost = Math.max(...frameResults.map(f => f.estimatedRepairCost?.max || 0));
-    const currency = frameResults.find(f => f.estimatedRepairCost?.currency)?.estimatedRepairCost?.currency || "INR";
-
-    // Combine unique recommendations
-    const recommendations = [...new Set(frameResults.flatMap(f => f.recommendations || []))];
-
-    // Generate comprehensive summary
-    const summary = `Comprehensive analysis of ${frameResults.length} video frames reveals ${framesWithDamage} frame(s) showing vehicle damage. ` +
-      `A total of ${allDamages.length} damage instances were detected across ${uniqueDamageTypes.length} damage type(s): ${uniqueDamageTypes.join(", ")}. ` +
-      `Affected areas include: ${affectedAreas.join(", ")}. Overall severity is assessed as ${overallSeverity}.`;
-
-    return {
-      totalFramesAnalyzed: frameResults.length,
-      framesWithDamage,
-      overallSeverity,
-      averageConfidence: avgConfidence,
-      allDamages,
-      uniqueDamageTypes,
-      affectedAreas,
-      estimatedRepairCost: {
-        min: minCost,
-        max: maxCost,
-        currency
-      },
-      recommendations,
-      summary,
-      frameResults
-    };
+    return analyzeAll(videoFrames, "video");
   };
 
   const analyzeImage = async () => {
     if (!uploadedImage) return;
     
     setIsAnalyzing(true);
+    setAnalysisError(null);
+    setInspectionId(null);
+    setVehicleId(null);
     try {
-      const data = getStaticResult(uploadedImage);
+      const data = await analyzeDamage(uploadedImage, analyzeOptions());
       setResults(data);
+      setInspectionId(data.inspectionId ?? null);
+      setVehicleId(data.vehicleId ?? null);
       toast({
         title: "Analysis Complete",
-        description: data.hasDamage 
+        description: (data.hasDamage 
           ? `Detected ${data.damages.length} damage(s) with ${data.overallSeverity} severity.`
-          : "No damage detected on this vehicle.",
+          : "No damage detected on this vehicle.") + (data.cached ? " (served from cache)" : ""),
       });
     } catch (error) {
-      console.error('Analysis error:', error);
-      toast({
-        title: "Analysis Failed",
-        description: error instanceof Error ? error.message : "Failed to analyze image. Please try again.",
-        variant: "destructive",
-      });
+      reportAnalysisError(error, "Failed to analyze image. Please try again.");
     } finally {
       setIsAnalyzing(false);
     }
   };
 
   const clearMedia = () => {
+    cancelFrameExtraction();
+    rememberImageDetails([]);
     setUploadedImage(null);
     setUploadedImages([]);
     setUploadedVideo(null);
     setVideoFrames([]);
+    setFrameTimestamps([]);
     setMediaType(null);
     setResults(null);
+    setAnalysisError(null);
     setCombinedResults(null);
   };
 
@@ -561,14 +457,12 @@ const DemoSection = () => {
     }
   };
 
-  const formatCurrency = (amount: number, currency: string = 'INR') => {
-    return new Intl.NumberFormat('en-IN', {
-      style: 'currency',
-      currency: currency,
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(amount);
-  };
+  const formatCurrency = (amount: number, currency: string = getDisplayCurrency(pricing)) =>
+    formatMoney(amount, currency, { locale: getRegion(pricing.region).locale });
+
+  // The built-in PDF fonts have no ₹/€ glyphs, so reports print the currency code instead
+  const formatPdfCurrency = (amount: number, currency: string = getDisplayCurrency(pricing)) =>
+    formatMoney(amount, currency, { locale: getRegion(pricing.region).locale, display: 'code' });
 
   const downloadPDF = async () => {
     if (!results || !uploadedImage) return;
@@ -579,184 +473,8 @@ const DemoSection = () => {
         description: "Please wait while we create your damage report...",
       });
 
-      const pdf = new jsPDF('p', 'mm', 'a4');
-      const pageWidth = pdf.internal.pageSize.getWidth();
-      const pageHeight = pdf.internal.pageSize.getHeight();
-      const margin = 15;
-      let yPosition = margin;
-
-      // Header
-      pdf.setFillColor(37, 99, 235);
-      pdf.rect(0, 0, pageWidth, 35, 'F');
-      pdf.setTextColor(255, 255, 255);
-      pdf.setFontSize(22);
-      pdf.setFont('helvetica', 'bold');
-      pdf.text('Vehicle Damage Analysis Report', margin, 22);
-      
-      // Date
-      pdf.setFontSize(10);
-      pdf.setFont('helvetica', 'normal');
-      pdf.text(`Generated: ${new Date().toLocaleString('en-IN')}`, pageWidth - margin - 60, 22);
-      
-      yPosition = 45;
-      pdf.setTextColor(0, 0, 0);
-
-      // Vehicle Image (annotated if available)
-      const imageToUse = results.annotatedImage || uploadedImage;
-      try {
-        const imgData = imageToUse;
-        const imgWidth = pageWidth - (margin * 2);
-        const imgHeight = 70;
-        pdf.addImage(imgData, 'JPEG', margin, yPosition, imgWidth, imgHeight, undefined, 'MEDIUM');
-        yPosition += imgHeight + 10;
-      } catch (imgError) {
-        console.error('Error adding image to PDF:', imgError);
-        yPosition += 10;
-      }
-
-      // Summary Section
-      pdf.setFillColor(240, 240, 240);
-      pdf.rect(margin, yPosition, pageWidth - (margin * 2), 25, 'F');
-      pdf.setFontSize(12);
-      pdf.setFont('helvetica', 'bold');
-      pdf.text('Summary', margin + 5, yPosition + 8);
-      pdf.setFont('helvetica', 'normal');
-      pdf.setFontSize(10);
-      
-      const summaryLines = pdf.splitTextToSize(results.summary, pageWidth - (margin * 2) - 10);
-      pdf.text(summaryLines, margin + 5, yPosition + 16);
-      yPosition += 30;
-
-      // Stats Row
-      const boxWidth = (pageWidth - (margin * 2) - 10) / 3;
-      
-      // Damages Found
-      pdf.setFillColor(254, 243, 199);
-      pdf.rect(margin, yPosition, boxWidth, 20, 'F');
-      pdf.setFontSize(8);
-      pdf.setTextColor(146, 64, 14);
-      pdf.text('Damages Found', margin + boxWidth/2, yPosition + 6, { align: 'center' });
-      pdf.setFontSize(14);
-      pdf.setFont('helvetica', 'bold');
-      pdf.text(String(results.damages.length), margin + boxWidth/2, yPosition + 15, { align: 'center' });
-
-      // Confidence
-      pdf.setFillColor(219, 234, 254);
-      pdf.rect(margin + boxWidth + 5, yPosition, boxWidth, 20, 'F');
-      pdf.setFontSize(8);
-      pdf.setTextColor(30, 64, 175);
-      pdf.setFont('helvetica', 'normal');
-      pdf.text('Confidence', margin + boxWidth + 5 + boxWidth/2, yPosition + 6, { align: 'center' });
-      pdf.setFontSize(14);
-      pdf.setFont('helvetica', 'bold');
-      pdf.text(`${results.confidenceScore}%`, margin + boxWidth + 5 + boxWidth/2, yPosition + 15, { align: 'center' });
-
-      // Severity
-      const severityColor = results.overallSeverity === 'Severe' ? [254, 202, 202] : 
-                           results.overallSeverity === 'Moderate' ? [254, 243, 199] : [209, 250, 229];
-      const severityTextColor = results.overallSeverity === 'Severe' ? [153, 27, 27] : 
-                                results.overallSeverity === 'Moderate' ? [146, 64, 14] : [22, 101, 52];
-      pdf.setFillColor(severityColor[0], severityColor[1], severityColor[2]);
-      pdf.rect(margin + (boxWidth * 2) + 10, yPosition, boxWidth, 20, 'F');
-      pdf.setFontSize(8);
-      pdf.setTextColor(severityTextColor[0], severityTextColor[1], severityTextColor[2]);
-      pdf.setFont('helvetica', 'normal');
-      pdf.text('Overall Severity', margin + (boxWidth * 2) + 10 + boxWidth/2, yPosition + 6, { align: 'center' });
-      pdf.setFontSize(14);
-      pdf.setFont('helvetica', 'bold');
-      pdf.text(results.overallSeverity, margin + (boxWidth * 2) + 10 + boxWidth/2, yPosition + 15, { align: 'center' });
-
-      yPosition += 28;
-      pdf.setTextColor(0, 0, 0);
-
-      // Estimated Repair Cost
-      if (results.estimatedRepairCost && results.estimatedRepairCost.max > 0) {
-        pdf.setFillColor(220, 252, 231);
-        pdf.rect(margin, yPosition, pageWidth - (margin * 2), 15, 'F');
-        pdf.setFontSize(10);
-        pdf.setFont('helvetica', 'bold');
-        pdf.setTextColor(22, 101, 52);
-        const costText = `Estimated Repair Cost: ${formatCurrency(results.estimatedRepairCost.min, results.estimatedRepairCost.currency)} - ${formatCurrency(results.estimatedRepairCost.max, results.estimatedRepairCost.currency)}`;
-        pdf.text(costText, pageWidth / 2, yPosition + 10, { align: 'center' });
-        yPosition += 22;
-      }
-
-      pdf.setTextColor(0, 0, 0);
-
-      // Damage Details
-      if (results.damages.length > 0) {
-        pdf.setFontSize(14);
-        pdf.setFont('helvetica', 'bold');
-        pdf.text('Damage Details', margin, yPosition);
-        yPosition += 8;
-
-        results.damages.forEach((damage, index) => {
-          if (yPosition > pageHeight - 40) {
-            pdf.addPage();
-            yPosition = margin;
-          }
-
-          const damageBoxColor = damage.severity === 'Severe' ? [254, 226, 226] : 
-                                 damage.severity === 'Moderate' ? [254, 249, 195] : [220, 252, 231];
-          pdf.setFillColor(damageBoxColor[0], damageBoxColor[1], damageBoxColor[2]);
-          pdf.rect(margin, yPosition, pageWidth - (margin * 2), 22, 'F');
-          
-          pdf.setFontSize(11);
-          pdf.setFont('helvetica', 'bold');
-          pdf.setTextColor(0, 0, 0);
-          pdf.text(`${index + 1}. ${damage.type}`, margin + 5, yPosition + 7);
-          
-          const severityBadge = damage.severity;
-          pdf.setFontSize(8);
-          pdf.text(`[${severityBadge}]`, pageWidth - margin - 20, yPosition + 7);
-          
-          pdf.setFontSize(9);
-          pdf.setFont('helvetica', 'normal');
-          pdf.setTextColor(80, 80, 80);
-          pdf.text(`Location: ${damage.location}`, margin + 5, yPosition + 14);
-          
-          const descLines = pdf.splitTextToSize(damage.description, pageWidth - (margin * 2) - 10);
-          pdf.text(descLines[0] || '', margin + 5, yPosition + 20);
-          
-          yPosition += 26;
-        });
-      }
-
-      // Recommendations
-      if (results.recommendations && results.recommendations.length > 0) {
-        if (yPosition > pageHeight - 50) {
-          pdf.addPage();
-          yPosition = margin;
-        }
-
-        yPosition += 5;
-        pdf.setFontSize(14);
-        pdf.setFont('helvetica', 'bold');
-        pdf.setTextColor(0, 0, 0);
-        pdf.text('Recommendations', margin, yPosition);
-        yPosition += 8;
-
-        results.recommendations.forEach((rec, index) => {
-          if (yPosition > pageHeight - 20) {
-            pdf.addPage();
-            yPosition = margin;
-          }
-          pdf.setFontSize(10);
-          pdf.setFont('helvetica', 'normal');
-          pdf.setTextColor(60, 60, 60);
-          const recLines = pdf.splitTextToSize(`• ${rec}`, pageWidth - (margin * 2));
-          pdf.text(recLines, margin + 5, yPosition);
-          yPosition += recLines.length * 5 + 3;
-        });
-      }
-
-      // Footer
-      pdf.setFontSize(8);
-      pdf.setTextColor(150, 150, 150);
-      pdf.text('Generated by DamageDetect AI - Vehicle Damage Analysis System', pageWidth / 2, pageHeight - 10, { align: 'center' });
-
-      // Save PDF
-      pdf.save(`damage-report-${new Date().toISOString().split('T')[0]}.pdf`);
+      const pdf = buildDamageReport(await withInlineAnnotation(results), uploadedImage, { formatAmount: formatPdfCurrency });
+      pdf.save(reportFileName('damage-report'));
 
       toast({
         title: "PDF Downloaded",
@@ -781,257 +499,11 @@ const DemoSection = () => {
         description: "Please wait while we create your comprehensive damage report...",
       });
 
-      const pdf = new jsPDF('p', 'mm', 'a4');
-      const pageWidth = pdf.internal.pageSize.getWidth();
-      const pageHeight = pdf.internal.pageSize.getHeight();
-      const margin = 15;
-      let yPosition = margin;
-
-      // Header
-      pdf.setFillColor(37, 99, 235);
-      pdf.rect(0, 0, pageWidth, 35, 'F');
-      pdf.setTextColor(255, 255, 255);
-      pdf.setFontSize(20);
-      pdf.setFont('helvetica', 'bold');
-      pdf.text('Comprehensive Video Damage Analysis', margin, 18);
-      pdf.setFontSize(10);
-      pdf.setFont('helvetica', 'normal');
-      pdf.text(`${combinedResults.totalFramesAnalyzed} Frames Analyzed`, margin, 28);
-      pdf.text(`Generated: ${new Date().toLocaleString('en-IN')}`, pageWidth - margin - 60, 28);
-      
-      yPosition = 45;
-      pdf.setTextColor(0, 0, 0);
-
-      // Summary Section
-      pdf.setFillColor(240, 240, 240);
-      pdf.rect(margin, yPosition, pageWidth - (margin * 2), 35, 'F');
-      pdf.setFontSize(12);
-      pdf.setFont('helvetica', 'bold');
-      pdf.text('Summary', margin + 5, yPosition + 8);
-      pdf.setFont('helvetica', 'normal');
-      pdf.setFontSize(9);
-      
-      const summaryLines = pdf.splitTextToSize(combinedResults.summary, pageWidth - (margin * 2) - 10);
-      pdf.text(summaryLines, margin + 5, yPosition + 16);
-      yPosition += 42;
-
-      // Stats Row
-      const boxWidth = (pageWidth - (margin * 2) - 15) / 4;
-      
-      // Frames Analyzed
-      pdf.setFillColor(219, 234, 254);
-      pdf.rect(margin, yPosition, boxWidth, 20, 'F');
-      pdf.setFontSize(7);
-      pdf.setTextColor(30, 64, 175);
-      pdf.text('Frames Analyzed', margin + boxWidth/2, yPosition + 6, { align: 'center' });
-      pdf.setFontSize(12);
-      pdf.setFont('helvetica', 'bold');
-      pdf.text(String(combinedResults.totalFramesAnalyzed), margin + boxWidth/2, yPosition + 15, { align: 'center' });
-
-      // Frames with Damage
-      pdf.setFillColor(254, 243, 199);
-      pdf.rect(margin + boxWidth + 5, yPosition, boxWidth, 20, 'F');
-      pdf.setFontSize(7);
-      pdf.setTextColor(146, 64, 14);
-      pdf.setFont('helvetica', 'normal');
-      pdf.text('Frames w/ Damage', margin + boxWidth + 5 + boxWidth/2, yPosition + 6, { align: 'center' });
-      pdf.setFontSize(12);
-      pdf.setFont('helvetica', 'bold');
-      pdf.text(String(combinedResults.framesWithDamage), margin + boxWidth + 5 + boxWidth/2, yPosition + 15, { align: 'center' });
-
-      // Total Damages
-      pdf.setFillColor(254, 226, 226);
-      pdf.rect(margin + (boxWidth * 2) + 10, yPosition, boxWidth, 20, 'F');
-      pdf.setFontSize(7);
-      pdf.setTextColor(153, 27, 27);
-      pdf.setFont('helvetica', 'normal');
-      pdf.text('Total Damages', margin + (boxWidth * 2) + 10 + boxWidth/2, yPosition + 6, { align: 'center' });
-      pdf.setFontSize(12);
-      pdf.setFont('helvetica', 'bold');
-      pdf.text(String(combinedResults.allDamages.length), margin + (boxWidth * 2) + 10 + boxWidth/2, yPosition + 15, { align: 'center' });
-
-      // Avg Confidence
-      pdf.setFillColor(220, 252, 231);
-      pdf.rect(margin + (boxWidth * 3) + 15, yPosition, boxWidth, 20, 'F');
-      pdf.setFontSize(7);
-      pdf.setTextColor(22, 101, 52);
-      pdf.setFont('helvetica', 'normal');
-      pdf.text('Avg Confidence', margin + (boxWidth * 3) + 15 + boxWidth/2, yPosition + 6, { align: 'center' });
-      pdf.setFontSize(12);
-      pdf.setFont('helvetica', 'bold');
-      pdf.text(`${combinedResults.averageConfidence}%`, margin + (boxWidth * 3) + 15 + boxWidth/2, yPosition + 15, { align: 'center' });
-
-      yPosition += 28;
-      pdf.setTextColor(0, 0, 0);
-
-      // Overall Severity & Repair Cost
-      const severityColor = combinedResults.overallSeverity === 'Severe' ? [254, 202, 202] : 
-                           combinedResults.overallSeverity === 'Moderate' ? [254, 243, 199] : [209, 250, 229];
-      pdf.setFillColor(severityColor[0], severityColor[1], severityColor[2]);
-      pdf.rect(margin, yPosition, (pageWidth - (margin * 2)) / 2 - 3, 18, 'F');
-      pdf.setFontSize(9);
-      pdf.setFont('helvetica', 'normal');
-      pdf.setTextColor(0, 0, 0);
-      pdf.text('Overall Severity:', margin + 5, yPosition + 7);
-      pdf.setFont('helvetica', 'bold');
-      pdf.text(combinedResults.overallSeverity, margin + 5, yPosition + 14);
-
-      if (combinedResults.estimatedRepairCost && combinedResults.estimatedRepairCost.max > 0) {
-        pdf.setFillColor(220, 252, 231);
-        pdf.rect(margin + (pageWidth - (margin * 2)) / 2 + 3, yPosition, (pageWidth - (margin * 2)) / 2 - 3, 18, 'F');
-        pdf.setFontSize(9);
-        pdf.setFont('helvetica', 'normal');
-        pdf.setTextColor(22, 101, 52);
-        pdf.text('Estimated Repair Cost:', margin + (pageWidth - (margin * 2)) / 2 + 8, yPosition + 7);
-        pdf.setFont('helvetica', 'bold');
-        const costText = `${formatCurrency(combinedResults.estimatedRepairCost.min, combinedResults.estimatedRepairCost.currency)} - ${formatCurrency(combinedResults.estimatedRepairCost.max, combinedResults.estimatedRepairCost.currency)}`;
-        pdf.text(costText, margin + (pageWidth - (margin * 2)) / 2 + 8, yPosition + 14);
-      }
-
-      yPosition += 25;
-      pdf.setTextColor(0, 0, 0);
-
-      // Unique Damage Types
-      if (combinedResults.uniqueDamageTypes.length > 0) {
-        pdf.setFontSize(11);
-        pdf.setFont('helvetica', 'bold');
-        pdf.text('Damage Types Detected', margin, yPosition);
-        yPosition += 6;
-        pdf.setFontSize(9);
-        pdf.setFont('helvetica', 'normal');
-        pdf.text(combinedResults.uniqueDamageTypes.join(', '), margin + 5, yPosition);
-        yPosition += 8;
-      }
-
-      // Affected Areas
-      if (combinedResults.affectedAreas.length > 0) {
-        pdf.setFontSize(11);
-        pdf.setFont('helvetica', 'bold');
-        pdf.text('Affected Areas', margin, yPosition);
-        yPosition += 6;
-        pdf.setFontSize(9);
-        pdf.setFont('helvetica', 'normal');
-        pdf.text(combinedResults.affectedAreas.join(', '), margin + 5, yPosition);
-        yPosition += 12;
-      }
-
-      // All Damage Details
-      if (combinedResults.allDamages.length > 0) {
-        pdf.setFontSize(12);
-        pdf.setFont('helvetica', 'bold');
-        pdf.text('All Damage Instances', margin, yPosition);
-        yPosition += 7;
-
-        combinedResults.allDamages.forEach((damage, index) => {
-          if (yPosition > pageHeight - 35) {
-            pdf.addPage();
-            yPosition = margin;
-          }
-
-          const damageBoxColor = damage.severity === 'Severe' ? [254, 226, 226] : 
-                                 damage.severity === 'Moderate' ? [254, 249, 195] : [220, 252, 231];
-          pdf.setFillColor(damageBoxColor[0], damageBoxColor[1], damageBoxColor[2]);
-          pdf.rect(margin, yPosition, pageWidth - (margin * 2), 18, 'F');
-          
-          pdf.setFontSize(10);
-          pdf.setFont('helvetica', 'bold');
-          pdf.setTextColor(0, 0, 0);
-          pdf.text(`${index + 1}. ${damage.type} (Frame ${damage.frameIndex + 1})`, margin + 5, yPosition + 6);
-          
-          pdf.setFontSize(8);
-          pdf.text(`[${damage.severity}]`, pageWidth - margin - 20, yPosition + 6);
-          
-          pdf.setFontSize(8);
-          pdf.setFont('helvetica', 'normal');
-          pdf.setTextColor(80, 80, 80);
-          pdf.text(`Location: ${damage.location}`, margin + 5, yPosition + 12);
-          
-          const descLines = pdf.splitTextToSize(damage.description, pageWidth - (margin * 2) - 10);
-          pdf.text(descLines[0] || '', margin + 5, yPosition + 16);
-          
-          yPosition += 22;
-        });
-      }
-
-      // Recommendations
-      if (combinedResults.recommendations && combinedResults.recommendations.length > 0) {
-        if (yPosition > pageHeight - 50) {
-          pdf.addPage();
-          yPosition = margin;
-        }
-
-        yPosition += 3;
-        pdf.setFontSize(12);
-        pdf.setFont('helvetica', 'bold');
-        pdf.setTextColor(0, 0, 0);
-        pdf.text('Recommendations', margin, yPosition);
-        yPosition += 7;
-
-        combinedResults.recommendations.forEach((rec) => {
-          if (yPosition > pageHeight - 20) {
-            pdf.addPage();
-            yPosition = margin;
-          }
-          pdf.setFontSize(9);
-          pdf.setFont('helvetica', 'normal');
-          pdf.setTextColor(60, 60, 60);
-          const recLines = pdf.splitTextToSize(`• ${rec}`, pageWidth - (margin * 2));
-          pdf.text(recLines, margin + 5, yPosition);
-          yPosition += recLines.length * 4 + 3;
-        });
-      }
-
-      // Frame-by-Frame Images (new page)
-      pdf.addPage();
-      yPosition = margin;
-      pdf.setFontSize(14);
-      pdf.setFont('helvetica', 'bold');
-      pdf.setTextColor(0, 0, 0);
-      pdf.text('Frame-by-Frame Analysis', margin, yPosition);
-      yPosition += 10;
-
-      const framesPerRow = 2;
-      const frameImgWidth = (pageWidth - (margin * 2) - 10) / framesPerRow;
-      const frameImgHeight = 45;
-
-      for (let i = 0; i < combinedResults.frameResults.length; i++) {
-        const frame = combinedResults.frameResults[i];
-        const col = i % framesPerRow;
-        const xPos = margin + col * (frameImgWidth + 10);
-
-        if (col === 0 && i > 0) {
-          yPosition += frameImgHeight + 20;
-        }
-
-        if (yPosition + frameImgHeight > pageHeight - 20) {
-          pdf.addPage();
-          yPosition = margin;
-        }
-
-        try {
-          const imgToUse = frame.annotatedImage || frame.frameImage;
-          pdf.addImage(imgToUse, 'JPEG', xPos, yPosition, frameImgWidth, frameImgHeight, undefined, 'MEDIUM');
-          
-          pdf.setFontSize(8);
-          pdf.setFont('helvetica', 'bold');
-          pdf.text(`Frame ${frame.frameIndex + 1}`, xPos, yPosition + frameImgHeight + 5);
-          pdf.setFont('helvetica', 'normal');
-          const frameInfo = frame.hasDamage 
-            ? `${frame.damages.length} damage(s) - ${frame.overallSeverity}` 
-            : 'No damage';
-          pdf.text(frameInfo, xPos, yPosition + frameImgHeight + 9);
-        } catch (imgError) {
-          console.error('Error adding frame image:', imgError);
-        }
-      }
-
-      // Footer
-      pdf.setFontSize(8);
-      pdf.setTextColor(150, 150, 150);
-      pdf.text('Generated by DamageDetect AI - Comprehensive Video Analysis', pageWidth / 2, pageHeight - 10, { align: 'center' });
-
-      // Save PDF
-      pdf.save(`comprehensive-damage-report-${new Date().toISOString().split('T')[0]}.pdf`);
+      const frameResults = await Promise.all(combinedResults.frameResults.map(withInlineAnnotation));
+      const pdf = buildCombinedReport({ ...combinedResults, frameResults }, mediaType === 'multi-image' ? 'multi-image' : 'video', {
+        formatAmount: formatPdfCurrency,
+      });
+      pdf.save(reportFileName('comprehensive-damage-report'));
 
       toast({
         title: "PDF Downloaded",
@@ -1047,6 +519,65 @@ const DemoSection = () => {
     }
   };
 
+  const renderAnalyzedPreview = (fallback: ReactNode, annotatedClassName: string) => {
+    if (results && uploadedImage && hasDamageGeometry(results.damages)) {
+      return (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2 text-sm text-primary">
+            <AlertTriangle className="w-4 h-4" />
+            <span>Hover a marked region or a damage in the list to highlight it</span>
+          </div>
+          <DamageOverlay
+            imageSrc={uploadedImage}
+            damages={results.damages}
+            highlightedIndex={highlightedDamage}
+            onHighlight={setHighlightedDamage}
+            className="border-2 border-primary/50 rounded-xl"
+          />
+        </div>
+      );
+    }
+
+    if (results?.annotatedImage) {
+      return (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2 text-sm text-primary">
+            <AlertTriangle className="w-4 h-4" />
+            <span>Damage areas highlighted</span>
+          </div>
+          <img
+            src={results.annotatedImage}
+            alt="Annotated vehicle with damage markers"
+            className={`w-full rounded-xl object-cover ${annotatedClassName} border-2 border-primary/50`}
+          />
+        </div>
+      );
+    }
+
+    return fallback;
+  };
+
+  const renderQualityWarnings = (unit: "image" | "frame") => (
+    <QualityWarnings
+      qualities={currentImages.map(qualityOf)}
+      unit={unit}
+      acknowledged={qualityAcknowledged}
+      onAcknowledgedChange={setQualityAcknowledged}
+      className="mt-4"
+    />
+  );
+
+  /** Flags a thumbnail whose image failed a quality check. */
+  const renderQualityMarker = (image: string) => {
+    const quality = qualityOf(image);
+    if (!quality || quality.issues.length === 0) return null;
+    return (
+      <span className="absolute top-1 right-1 rounded-full bg-background/80 p-0.5" title={`Quality ${quality.score}`}>
+        <AlertTriangle className="w-3 h-3 text-warning" />
+      </span>
+    );
+  };
+
   return (
     <section id="demo" className="py-24 relative">
       <div className="absolute inset-0 gradient-mesh opacity-30" />
@@ -1068,6 +599,112 @@ const DemoSection = () => {
               <Upload className="w-5 h-5 text-primary" />
               Upload Image or Video
             </h3>
+
+            <div className="flex items-center justify-between mb-6 p-3 rounded-xl bg-secondary/50">
+              <div>
+                <Label htmlFor="demo-mode" className="cursor-pointer">Demo mode</Label>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {demoMode ? "Returns a sample result without calling the AI service" : "Images are analyzed by the AI service"}
+                </p>
+              </div>
+              <Switch
+                id="demo-mode"
+                checked={demoMode}
+                onCheckedChange={toggleDemoMode}
+                disabled={isAnalyzing || isAnalyzingAllFrames || isAnalyzingAllImages}
+              />
+            </div>
+
+            {analysisBlocked && (
+              <Alert className="mb-6">
+                <Lock className="h-4 w-4" />
+                <AlertTitle>{session ? "Analysis not available" : "Sign in to analyze"}</AlertTitle>
+                <AlertDescription>
+                  {!session ? (
+                    <>
+                      <Link to="/login" className="text-primary hover:underline underline-offset-4">Sign in</Link> to have
+                      images analyzed by the AI service, or turn on demo mode to try a sample result.
+                    </>
+                  ) : !membership ? (
+                    <>
+                      <Link to="/account" className="text-primary hover:underline underline-offset-4">Join or create an organization</Link>{" "}
+                      to run analyses.
+                    </>
+                  ) : (
+                    "Your role can review inspections but not run new analyses. Ask an admin to change it."
+                  )}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="grid grid-cols-2 gap-3 mb-6">
+              <div className="space-y-1.5 col-span-2">
+                <Label htmlFor="vehicle-ref">Vehicle (optional)</Label>
+                <Input
+                  id="vehicle-ref"
+                  placeholder="Plate number or VIN"
+                  value={vehicleRef}
+                  maxLength={MAX_VEHICLE_REF_LENGTH}
+                  onChange={(e) => setVehicleRef(e.target.value)}
+                  disabled={isAnalyzing || isAnalyzingAllFrames || isAnalyzingAllImages}
+                />
+              </div>
+              {vehicleRef.trim() && (
+                <div className="col-span-2 grid grid-cols-2 sm:grid-cols-4 gap-2">
+                  {(["make", "model", "year", "color"] as const).map((field) => (
+                    <Input
+                      key={field}
+                      aria-label={`Vehicle ${field}`}
+                      placeholder={field[0].toUpperCase() + field.slice(1)}
+                      type={field === "year" ? "number" : "text"}
+                      inputMode={field === "year" ? "numeric" : undefined}
+                      value={vehicleDetails[field]}
+                      onChange={(e) => setVehicleDetails({ ...vehicleDetails, [field]: e.target.value })}
+                      disabled={isAnalyzing || isAnalyzingAllFrames || isAnalyzingAllImages}
+                    />
+                  ))}
+                </div>
+              )}
+              <div className="space-y-1.5">
+                <Label htmlFor="pricing-region">Pricing region</Label>
+                <Select
+                  value={pricing.region}
+                  onValueChange={(region) => isRegionCode(region) && updatePricing({ ...pricing, region })}
+                  disabled={isAnalyzing || isAnalyzingAllFrames || isAnalyzingAllImages}
+                >
+                  <SelectTrigger id="pricing-region">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {REGIONS.map((region) => (
+                      <SelectItem key={region.code} value={region.code}>
+                        {region.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="pricing-currency">Currency</Label>
+                <Select
+                  value={pricing.currency ?? 'region'}
+                  onValueChange={(currency) => updatePricing({ ...pricing, currency: currency === 'region' ? null : currency })}
+                  disabled={isAnalyzing || isAnalyzingAllFrames || isAnalyzingAllImages}
+                >
+                  <SelectTrigger id="pricing-currency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="region">Region default ({getRegion(pricing.region).currency})</SelectItem>
+                    {Object.keys(DEFAULT_EXCHANGE_RATES).map((code) => (
+                      <SelectItem key={code} value={code}>
+                        {code}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
             
             {!uploadedImage && !uploadedVideo ? (
               <div
@@ -1099,11 +736,17 @@ const DemoSection = () => {
                   id="file-upload"
                   multiple
                 />
-                <label htmlFor="file-upload">
-                  <Button variant="outline" className="cursor-pointer" asChild>
-                    <span>Choose Files</span>
+                <div className="flex flex-wrap justify-center gap-2">
+                  <label htmlFor="file-upload">
+                    <Button variant="outline" className="cursor-pointer" asChild>
+                      <span>Choose Files</span>
+                    </Button>
+                  </label>
+                  <Button variant="outline" onClick={() => setIsWalkAroundOpen(true)}>
+                    <Camera className="w-4 h-4 mr-2" />
+                    Guided Walk-Around
                   </Button>
-                </label>
+                </div>
               </div>
             ) : mediaType === 'video' && !videoFrames.length ? (
               <div className="relative">
@@ -1126,6 +769,32 @@ const DemoSection = () => {
                   }}
                 />
                 
+                <div className="mt-4 space-y-1.5">
+                  <Label htmlFor="frame-sampling">Frames to extract</Label>
+                  <Select
+                    value={samplingKey(frameSampling)}
+                    onValueChange={(key) => {
+                      const choice = samplingChoices.find((sampling) => samplingKey(sampling) === key);
+                      if (choice) setFrameSampling(choice);
+                    }}
+                    disabled={isExtractingFrames}
+                  >
+                    <SelectTrigger id="frame-sampling">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {samplingChoices.map((sampling) => (
+                        <SelectItem key={samplingKey(sampling)} value={samplingKey(sampling)}>
+                          {describeSampling(sampling)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    The sharpest frame of each stretch is kept and repeated views are skipped.
+                  </p>
+                </div>
+
                 <div className="mt-4">
                   <Button
                     variant="hero"
@@ -1137,7 +806,7 @@ const DemoSection = () => {
                     {isExtractingFrames ? (
                       <>
                         <div className="w-5 h-5 border-2 border-primary-foreground border-t-transparent rounded-full animate-spin" />
-                        Extracting Frames...
+                        Extracting Frames... {Math.round(extractionProgress * 100)}%
                       </>
                     ) : (
                       <>
@@ -1146,6 +815,14 @@ const DemoSection = () => {
                       </>
                     )}
                   </Button>
+                  {isExtractingFrames && (
+                    <div className="mt-3 flex items-center gap-3">
+                      <Progress value={extractionProgress * 100} className="h-2 flex-1" />
+                      <Button variant="outline" size="sm" onClick={cancelFrameExtraction}>
+                        Cancel
+                      </Button>
+                    </div>
+                  )}
                 </div>
               </div>
             ) : mediaType === 'video' && videoFrames.length > 0 ? (
@@ -1158,24 +835,13 @@ const DemoSection = () => {
                 </button>
                 
                 {/* Selected Frame Display */}
-                {results?.annotatedImage ? (
-                  <div className="space-y-2">
-                    <div className="flex items-center gap-2 text-sm text-primary">
-                      <AlertTriangle className="w-4 h-4" />
-                      <span>Damage areas highlighted</span>
-                    </div>
-                    <img
-                      src={results.annotatedImage}
-                      alt="Annotated vehicle with damage markers"
-                      className="w-full rounded-xl object-cover max-h-64 border-2 border-primary/50"
-                    />
-                  </div>
-                ) : (
+                {renderAnalyzedPreview(
                   <img
                     src={videoFrames[selectedFrameIndex]}
                     alt={`Video frame ${selectedFrameIndex + 1}`}
                     className="w-full rounded-xl object-cover max-h-48"
-                  />
+                  />,
+                  "max-h-64"
                 )}
                 
                 {/* Frame Thumbnails */}
@@ -1197,27 +863,38 @@ const DemoSection = () => {
                           alt={`Frame ${index + 1}`}
                           className="w-full h-16 object-cover"
                         />
+                        {renderQualityMarker(frame)}
                         <span className="absolute bottom-0 left-0 right-0 bg-background/80 text-xs py-0.5 text-center">
                           Frame {index + 1}
+                          {frameTimestamps[index] !== undefined && ` · ${formatTimestamp(frameTimestamps[index])}`}
                         </span>
                       </button>
                     ))}
                   </div>
                 </div>
                 
+                {/* Source video, seeked to a frame when one of its timestamps is clicked */}
+                <video
+                  ref={videoRef}
+                  src={uploadedVideo!}
+                  className="mt-4 w-full rounded-xl object-cover max-h-40"
+                  controls
+                />
+
                 {/* Analysis Progress */}
                 {isAnalyzingAllFrames && (
                   <div className="mt-4 p-4 rounded-xl bg-secondary/50">
-                    <div className="flex items-center justify-between mb-2">
+                    <div className="mb-2">
                       <span className="text-sm text-muted-foreground">
-                        Analyzing frame {currentAnalyzingFrame} of {videoFrames.length}...
+                        Analyzing {videoFrames.length} frames in one batch...
                       </span>
-                      <span className="text-sm font-medium text-primary">{Math.round(analysisProgress)}%</span>
                     </div>
-                    <Progress value={analysisProgress} className="h-2" />
+                    <Progress value={100} className="h-2 animate-pulse" />
                   </div>
                 )}
 
+                {renderQualityWarnings("frame")}
+
                 <div className="mt-4 space-y-3">
                   {/* Analyze All Frames Button */}
                   <Button
@@ -1225,7 +902,7 @@ const DemoSection = () => {
                     size="lg"
                     className="w-full gap-2"
                     onClick={analyzeAllFrames}
-                    disabled={isAnalyzingAllFrames || isAnalyzing}
+                    disabled={isAnalyzingAllFrames || isAnalyzing || analysisBlocked || qualityBlocked}
                   >
                     {isAnalyzingAllFrames ? (
                       <>
@@ -1251,7 +928,7 @@ const DemoSection = () => {
                     size="lg"
                     className="w-full"
                     onClick={analyzeImage}
-                    disabled={isAnalyzing || isAnalyzingAllFrames}
+                    disabled={isAnalyzing || isAnalyzingAllFrames || analysisBlocked || qualityBlocked}
                   >
                     {isAnalyzing ? (
                       <>
@@ -1276,24 +953,13 @@ const DemoSection = () => {
                 </button>
                 
                 {/* Selected Image Display */}
-                {results?.annotatedImage ? (
-                  <div className="space-y-2">
-                    <div className="flex items-center gap-2 text-sm text-primary">
-                      <AlertTriangle className="w-4 h-4" />
-                      <span>Damage areas highlighted</span>
-                    </div>
-                    <img
-                      src={results.annotatedImage}
-                      alt="Annotated vehicle with damage markers"
-                      className="w-full rounded-xl object-cover max-h-64 border-2 border-primary/50"
-                    />
-                  </div>
-                ) : (
+                {renderAnalyzedPreview(
                   <img
                     src={uploadedImages[selectedImageIndex]}
                     alt={`Uploaded image ${selectedImageIndex + 1}`}
                     className="w-full rounded-xl object-cover max-h-48"
-                  />
+                  />,
+                  "max-h-64"
                 )}
                 
                 {/* Image Thumbnails */}
@@ -1323,8 +989,9 @@ const DemoSection = () => {
                           alt={`Image ${index + 1}`}
                           className="w-full h-14 object-cover"
                         />
-                        <span className="absolute bottom-0 left-0 right-0 bg-background/80 text-xs py-0.5 text-center">
-                          {index + 1}
+                        {renderQualityMarker(image)}
+                        <span className="absolute bottom-0 left-0 right-0 bg-background/80 text-xs py-0.5 text-center truncate">
+                          {imageViewpoints.has(image) ? VIEWPOINT_LABELS[imageViewpoints.get(image)!] : index + 1}
                         </span>
                       </button>
                     ))}
@@ -1334,16 +1001,17 @@ const DemoSection = () => {
                 {/* Analysis Progress */}
                 {isAnalyzingAllImages && (
                   <div className="mt-4 p-4 rounded-xl bg-secondary/50">
-                    <div className="flex items-center justify-between mb-2">
+                    <div className="mb-2">
                       <span className="text-sm text-muted-foreground">
-                        Analyzing image {currentAnalyzingFrame} of {uploadedImages.length}...
+                        Analyzing {uploadedImages.length} images in one batch...
                       </span>
-                      <span className="text-sm font-medium text-primary">{Math.round(analysisProgress)}%</span>
                     </div>
-                    <Progress value={analysisProgress} className="h-2" />
+                    <Progress value={100} className="h-2 animate-pulse" />
                   </div>
                 )}
 
+                {renderQualityWarnings("image")}
+
                 <div className="mt-4 space-y-3">
                   {/* Analyze All Images Button */}
                   <Button
@@ -1351,7 +1019,7 @@ const DemoSection = () => {
                     size="lg"
                     className="w-full gap-2"
                     onClick={analyzeAllImages}
-                    disabled={isAnalyzingAllImages || isAnalyzing}
+                    disabled={isAnalyzingAllImages || isAnalyzing || analysisBlocked || qualityBlocked}
                   >
                     {isAnalyzingAllImages ? (
                       <>
@@ -1377,7 +1045,7 @@ const DemoSection = () => {
                     size="lg"
                     className="w-full"
                     onClick={analyzeImage}
-                    disabled={isAnalyzing || isAnalyzingAllImages}
+                    disabled={isAnalyzing || isAnalyzingAllImages || analysisBlocked || qualityBlocked}
                   >
                     {isAnalyzing ? (
                       <>
@@ -1402,25 +1070,16 @@ const DemoSection = () => {
                 </button>
                 
                 {/* Show annotated image if available, otherwise original */}
-                {results?.annotatedImage ? (
-                  <div className="space-y-2">
-                    <div className="flex items-center gap-2 text-sm text-primary">
-                      <AlertTriangle className="w-4 h-4" />
-                      <span>Damage areas highlighted</span>
-                    </div>
-                    <img
-                      src={results.annotatedImage}
-                      alt="Annotated vehicle with damage markers"
-                      className="w-full rounded-xl object-cover max-h-80 border-2 border-primary/50"
-                    />
-                  </div>
-                ) : (
+                {renderAnalyzedPreview(
                   <img
                     src={uploadedImage!}
                     alt="Uploaded vehicle"
                     className="w-full rounded-xl object-cover max-h-64"
-                  />
+                  />,
+                  "max-h-80"
                 )}
+
+                {renderQualityWarnings("image")}
                 
                 <div className="mt-4">
                   <Button
@@ -1428,7 +1087,7 @@ const DemoSection = () => {
                     size="lg"
                     className="w-full"
                     onClick={analyzeImage}
-                    disabled={isAnalyzing}
+                    disabled={isAnalyzing || analysisBlocked || qualityBlocked}
                   >
                     {isAnalyzing ? (
                       <>
@@ -1452,6 +1111,31 @@ const DemoSection = () => {
               <AlertTriangle className="w-5 h-5 text-warning" />
               Detection Results
             </h3>
+
+            {analysisError && (
+              <Alert variant="destructive" className="mb-4">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>{analysisError.title}</AlertTitle>
+                <AlertDescription>
+                  {analysisError.message}
+                  {analysisError.resetAt && (
+                    <p className="mt-1">
+                      Available again {analysisError.resetAt.toLocaleString()}.{" "}
+                      <Link to="/usage" className="underline underline-offset-4">View usage</Link>
+                    </p>
+                  )}
+                  {analysisError.issues.length > 0 && (
+                    <ul className="mt-2 space-y-1 text-xs">
+                      {analysisError.issues.map((issue, index) => (
+                        <li key={index}>
+                          <code>{issue.path}</code>: {issue.message}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </AlertDescription>
+              </Alert>
+            )}
             
             {/* Combined Results View */}
             {combinedResults ? (
@@ -1473,6 +1157,22 @@ const DemoSection = () => {
                   <p className="text-sm text-foreground">{combinedResults.summary}</p>
                 </div>
 
+                {/* Items the batch could not analyze */}
+                {batchFailures.length > 0 && (
+                  <div className="p-4 rounded-xl bg-warning/10 border border-warning/20">
+                    <span className="text-sm font-medium text-warning">
+                      {batchFailures.length} {mediaType === 'multi-image' ? 'image(s)' : 'frame(s)'} could not be analyzed
+                    </span>
+                    <ul className="mt-2 space-y-1">
+                      {batchFailures.map(({ index, error }) => (
+                        <li key={index} className="text-xs text-muted-foreground">
+                          {mediaType === 'multi-image' ? 'Image' : 'Frame'} {index + 1}: {error.message}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
                 {/* Stats Row */}
                 <div className="grid grid-cols-2 gap-3">
                   <div className="p-3 rounded-xl bg-secondary/50 text-center">
@@ -1488,8 +1188,8 @@ const DemoSection = () => {
                     <p className="text-xl font-bold text-warning">{combinedResults.framesWithDamage}</p>
                   </div>
                   <div className="p-3 rounded-xl bg-secondary/50 text-center">
-                    <span className="text-muted-foreground text-xs">Total Damages</span>
-                    <p className="text-xl font-bold text-destructive">{combinedResults.allDamages.length}</p>
+                    <span className="text-muted-foreground text-xs">Distinct Damages</span>
+                    <p className="text-xl font-bold text-destructive">{combinedResults.distinctDamages.length}</p>
                   </div>
                   <div className="p-3 rounded-xl bg-secondary/50 text-center">
                     <span className="text-muted-foreground text-xs">Avg Confidence</span>
@@ -1546,29 +1246,59 @@ const DemoSection = () => {
                   </div>
                 )}
 
-                {/* All Damage Details */}
-                {combinedResults.allDamages.length > 0 && (
+                {/* Distinct Damage Details */}
+                {combinedResults.distinctDamages.length > 0 && (
                   <div className="space-y-3">
-                    <h4 className="text-sm font-medium text-muted-foreground">All Damage Instances</h4>
-                    {combinedResults.allDamages.map((damage, index) => (
+                    <h4 className="text-sm font-medium text-muted-foreground">
+                      Distinct Damages ({combinedResults.allDamages.length} instances merged)
+                    </h4>
+                    {combinedResults.distinctDamages.map((damage, index) => (
                       <div
-                        key={index}
+                        key={damage.id}
                         className="p-4 rounded-xl bg-secondary/50 animate-fade-in"
                         style={{ animationDelay: `${index * 0.05}s` }}
                       >
                         <div className="flex items-center justify-between mb-2">
-                          <div className="flex items-center gap-2">
-                            <span className="font-medium capitalize">{damage.type}</span>
-                            <span className="text-xs text-muted-foreground bg-background/50 px-2 py-0.5 rounded">
-                              {mediaType === 'multi-image' ? 'Image' : 'Frame'} {damage.frameIndex + 1}
-                            </span>
-                          </div>
+                          <span className="font-medium capitalize">{damage.type.replace(/_/g, ' ')}</span>
                           <span className={`px-3 py-1 rounded-full text-xs font-medium ${getSeverityBg(damage.severity)} ${getSeverityColor(damage.severity)}`}>
                             {damage.severity}
                           </span>
                         </div>
-                        <p className="text-sm text-muted-foreground mb-1">{damage.location}</p>
-                        <p className="text-xs text-muted-foreground/70">{damage.description}</p>
+                        <p className="text-sm text-muted-foreground mb-1">{describeDamageLocation(damage, navigator.language)}</p>
+                        <p className="text-xs text-muted-foreground/70 mb-2">{damage.description}</p>
+                        {damage.estimatedRepairCost.max > 0 && (
+                          <div className="mb-2">
+                            <p className="text-sm font-medium text-foreground">
+                              {formatCurrency(damage.estimatedRepairCost.min, damage.estimatedRepairCost.currency)} - {formatCurrency(damage.estimatedRepairCost.max, damage.estimatedRepairCost.currency)}
+                            </p>
+                            {damage.estimatedRepairCost.lineItems?.length > 0 && (
+                              <CostBreakdown
+                                className="mt-1"
+                                lineItems={damage.estimatedRepairCost.lineItems}
+                                formatAmount={(amount) => formatCurrency(amount, damage.estimatedRepairCost.currency)}
+                              />
+                            )}
+                          </div>
+                        )}
+                        <div className="flex flex-wrap items-center gap-1">
+                          <span className="text-xs text-muted-foreground">Seen in:</span>
+                          {damage.supportingFrames.map((frameIndex) =>
+                            mediaType === 'video' && frameTimestamps[frameIndex] !== undefined ? (
+                              <button
+                                key={frameIndex}
+                                onClick={() => jumpToFrame(frameIndex)}
+                                className="text-xs text-primary bg-background/50 px-2 py-0.5 rounded hover:underline underline-offset-4"
+                              >
+                                Frame {frameIndex + 1} · {formatTimestamp(frameTimestamps[frameIndex])}
+                              </button>
+                            ) : (
+                              <span key={frameIndex} className="text-xs text-muted-foreground bg-background/50 px-2 py-0.5 rounded">
+                                {mediaType === 'multi-image' ? 'Image' : 'Frame'} {frameIndex + 1}
+                                {imageViewpoints.has(uploadedImages[frameIndex]) && ` · ${VIEWPOINT_LABELS[imageViewpoints.get(uploadedImages[frameIndex])!]}`}
+                              </span>
+                            )
+                          )}
+                        </div>
                       </div>
                     ))}
                   </div>
@@ -1601,6 +1331,22 @@ const DemoSection = () => {
                   <Download className="w-4 h-4" />
                   Download Comprehensive Report as PDF
                 </Button>
+                {inspectionId && (
+                  <Button asChild variant="ghost" className="w-full mt-2 gap-2">
+                    <Link to={`/inspections/${inspectionId}`}>
+                      <ExternalLink className="w-4 h-4" />
+                      Open saved inspection
+                    </Link>
+                  </Button>
+                )}
+                {vehicleId && (
+                  <Button asChild variant="ghost" className="w-full gap-2">
+                    <Link to={`/vehicles/${vehicleId}`}>
+                      <Car className="w-4 h-4" />
+                      View vehicle damage history
+                    </Link>
+                  </Button>
+                )}
               </div>
             ) : !results ? (
               <div className="flex flex-col items-center justify-center h-64 text-center">
@@ -1672,6 +1418,14 @@ const DemoSection = () => {
                     <p className="text-xl font-bold text-foreground">
                       {formatCurrency(results.estimatedRepairCost.min, results.estimatedRepairCost.currency)} - {formatCurrency(results.estimatedRepairCost.max, results.estimatedRepairCost.currency)}
                     </p>
+                    {results.estimatedRepairCost.lineItems?.length > 0 && (
+                      <CostBreakdown
+                        className="mt-3 pt-3 border-t border-border/50"
+                        lineItems={results.estimatedRepairCost.lineItems}
+                        damages={results.damages}
+                        formatAmount={(amount) => formatCurrency(amount, results.estimatedRepairCost.currency)}
+                      />
+                    )}
                   </div>
                 )}
 
@@ -1682,16 +1436,25 @@ const DemoSection = () => {
                     {results.damages.map((damage, index) => (
                       <div
                         key={index}
-                        className="p-4 rounded-xl bg-secondary/50 animate-fade-in"
+                        onMouseEnter={() => setHighlightedDamage(index)}
+                        onMouseLeave={() => setHighlightedDamage(null)}
+                        className={`p-4 rounded-xl bg-secondary/50 animate-fade-in border-2 transition-colors ${
+                          highlightedDamage === index ? 'border-primary' : 'border-transparent'
+                        }`}
                         style={{ animationDelay: `${index * 0.1}s` }}
                       >
                         <div className="flex items-center justify-between mb-2">
-                          <span className="font-medium capitalize">{damage.type}</span>
+                          <span className="font-medium capitalize">
+                            {hasDamageGeometry(results.damages) && (
+                              <span className="text-muted-foreground mr-1">{index + 1}.</span>
+                            )}
+                            {damage.type.replace(/_/g, ' ')}
+                          </span>
                           <span className={`px-3 py-1 rounded-full text-xs font-medium ${getSeverityBg(damage.severity)} ${getSeverityColor(damage.severity)}`}>
                             {damage.severity}
                           </span>
                         </div>
-                        <p className="text-sm text-muted-foreground mb-1">{damage.location}</p>
+                        <p className="text-sm text-muted-foreground mb-1">{describeDamageLocation(damage, navigator.language)}</p>
                         <p className="text-xs text-muted-foreground/70">{damage.description}</p>
                       </div>
                     ))}
@@ -1725,11 +1488,28 @@ const DemoSection = () => {
                   <Download className="w-4 h-4" />
                   Download Report as PDF
                 </Button>
+                {inspectionId && (
+                  <Button asChild variant="ghost" className="w-full mt-2 gap-2">
+                    <Link to={`/inspections/${inspectionId}`}>
+                      <ExternalLink className="w-4 h-4" />
+                      Open saved inspection
+                    </Link>
+                  </Button>
+                )}
+                {vehicleId && (
+                  <Button asChild variant="ghost" className="w-full gap-2">
+                    <Link to={`/vehicles/${vehicleId}`}>
+                      <Car className="w-4 h-4" />
+                      View vehicle damage history
+                    </Link>
+                  </Button>
+                )}
               </div>
             )}
           </GlassCard>
         </div>
       </div>
+      <WalkAroundCapture open={isWalkAroundOpen} onOpenChange={setIsWalkAroundOpen} onComplete={completeWalkAround} />
     </section>
   );
 };
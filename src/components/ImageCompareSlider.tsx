@@ -0,0 +1,51 @@
+import { useState } from "react";
+import { cn } from "@/lib/utils";
+import { Slider } from "./ui/slider";
+
+interface ImageCompareSliderProps {
+  beforeSrc: string;
+  afterSrc: string;
+  beforeLabel?: string;
+  afterLabel?: string;
+  className?: string;
+}
+
+/**
+ * Stacks two photos of the same view and reveals the earlier one from the left
+ * up to the slider position. Both images are stretched to the later one's box,
+ * so they line up as long as they were taken from a similar angle.
+ */
+export const ImageCompareSlider = ({
+  beforeSrc,
+  afterSrc,
+  beforeLabel = "Before",
+  afterLabel = "After",
+  className,
+}: ImageCompareSliderProps) => {
+  const [position, setPosition] = useState(50);
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <div className="relative w-full overflow-hidden rounded-xl">
+        <img src={afterSrc} alt={afterLabel} className="block w-full h-auto" />
+        <img
+          src={beforeSrc}
+          alt={beforeLabel}
+          className="absolute inset-0 w-full h-full object-cover"
+          style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}
+        />
+        <div className="absolute inset-y-0 w-0.5 bg-background shadow" style={{ left: `${position}%` }} />
+        <span className="absolute top-2 left-2 px-2 py-0.5 rounded bg-background/80 text-xs font-medium">{beforeLabel}</span>
+        <span className="absolute top-2 right-2 px-2 py-0.5 rounded bg-background/80 text-xs font-medium">{afterLabel}</span>
+      </div>
+      <Slider
+        value={[position]}
+        onValueChange={([value]) => setPosition(value)}
+        min={0}
+        max={100}
+        step={1}
+        aria-label="Reveal the earlier photo"
+      />
+    </div>
+  );
+};
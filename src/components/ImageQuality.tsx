@@ -0,0 +1,87 @@
+import { cn } from "@/lib/utils";
+import { Badge } from "./ui/badge";
+import { Checkbox } from "./ui/checkbox";
+import { Label } from "./ui/label";
+import { Alert, AlertDescription, AlertTitle } from "./ui/alert";
+import { AlertTriangle } from "lucide-react";
+import {
+  QUALITY_ISSUE_ADVICE,
+  QUALITY_ISSUE_LABELS,
+  QUALITY_ISSUES,
+  type ImageQuality,
+} from "@shared/image-quality.ts";
+
+interface QualityBadgeProps {
+  /** Null for images stored without measurements. */
+  quality: ImageQuality | null | undefined;
+  className?: string;
+}
+
+/** The quality score, colored by how many checks failed, with the failed checks on hover. */
+export const QualityBadge = ({ quality, className }: QualityBadgeProps) => {
+  if (!quality) return null;
+  const tone = quality.issues.length === 0
+    ? "bg-success/20 text-success"
+    : quality.score >= 60
+      ? "bg-warning/20 text-warning"
+      : "bg-destructive/20 text-destructive";
+
+  return (
+    <Badge
+      variant="outline"
+      className={cn("border-transparent", tone, className)}
+      title={quality.issues.length > 0 ? quality.issues.map((issue) => QUALITY_ISSUE_LABELS[issue]).join(", ") : "Passed every quality check"}
+    >
+      Quality {quality.score}
+    </Badge>
+  );
+};
+
+interface QualityWarningsProps {
+  qualities: (ImageQuality | null | undefined)[];
+  /** What the images are called in the message. */
+  unit: "image" | "frame";
+  acknowledged: boolean;
+  onAcknowledgedChange: (acknowledged: boolean) => void;
+  className?: string;
+}
+
+/**
+ * Lists the quality issues found in the images about to be analyzed, with
+ * advice for a retake. Analysis stays blocked until the user acknowledges them.
+ */
+export const QualityWarnings = ({ qualities, unit, acknowledged, onAcknowledgedChange, className }: QualityWarningsProps) => {
+  const flagged = qualities.filter((quality) => quality && quality.issues.length > 0).length;
+  if (flagged === 0) return null;
+  const issues = QUALITY_ISSUES.filter((issue) => qualities.some((quality) => quality?.issues.includes(issue)));
+
+  return (
+    <Alert className={cn("border-warning/50", className)}>
+      <AlertTriangle className="h-4 w-4 text-warning" />
+      <AlertTitle>
+        {qualities.length === 1
+          ? `This ${unit} may not show damage clearly`
+          : `${flagged} of ${qualities.length} ${unit}s may not show damage clearly`}
+      </AlertTitle>
+      <AlertDescription className="space-y-3">
+        <ul className="list-disc pl-4 space-y-1">
+          {issues.map((issue) => (
+            <li key={issue}>
+              <span className="font-medium">{QUALITY_ISSUE_LABELS[issue]}:</span> {QUALITY_ISSUE_ADVICE[issue]}
+            </li>
+          ))}
+        </ul>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="quality-acknowledged"
+            checked={acknowledged}
+            onCheckedChange={(checked) => onAcknowledgedChange(checked === true)}
+          />
+          <Label htmlFor="quality-acknowledged" className="text-sm font-normal">
+            Analyze anyway; the quality scores are saved with the inspection
+          </Label>
+        </div>
+      </AlertDescription>
+    </Alert>
+  );
+};
@@ -1,35 +1,66 @@
-import { Car, Menu, X } from "lucide-react";
+import { Car, LogOut, Menu, X } from "lucide-react";
 import { Button } from "./ui/button";
 import { useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { NavLink } from "./NavLink";
+import { useAuth } from "@/hooks/use-auth";
 
 const Navbar = () => {
   const [isOpen, setIsOpen] = useState(false);
+  const { session, signOut } = useAuth();
+  const navigate = useNavigate();
+
+  const handleSignOut = async () => {
+    await signOut();
+    navigate("/");
+  };
 
   return (
     <nav className="fixed top-0 left-0 right-0 z-50 glass">
       <div className="container mx-auto px-4">
         <div className="flex items-center justify-between h-16">
           {/* Logo */}
-          <div className="flex items-center gap-2">
+          <Link to="/" className="flex items-center gap-2">
             <div className="w-10 h-10 rounded-lg bg-primary/20 flex items-center justify-center">
               <Car className="w-6 h-6 text-primary" />
             </div>
             <span className="text-xl font-bold text-gradient">AutoScan AI</span>
-          </div>
+          </Link>
 
           {/* Desktop Nav */}
           <div className="hidden md:flex items-center gap-8">
-            <a href="#features" className="text-muted-foreground hover:text-primary transition-colors">
+            <a href="/#features" className="text-muted-foreground hover:text-primary transition-colors">
               Features
             </a>
-            <a href="#how-it-works" className="text-muted-foreground hover:text-primary transition-colors">
+            <a href="/#how-it-works" className="text-muted-foreground hover:text-primary transition-colors">
               How It Works
             </a>
-            <a href="#demo" className="text-muted-foreground hover:text-primary transition-colors">
+            <a href="/#demo" className="text-muted-foreground hover:text-primary transition-colors">
               Demo
             </a>
+            <NavLink to="/inspections" className="text-muted-foreground hover:text-primary transition-colors" activeClassName="text-primary">
+              Inspections
+            </NavLink>
+            {session ? (
+              <>
+                <NavLink to="/usage" className="text-muted-foreground hover:text-primary transition-colors" activeClassName="text-primary">
+                  Usage
+                </NavLink>
+                <NavLink to="/account" className="text-muted-foreground hover:text-primary transition-colors" activeClassName="text-primary">
+                  Account
+                </NavLink>
+                <Button variant="ghost" size="sm" onClick={handleSignOut}>
+                  <LogOut className="w-4 h-4" />
+                  Sign out
+                </Button>
+              </>
+            ) : (
+              <NavLink to="/login" className="text-muted-foreground hover:text-primary transition-colors" activeClassName="text-primary">
+                Sign in
+              </NavLink>
+            )}
             <Button variant="hero" size="sm" asChild>
-              <a href="#demo">Get Started</a>
+              <a href="/#demo">Get Started</a>
             </Button>
           </div>
 
@@ -46,17 +77,38 @@ const Navbar = () => {
         {isOpen && (
           <div className="md:hidden py-4 border-t border-border/50">
             <div className="flex flex-col gap-4">
-              <a href="#features" className="text-muted-foreground hover:text-primary transition-colors">
+              <a href="/#features" className="text-muted-foreground hover:text-primary transition-colors">
                 Features
               </a>
-              <a href="#how-it-works" className="text-muted-foreground hover:text-primary transition-colors">
+              <a href="/#how-it-works" className="text-muted-foreground hover:text-primary transition-colors">
                 How It Works
               </a>
-              <a href="#demo" className="text-muted-foreground hover:text-primary transition-colors">
+              <a href="/#demo" className="text-muted-foreground hover:text-primary transition-colors">
                 Demo
               </a>
+              <NavLink to="/inspections" className="text-muted-foreground hover:text-primary transition-colors" activeClassName="text-primary">
+                Inspections
+              </NavLink>
+              {session ? (
+                <>
+                  <NavLink to="/usage" className="text-muted-foreground hover:text-primary transition-colors" activeClassName="text-primary">
+                    Usage
+                  </NavLink>
+                  <NavLink to="/account" className="text-muted-foreground hover:text-primary transition-colors" activeClassName="text-primary">
+                    Account
+                  </NavLink>
+                  <Button variant="ghost" size="sm" className="w-fit" onClick={handleSignOut}>
+                    <LogOut className="w-4 h-4" />
+                    Sign out
+                  </Button>
+                </>
+              ) : (
+                <NavLink to="/login" className="text-muted-foreground hover:text-primary transition-colors" activeClassName="text-primary">
+                  Sign in
+                </NavLink>
+              )}
               <Button variant="hero" size="sm" className="w-fit" asChild>
-                <a href="#demo">Get Started</a>
+                <a href="/#demo">Get Started</a>
               </Button>
             </div>
           </div>
@@ -0,0 +1,18 @@
+import type { ReactNode } from "react";
+import { Navigate, useLocation } from "react-router-dom";
+import { useAuth } from "@/hooks/use-auth";
+
+/**
+ * Renders its children for signed-in users and sends everyone else to the
+ * sign-in page, which returns them here afterwards.
+ */
+export const RequireAuth = ({ children }: { children: ReactNode }) => {
+  const { session, isLoading } = useAuth();
+  const location = useLocation();
+
+  if (isLoading) return null;
+  if (!session) {
+    return <Navigate to="/login" replace state={{ from: `${location.pathname}${location.search}` }} />;
+  }
+  return <>{children}</>;
+};
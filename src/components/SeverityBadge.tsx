@@ -0,0 +1,25 @@
+import { cn } from "@/lib/utils";
+import { Badge } from "./ui/badge";
+import type { OverallSeverity } from "@shared/contract.ts";
+
+const severityClasses: Record<OverallSeverity, string> = {
+  None: "bg-muted text-muted-foreground",
+  Minor: "bg-success/20 text-success",
+  Moderate: "bg-warning/20 text-warning",
+  Severe: "bg-destructive/20 text-destructive",
+};
+
+interface SeverityBadgeProps {
+  /** Null for inspections that failed before a severity was assessed. */
+  severity: OverallSeverity | null;
+  className?: string;
+}
+
+export const SeverityBadge = ({ severity, className }: SeverityBadgeProps) => (
+  <Badge
+    variant="outline"
+    className={cn("border-transparent", severity ? severityClasses[severity] : "bg-muted text-muted-foreground", className)}
+  >
+    {severity ?? "Unknown"}
+  </Badge>
+);
@@ -0,0 +1,108 @@
+import type { ReactNode } from "react";
+import { cn } from "@/lib/utils";
+import type { Viewpoint } from "@shared/viewpoints.ts";
+
+// Outlines drawn in a 100x60 box. Side views have the front of the vehicle on
+// the left and corner views the end face on the left; both are mirrored where
+// the shot from that angle sees them the other way round.
+const FRONT = (
+  <>
+    <path d="M18 46 L18 31 Q20 25 28 23 L37 12 Q39 10 43 10 L57 10 Q61 10 63 12 L72 23 Q80 25 82 31 L82 46 Z" />
+    <path d="M36 23 L41 14 L59 14 L64 23 Z" />
+    <rect x="23" y="29" width="10" height="5" rx="2" />
+    <rect x="67" y="29" width="10" height="5" rx="2" />
+    <rect x="40" y="36" width="20" height="5" rx="1" />
+    <rect x="21" y="46" width="9" height="6" rx="1" />
+    <rect x="70" y="46" width="9" height="6" rx="1" />
+  </>
+);
+
+const REAR = (
+  <>
+    <path d="M18 46 L18 31 Q20 25 28 23 L37 12 Q39 10 43 10 L57 10 Q61 10 63 12 L72 23 Q80 25 82 31 L82 46 Z" />
+    <path d="M37 22 L42 15 L58 15 L63 22 Z" />
+    <rect x="21" y="28" width="13" height="4" rx="1" />
+    <rect x="66" y="28" width="13" height="4" rx="1" />
+    <rect x="42" y="33" width="16" height="7" rx="1" />
+    <rect x="21" y="46" width="9" height="6" rx="1" />
+    <rect x="70" y="46" width="9" height="6" rx="1" />
+  </>
+);
+
+const SIDE = (
+  <>
+    <path d="M6 42 L7 33 Q9 29 18 28 L30 26 L41 16 Q44 14 50 14 L66 14 Q71 14 75 18 L83 26 Q92 28 94 33 L94 42 Z" />
+    <path d="M34 26 L43 18 L56 18 L56 26 Z" />
+    <path d="M60 26 L60 18 L69 18 Q72 18 75 21 L79 26 Z" />
+    <circle cx="22" cy="42" r="7" />
+    <circle cx="78" cy="42" r="7" />
+  </>
+);
+
+const CORNER = (
+  <>
+    <path d="M8 44 L8 31 Q10 26 16 25 L25 15 Q27 13 31 13 L62 13 Q68 13 73 18 L84 26 Q92 28 93 33 L93 44 Z" />
+    <path d="M34 25 L34 44" />
+    <path d="M14 25 L23 16 L31 16 L31 25 Z" />
+    <ellipse cx="20" cy="44" rx="4" ry="6" />
+    <circle cx="46" cy="44" r="6" />
+    <circle cx="80" cy="44" r="6" />
+  </>
+);
+
+const INTERIOR = (
+  <>
+    <path d="M4 30 Q50 16 96 30 L96 40 Q50 30 4 40 Z" />
+    <circle cx="32" cy="42" r="12" />
+    <circle cx="32" cy="42" r="3" />
+    <rect x="56" y="30" width="16" height="10" rx="1" />
+  </>
+);
+
+const ODOMETER = (
+  <>
+    <circle cx="32" cy="30" r="17" />
+    <circle cx="68" cy="30" r="17" />
+    <path d="M32 30 L22 22" />
+    <path d="M68 30 L76 20" />
+    <rect x="42" y="40" width="16" height="6" rx="1" />
+  </>
+);
+
+const GUIDES: Record<Viewpoint, { outline: ReactNode; mirrored?: boolean }> = {
+  front: { outline: FRONT },
+  front_left: { outline: CORNER },
+  left: { outline: SIDE },
+  rear_left: { outline: CORNER, mirrored: true },
+  rear: { outline: REAR },
+  rear_right: { outline: CORNER },
+  right: { outline: SIDE, mirrored: true },
+  front_right: { outline: CORNER, mirrored: true },
+  interior: { outline: INTERIOR },
+  odometer: { outline: ODOMETER },
+};
+
+interface ViewpointGuideProps {
+  viewpoint: Viewpoint;
+  className?: string;
+}
+
+/** Dashed outline of what the shot should frame, drawn over the camera preview. */
+export const ViewpointGuide = ({ viewpoint, className }: ViewpointGuideProps) => {
+  const { outline, mirrored } = GUIDES[viewpoint];
+  return (
+    <svg
+      viewBox="0 0 100 60"
+      preserveAspectRatio="xMidYMid meet"
+      className={cn("pointer-events-none", className)}
+      fill="none"
+      stroke="currentColor"
+      strokeWidth={0.8}
+      strokeDasharray="2 1.5"
+      strokeLinejoin="round"
+      aria-hidden="true"
+    >
+      <g transform={mirrored ? "translate(100 0) scale(-1 1)" : undefined}>{outline}</g>
+    </svg>
+  );
+};
@@ -0,0 +1,215 @@
+import { useEffect, useRef, useState } from "react";
+import { Camera, Check, ChevronLeft, RotateCcw, SkipForward } from "lucide-react";
+import { Button } from "./ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Alert, AlertDescription, AlertTitle } from "./ui/alert";
+import { QualityBadge } from "./ImageQuality";
+import { ViewpointGuide } from "./ViewpointGuide";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { CameraError, openCamera, stopCamera } from "@/lib/camera";
+import { preprocessVideoFrame, type PreprocessedImage } from "@/lib/image-preprocess";
+import { VIEWPOINT_INSTRUCTIONS, VIEWPOINT_LABELS, VIEWPOINTS, type Viewpoint } from "@shared/viewpoints.ts";
+
+export interface WalkAroundShot {
+  viewpoint: Viewpoint;
+  image: PreprocessedImage;
+}
+
+interface WalkAroundCaptureProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Called with the captured shots in walk-around order; skipped angles are left out. */
+  onComplete: (shots: WalkAroundShot[]) => void;
+}
+
+/** Index of the first angle after `from` that is neither captured nor skipped, or `from` when none is left. */
+const nextPending = (from: number, shots: Map<Viewpoint, PreprocessedImage>, skipped: Set<Viewpoint>) => {
+  for (let offset = 1; offset <= VIEWPOINTS.length; offset++) {
+    const index = (from + offset) % VIEWPOINTS.length;
+    if (!shots.has(VIEWPOINTS[index]) && !skipped.has(VIEWPOINTS[index])) return index;
+  }
+  return from;
+};
+
+/**
+ * Guided capture with the device camera: prompts for each standard angle in
+ * turn over a silhouette of what to frame, and tags every shot with its angle.
+ */
+export const WalkAroundCapture = ({ open, onOpenChange, onComplete }: WalkAroundCaptureProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [cameraError, setCameraError] = useState<CameraError | null>(null);
+  const [attempt, setAttempt] = useState(0);
+  const [step, setStep] = useState(0);
+  const [shots, setShots] = useState<Map<Viewpoint, PreprocessedImage>>(new Map());
+  const [skipped, setSkipped] = useState<Set<Viewpoint>>(new Set());
+  const [isCapturing, setIsCapturing] = useState(false);
+  const { toast } = useToast();
+
+  const viewpoint = VIEWPOINTS[step];
+  const shot = shots.get(viewpoint);
+  const isComplete = shots.size > 0 && VIEWPOINTS.every((angle) => shots.has(angle) || skipped.has(angle));
+
+  useEffect(() => {
+    if (!open) return;
+    setStep(0);
+    setShots(new Map());
+    setSkipped(new Set());
+  }, [open]);
+
+  // The camera is on only while the dialog is open
+  useEffect(() => {
+    if (!open) return;
+    let active = true;
+    let opened: MediaStream | null = null;
+    setCameraError(null);
+    openCamera()
+      .then((cameraStream) => {
+        if (!active) {
+          stopCamera(cameraStream);
+          return;
+        }
+        opened = cameraStream;
+        setStream(cameraStream);
+      })
+      .catch((error) => {
+        if (!active) return;
+        setCameraError(error instanceof CameraError ? error : new CameraError("unavailable", "No camera could be opened on this device."));
+      });
+    return () => {
+      active = false;
+      if (opened) stopCamera(opened);
+      setStream(null);
+    };
+  }, [open, attempt]);
+
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.srcObject = stream;
+  }, [stream]);
+
+  const capture = async () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    setIsCapturing(true);
+    try {
+      const image = await preprocessVideoFrame(video);
+      const nextShots = new Map(shots).set(viewpoint, image);
+      const nextSkipped = new Set(skipped);
+      nextSkipped.delete(viewpoint);
+      setShots(nextShots);
+      setSkipped(nextSkipped);
+      setStep(nextPending(step, nextShots, nextSkipped));
+    } catch (error) {
+      console.error("Capture error:", error);
+      toast({
+        title: "Could not capture photo",
+        description: "The camera image could not be saved. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+
+  const skip = () => {
+    const nextSkipped = new Set(skipped).add(viewpoint);
+    setSkipped(nextSkipped);
+    setStep(nextPending(step, shots, nextSkipped));
+  };
+
+  const finish = () => {
+    onComplete(VIEWPOINTS.filter((angle) => shots.has(angle)).map((angle) => ({ viewpoint: angle, image: shots.get(angle)! })));
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            Shot {step + 1} of {VIEWPOINTS.length}: {VIEWPOINT_LABELS[viewpoint]}
+            {shot && <QualityBadge quality={shot.quality} />}
+          </DialogTitle>
+          <DialogDescription>{VIEWPOINT_INSTRUCTIONS[viewpoint]}</DialogDescription>
+        </DialogHeader>
+
+        {cameraError ? (
+          <Alert variant="destructive">
+            <Camera className="h-4 w-4" />
+            <AlertTitle>Camera unavailable</AlertTitle>
+            <AlertDescription className="space-y-3">
+              <p>{cameraError.message}</p>
+              {cameraError.reason !== "unsupported" && (
+                <Button variant="outline" size="sm" onClick={() => setAttempt((count) => count + 1)}>
+                  Try again
+                </Button>
+              )}
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <div className="relative aspect-video rounded-xl overflow-hidden bg-black">
+            <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-cover" />
+            <ViewpointGuide viewpoint={viewpoint} className="absolute inset-0 w-full h-full p-6 text-white/80" />
+            {!stream && (
+              <p className="absolute inset-0 flex items-center justify-center text-sm text-white/80">Opening camera…</p>
+            )}
+          </div>
+        )}
+
+        <div className="grid grid-cols-5 gap-2">
+          {VIEWPOINTS.map((angle, index) => {
+            const image = shots.get(angle);
+            return (
+              <button
+                key={angle}
+                type="button"
+                onClick={() => setStep(index)}
+                className={cn(
+                  "relative aspect-video rounded-md overflow-hidden border text-xs transition-all",
+                  index === step ? "ring-2 ring-primary" : "hover:border-primary/50",
+                  skipped.has(angle) && "opacity-50",
+                )}
+                title={skipped.has(angle) ? `${VIEWPOINT_LABELS[angle]} (skipped)` : VIEWPOINT_LABELS[angle]}
+              >
+                {image && <img src={image.dataUrl} alt="" className="absolute inset-0 w-full h-full object-cover" />}
+                <span
+                  className={cn(
+                    "absolute inset-x-0 bottom-0 px-1 py-0.5 truncate",
+                    image ? "bg-black/60 text-white" : "text-muted-foreground",
+                    skipped.has(angle) && "line-through",
+                  )}
+                >
+                  {VIEWPOINT_LABELS[angle]}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          <div className="flex gap-2">
+            <Button variant="ghost" onClick={() => setStep(step - 1)} disabled={step === 0}>
+              <ChevronLeft className="w-4 h-4 mr-1" />
+              Back
+            </Button>
+            <Button variant="outline" onClick={skip} disabled={Boolean(shot) || skipped.has(viewpoint)}>
+              <SkipForward className="w-4 h-4 mr-1" />
+              Skip
+            </Button>
+          </div>
+          <div className="flex gap-2">
+            <Button variant={shot ? "outline" : "default"} onClick={capture} disabled={!stream || isCapturing}>
+              {shot ? <RotateCcw className="w-4 h-4 mr-1" /> : <Camera className="w-4 h-4 mr-1" />}
+              {shot ? "Retake" : "Capture"}
+            </Button>
+            <Button onClick={finish} disabled={!isComplete}>
+              <Check className="w-4 h-4 mr-1" />
+              Use {shots.size} {shots.size === 1 ? "photo" : "photos"}
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
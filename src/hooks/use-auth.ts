@@ -0,0 +1,30 @@
+import * as React from "react";
+import type { Session, User } from "@supabase/supabase-js";
+import type { Role } from "@shared/roles.ts";
+
+export interface Membership {
+  organizationId: string;
+  organizationName: string;
+  role: Role;
+}
+
+export interface AuthContextValue {
+  session: Session | null;
+  user: User | null;
+  /** Null when signed out or not yet part of an organization. */
+  membership: Membership | null;
+  /** True until the stored session and its membership have been read. */
+  isLoading: boolean;
+  signIn: (email: string, password: string) => Promise<void>;
+  signUp: (email: string, password: string) => Promise<{ confirmationRequired: boolean }>;
+  signOut: () => Promise<void>;
+  refreshMembership: () => Promise<void>;
+}
+
+export const AuthContext = React.createContext<AuthContextValue | null>(null);
+
+export function useAuth() {
+  const context = React.useContext(AuthContext);
+  if (!context) throw new Error("useAuth must be used within an AuthProvider");
+  return context;
+}
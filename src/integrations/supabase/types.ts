@@ -14,13 +14,486 @@ export type Database = {
   }
   public: {
     Tables: {
-      [_ in never]: never
+      analysis_cache: {
+        Row: {
+          created_at: string
+          image_hash: string
+          model: string
+          organization_id: string
+          prompt_version: string
+          result: Json
+        }
+        Insert: {
+          created_at?: string
+          image_hash: string
+          model: string
+          organization_id: string
+          prompt_version: string
+          result: Json
+        }
+        Update: {
+          created_at?: string
+          image_hash?: string
+          model?: string
+          organization_id?: string
+          prompt_version?: string
+          result?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "analysis_cache_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      damage_findings: {
+        Row: {
+          bounding_boxes: Json
+          cost_max: number
+          cost_min: number
+          created_at: string
+          currency: string
+          description: string
+          id: string
+          inspection_id: string
+          line_items: Json
+          location: string
+          media_id: string | null
+          part: string
+          polygons: Json | null
+          position: number
+          severity: string
+          supporting_positions: number[]
+          type: string
+        }
+        Insert: {
+          bounding_boxes?: Json
+          cost_max?: number
+          cost_min?: number
+          created_at?: string
+          currency: string
+          description?: string
+          id?: string
+          inspection_id: string
+          line_items?: Json
+          location: string
+          media_id?: string | null
+          part: string
+          polygons?: Json | null
+          position: number
+          severity: string
+          supporting_positions?: number[]
+          type: string
+        }
+        Update: {
+          bounding_boxes?: Json
+          cost_max?: number
+          cost_min?: number
+          created_at?: string
+          currency?: string
+          description?: string
+          id?: string
+          inspection_id?: string
+          line_items?: Json
+          location?: string
+          media_id?: string | null
+          part?: string
+          polygons?: Json | null
+          position?: number
+          severity?: string
+          supporting_positions?: number[]
+          type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "damage_findings_inspection_id_fkey"
+            columns: ["inspection_id"]
+            isOneToOne: false
+            referencedRelation: "inspections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "damage_findings_media_id_fkey"
+            columns: ["media_id"]
+            isOneToOne: false
+            referencedRelation: "inspection_media"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      inspection_media: {
+        Row: {
+          annotated_path: string | null
+          annotated_preview: string | null
+          byte_size: number | null
+          cached: boolean
+          captured_at: string | null
+          created_at: string
+          error: Json | null
+          id: string
+          image_hash: string
+          inspection_id: string
+          mime_type: string | null
+          model: string
+          original_path: string | null
+          position: number
+          preview: string | null
+          preview_path: string | null
+          prompt_version: string
+          quality: Json | null
+          raw_output: string | null
+          result: Json | null
+          status: string
+          thumbnail: string | null
+          thumbnail_path: string | null
+          video_timestamp: number | null
+          viewpoint: string | null
+        }
+        Insert: {
+          annotated_path?: string | null
+          annotated_preview?: string | null
+          byte_size?: number | null
+          cached?: boolean
+          captured_at?: string | null
+          created_at?: string
+          error?: Json | null
+          id?: string
+          image_hash: string
+          inspection_id: string
+          mime_type?: string | null
+          model: string
+          original_path?: string | null
+          position: number
+          preview?: string | null
+          preview_path?: string | null
+          prompt_version: string
+          quality?: Json | null
+          raw_output?: string | null
+          result?: Json | null
+          status: string
+          thumbnail?: string | null
+          thumbnail_path?: string | null
+          video_timestamp?: number | null
+          viewpoint?: string | null
+        }
+        Update: {
+          annotated_path?: string | null
+          annotated_preview?: string | null
+          byte_size?: number | null
+          cached?: boolean
+          captured_at?: string | null
+          created_at?: string
+          error?: Json | null
+          id?: string
+          image_hash?: string
+          inspection_id?: string
+          mime_type?: string | null
+          model?: string
+          original_path?: string | null
+          position?: number
+          preview?: string | null
+          preview_path?: string | null
+          prompt_version?: string
+          quality?: Json | null
+          raw_output?: string | null
+          result?: Json | null
+          status?: string
+          thumbnail?: string | null
+          thumbnail_path?: string | null
+          video_timestamp?: number | null
+          viewpoint?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inspection_media_inspection_id_fkey"
+            columns: ["inspection_id"]
+            isOneToOne: false
+            referencedRelation: "inspections"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      inspections: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          currency: string
+          damage_count: number
+          error: Json | null
+          estimated_cost_max: number
+          estimated_cost_max_usd: number
+          estimated_cost_min: number
+          id: string
+          organization_id: string
+          overall_severity: string | null
+          region: string
+          result: Json | null
+          schema_version: string
+          source: string
+          status: string
+          vehicle_id: string | null
+          vehicle_ref: string | null
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          currency: string
+          damage_count?: number
+          error?: Json | null
+          estimated_cost_max?: number
+          estimated_cost_max_usd?: number
+          estimated_cost_min?: number
+          id?: string
+          organization_id: string
+          overall_severity?: string | null
+          region: string
+          result?: Json | null
+          schema_version: string
+          source: string
+          status: string
+          vehicle_id?: string | null
+          vehicle_ref?: string | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          currency?: string
+          damage_count?: number
+          error?: Json | null
+          estimated_cost_max?: number
+          estimated_cost_max_usd?: number
+          estimated_cost_min?: number
+          id?: string
+          organization_id?: string
+          overall_severity?: string | null
+          region?: string
+          result?: Json | null
+          schema_version?: string
+          source?: string
+          status?: string
+          vehicle_id?: string | null
+          vehicle_ref?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inspections_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inspections_vehicle_id_fkey"
+            columns: ["vehicle_id"]
+            isOneToOne: false
+            referencedRelation: "vehicles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_members: {
+        Row: {
+          created_at: string
+          organization_id: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          organization_id: string
+          role: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          organization_id?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_members_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_usage: {
+        Row: {
+          credits_used: number
+          organization_id: string
+          period_start: string
+          request_count: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          credits_used?: number
+          organization_id: string
+          period_start: string
+          request_count?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          credits_used?: number
+          organization_id?: string
+          period_start?: string
+          request_count?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_usage_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organizations: {
+        Row: {
+          created_at: string
+          id: string
+          monthly_credits: number
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          monthly_credits?: number
+          name: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          monthly_credits?: number
+          name?: string
+        }
+        Relationships: []
+      }
+      user_request_windows: {
+        Row: {
+          request_count: number
+          user_id: string
+          window_start: string
+        }
+        Insert: {
+          request_count?: number
+          user_id: string
+          window_start: string
+        }
+        Update: {
+          request_count?: number
+          user_id?: string
+          window_start?: string
+        }
+        Relationships: []
+      }
+      vehicles: {
+        Row: {
+          color: string | null
+          created_at: string
+          id: string
+          make: string | null
+          model: string | null
+          organization_id: string
+          plate: string | null
+          updated_at: string
+          vin: string | null
+          year: number | null
+        }
+        Insert: {
+          color?: string | null
+          created_at?: string
+          id?: string
+          make?: string | null
+          model?: string | null
+          organization_id: string
+          plate?: string | null
+          updated_at?: string
+          vin?: string | null
+          year?: number | null
+        }
+        Update: {
+          color?: string | null
+          created_at?: string
+          id?: string
+          make?: string | null
+          model?: string | null
+          organization_id?: string
+          plate?: string | null
+          updated_at?: string
+          vin?: string | null
+          year?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "vehicles_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      add_organization_member: {
+        Args: { email: string; role: string }
+        Returns: undefined
+      }
+      consume_analysis_quota: {
+        Args: {
+          credits: number
+          member_id: string
+          org_id: string
+          requests_per_minute: number
+        }
+        Returns: {
+          allowed: boolean
+          limited_by: string
+          period: string
+          quota: number
+          reset_at: string
+          used: number
+        }[]
+      }
+      create_organization: { Args: { name: string }; Returns: string }
+      current_organization_id: { Args: never; Returns: string }
+      has_role: { Args: { roles: string[] }; Returns: boolean }
+      list_organization_members: {
+        Args: never
+        Returns: {
+          created_at: string
+          email: string
+          role: string
+          user_id: string
+        }[]
+      }
+      refund_analysis_credits: {
+        Args: {
+          credits: number
+          member_id: string
+          org_id: string
+          period: string
+        }
+        Returns: undefined
+      }
+      set_organization_member_role: {
+        Args: { member_id: string; role: string }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,414 @@
+import { FunctionsFetchError, FunctionsHttpError, FunctionsRelayError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { analysisResponseSchema, toValidationIssues } from "@shared/analysis-schema.ts";
+import { combineResults, type CombineSource } from "@shared/combine.ts";
+import { estimateRepairCost } from "@shared/cost-estimator.ts";
+import { getRegion, isRegionCode, regionFromLocale, resolveRateTable, type RegionCode } from "@shared/regions.ts";
+import {
+  isCompatibleSchemaVersion,
+  SCHEMA_VERSION,
+  type AnalyzeDamageBatchRequest,
+  type AnalyzeDamageBatchResponse,
+  type AnalyzeDamageErrorBody,
+  type AnalyzeDamageErrorCode,
+  type AnalyzeDamageRequest,
+  type AnalyzeDamageResponse,
+  type BatchImage,
+  type CombinedAnalysisResult,
+  type DamageItem,
+  type FrameAnalysisResult,
+  type ImageInput,
+  type MeasuredImage,
+  type ValidationIssue,
+  type VehicleDetails,
+} from "@shared/contract.ts";
+import { vehicleDetailsSchema, vehicleFromRef } from "@shared/vehicles.ts";
+import type { ImageQuality } from "@shared/image-quality.ts";
+import type { Viewpoint } from "@shared/viewpoints.ts";
+import { canUpload, uploadInspectionImage } from "@/lib/image-storage";
+
+export type AnalyzeDamageClientErrorCode =
+  | AnalyzeDamageErrorCode
+  | "incompatible_version"
+  | "network_error";
+
+const ERROR_TITLES: Record<AnalyzeDamageClientErrorCode, string> = {
+  invalid_request: "Invalid Request",
+  unauthorized: "Sign-in Required",
+  forbidden: "Not Allowed",
+  quota_exceeded: "Usage Limit Reached",
+  credits_exhausted: "AI Credits Exhausted",
+  rate_limited: "Too Many Requests",
+  validation_failed: "Invalid Analysis Result",
+  server_error: "Analysis Service Error",
+  incompatible_version: "Update Required",
+  network_error: "Connection Problem",
+};
+
+/**
+ * Error raised when the analyze-damage edge function cannot produce a result.
+ * `code` comes from the error body (falling back to the HTTP status) so callers can branch
+ * without parsing messages.
+ */
+export class AnalyzeDamageError extends Error {
+  readonly code: AnalyzeDamageClientErrorCode;
+  readonly status: number | null;
+  readonly issues: ValidationIssue[];
+  /** When a `quota_exceeded` request can be retried. */
+  readonly resetAt: Date | null;
+
+  constructor(
+    code: AnalyzeDamageClientErrorCode,
+    message: string,
+    status: number | null = null,
+    issues: ValidationIssue[] = [],
+    resetAt: Date | null = null,
+  ) {
+    super(message);
+    this.name = "AnalyzeDamageError";
+    this.code = code;
+    this.status = status;
+    this.issues = issues;
+    this.resetAt = resetAt;
+  }
+
+  get title() {
+    return ERROR_TITLES[this.code];
+  }
+}
+
+const DEMO_MODE_STORAGE_KEY = "analysis-demo-mode";
+
+export const getDefaultDemoMode = (): boolean => {
+  const stored = typeof localStorage !== "undefined" ? localStorage.getItem(DEMO_MODE_STORAGE_KEY) : null;
+  if (stored !== null) return stored === "true";
+  return import.meta.env.VITE_ANALYSIS_DEMO_MODE === "true";
+};
+
+export const persistDemoMode = (enabled: boolean) => {
+  localStorage.setItem(DEMO_MODE_STORAGE_KEY, String(enabled));
+};
+
+/** Which regional price table to use and which currency to show; a null currency means the region's own. */
+export interface PricingSettings {
+  region: RegionCode;
+  currency: string | null;
+}
+
+const REGION_STORAGE_KEY = "analysis-region";
+const CURRENCY_STORAGE_KEY = "analysis-currency";
+
+export const getDefaultPricing = (): PricingSettings => {
+  const canStore = typeof localStorage !== "undefined";
+  const storedRegion = canStore ? localStorage.getItem(REGION_STORAGE_KEY) : null;
+  const configuredRegion = import.meta.env.VITE_PRICING_REGION;
+  const region = isRegionCode(storedRegion)
+    ? storedRegion
+    : isRegionCode(configuredRegion)
+      ? configuredRegion
+      : regionFromLocale(typeof navigator !== "undefined" ? navigator.language : undefined);
+  return { region, currency: (canStore ? localStorage.getItem(CURRENCY_STORAGE_KEY) : null) || null };
+};
+
+export const persistPricing = ({ region, currency }: PricingSettings) => {
+  localStorage.setItem(REGION_STORAGE_KEY, region);
+  if (currency) {
+    localStorage.setItem(CURRENCY_STORAGE_KEY, currency);
+  } else {
+    localStorage.removeItem(CURRENCY_STORAGE_KEY);
+  }
+};
+
+/** Currency amounts will be shown in for these settings. */
+export const getDisplayCurrency = ({ region, currency }: PricingSettings) => currency ?? getRegion(region).currency;
+
+export interface ImageDetails {
+  quality?: ImageQuality;
+  /** When the camera took the photo, from its EXIF data. */
+  capturedAt?: string;
+  /** Seconds into the video, for frames. Batches only. */
+  timestamp?: number;
+  /** Angle of a guided walk-around shot. Batches only. */
+  viewpoint?: Viewpoint;
+}
+
+interface AnalyzeOptions {
+  demoMode?: boolean;
+  pricing?: PricingSettings;
+  /** Plate or VIN stored with the inspection. */
+  vehicleRef?: string;
+  /** Recorded on the vehicle named by `vehicleRef`. */
+  vehicleDetails?: Pick<VehicleDetails, "make" | "model" | "year" | "color">;
+  /** When set, images are uploaded to the organization's storage folder and sent by path. */
+  organizationId?: string;
+  /** What the app knows about an image beyond its pixels, sent along to be stored with it. */
+  detailsOf?: (imageBase64: string) => ImageDetails | undefined;
+}
+
+/** Vehicle record for a reference; undefined when the reference is neither a VIN nor a plate, so it stays text only. */
+const toVehicle = (vehicleRef: string, details: AnalyzeOptions["vehicleDetails"]) => {
+  const parsed = vehicleDetailsSchema.safeParse({ ...vehicleFromRef(vehicleRef), ...details });
+  return parsed.success ? (parsed.data as VehicleDetails) : undefined;
+};
+
+const toRequestOptions = ({ pricing, vehicleRef, vehicleDetails }: AnalyzeOptions) => ({
+  ...(pricing ? { region: pricing.region, ...(pricing.currency ? { currency: pricing.currency } : {}) } : {}),
+  ...(vehicleRef?.trim() ? { vehicleRef: vehicleRef.trim(), vehicle: toVehicle(vehicleRef.trim(), vehicleDetails) } : {}),
+});
+
+/** The image's quality measurements as a request field, when there are any. */
+const toMeasuredImage = (imageBase64: string, { detailsOf }: AnalyzeOptions): MeasuredImage => {
+  const details = detailsOf?.(imageBase64);
+  return {
+    ...(details?.quality ? { quality: details.quality.scores } : {}),
+    ...(details?.capturedAt ? { capturedAt: details.capturedAt } : {}),
+  };
+};
+
+/** Where a batch image came from: its video timestamp or walk-around angle, when known. */
+const toFrameDetails = (imageBase64: string, { detailsOf }: AnalyzeOptions): Pick<BatchImage, "timestamp" | "viewpoint"> => {
+  const details = detailsOf?.(imageBase64);
+  return {
+    ...(details?.timestamp !== undefined ? { timestamp: details.timestamp } : {}),
+    ...(details?.viewpoint ? { viewpoint: details.viewpoint } : {}),
+  };
+};
+
+/** Uploads the image when possible so the request carries a storage path instead of the whole data URL. */
+const toImageInput = async (imageBase64: string, organizationId: string | undefined): Promise<ImageInput> => {
+  if (!organizationId || !canUpload(imageBase64)) return { imageBase64 };
+  try {
+    return { imagePath: await uploadInspectionImage(imageBase64, organizationId) };
+  } catch (error) {
+    throw new AnalyzeDamageError(
+      "network_error",
+      `Could not upload the image: ${error instanceof Error ? error.message : "please try again"}.`,
+    );
+  }
+};
+
+/** Offline result used in demo mode; mirrors the shape returned by the edge function. */
+export const getStaticResult = (
+  imageBase64?: string | null,
+  pricing: PricingSettings = getDefaultPricing(),
+): AnalyzeDamageResponse => {
+  const damages: DamageItem[] = [
+    {
+      type: "dent",
+      part: "front_bumper",
+      location: "Front bumper",
+      severity: "Moderate",
+      description: "Visible dent with minor deformation on the front bumper area.",
+      boundingBoxes: [{ x: 0.3, y: 0.55, width: 0.25, height: 0.18 }],
+    },
+    {
+      type: "scratch",
+      part: "left_fender",
+      location: "Left fender",
+      severity: "Minor",
+      description: "Surface scratches likely caused by light contact.",
+      boundingBoxes: [{ x: 0.06, y: 0.4, width: 0.2, height: 0.14 }],
+    },
+  ];
+
+  return {
+    schemaVersion: SCHEMA_VERSION,
+    hasVehicle: true,
+    hasDamage: true,
+    overallSeverity: "Moderate",
+    confidenceScore: 92,
+    damages,
+    affectedAreas: ["Front bumper", "Left fender"],
+    affectedParts: ["front_bumper", "left_fender"],
+    estimatedRepairCost: estimateRepairCost(damages, resolveRateTable(pricing.region, pricing.currency ?? undefined)),
+    recommendations: [
+      "Inspect bumper alignment and mounts.",
+      "Polish scratches and apply protective coating.",
+      "Schedule a body shop assessment for precise repair cost.",
+    ],
+    summary:
+      "Static demo result: Vehicle damage detected with moderate severity. " +
+      "Recommended repair includes bumper inspection and scratch correction.",
+    annotatedImage: imageBase64 || null,
+    region: pricing.region,
+  };
+};
+
+/** True when at least one damage was localized, so an overlay can be drawn instead of a generated image. */
+export const hasDamageGeometry = (damages: DamageItem[]) =>
+  damages.some((damage) => damage.boundingBoxes?.length > 0 || damage.polygons?.length > 0);
+
+const codeForStatus = (status: number): AnalyzeDamageErrorCode => {
+  switch (status) {
+    case 400: return "invalid_request";
+    case 401: return "unauthorized";
+    case 403: return "forbidden";
+    case 402: return "credits_exhausted";
+    case 422: return "validation_failed";
+    case 429: return "rate_limited";
+    default: return "server_error";
+  }
+};
+
+const toAnalyzeDamageError = async (error: unknown): Promise<AnalyzeDamageError> => {
+  if (error instanceof FunctionsHttpError) {
+    const response = error.context as Response;
+    let message = `Analysis failed with status ${response.status}.`;
+    let code = codeForStatus(response.status);
+    let issues: ValidationIssue[] = [];
+    let resetAt: Date | null = null;
+    try {
+      const body: Partial<AnalyzeDamageErrorBody> = await response.json();
+      if (typeof body?.error === "string") message = body.error;
+      if (typeof body?.code === "string" && body.code in ERROR_TITLES) code = body.code;
+      if (Array.isArray(body?.issues)) issues = body.issues;
+      if (typeof body?.resetAt === "string" && !Number.isNaN(Date.parse(body.resetAt))) resetAt = new Date(body.resetAt);
+    } catch {
+      // Body was not JSON; keep the generic message
+    }
+    return new AnalyzeDamageError(code, message, response.status, issues, resetAt);
+  }
+  if (error instanceof FunctionsFetchError || error instanceof FunctionsRelayError) {
+    return new AnalyzeDamageError("network_error", "Could not reach the analysis service. Check your connection and try again.");
+  }
+  return new AnalyzeDamageError(
+    "server_error",
+    error instanceof Error ? error.message : "An unexpected error occurred",
+  );
+};
+
+const assertCompatibleSchemaVersion = (version: string | undefined) => {
+  if (!isCompatibleSchemaVersion(version)) {
+    throw new AnalyzeDamageError(
+      "incompatible_version",
+      `The analysis service speaks schema ${version ?? "unknown"}, but this app expects ${SCHEMA_VERSION}. Reload the page to update.`,
+    );
+  }
+};
+
+/**
+ * Analyze a single image (as a data URL) with the analyze-damage edge function.
+ * With an `organizationId` the image is uploaded to storage first and sent by path.
+ * In demo mode the static result is returned without any network call.
+ */
+export const analyzeDamage = async (
+  imageBase64: string,
+  options: AnalyzeOptions = {},
+): Promise<AnalyzeDamageResponse> => {
+  if (options.demoMode) return getStaticResult(imageBase64, options.pricing);
+
+  const request: AnalyzeDamageRequest = {
+    ...(await toImageInput(imageBase64, options.organizationId)),
+    ...toMeasuredImage(imageBase64, options),
+    ...toRequestOptions(options),
+  };
+  const { data, error } = await supabase.functions.invoke("analyze-damage", { body: request });
+
+  if (error) throw await toAnalyzeDamageError(error);
+  if (!data) throw new AnalyzeDamageError("server_error", "The analysis service returned an empty response.");
+  assertCompatibleSchemaVersion(data.schemaVersion);
+
+  const parsed = analysisResponseSchema.safeParse(data);
+  if (!parsed.success) {
+    throw new AnalyzeDamageError(
+      "validation_failed",
+      "The analysis service returned a result in an unexpected format.",
+      null,
+      toValidationIssues(parsed.error),
+    );
+  }
+  return parsed.data as AnalyzeDamageResponse;
+};
+
+export interface BatchAnalysisOutcome {
+  /** Null when no image could be analyzed. */
+  combined: CombinedAnalysisResult | null;
+  failures: { index: number; error: AnalyzeDamageError }[];
+  /** Id of the stored inspection; null in demo mode or when it could not be saved. */
+  inspectionId: string | null;
+  /** Id of the vehicle the inspection was linked to, when one was named. */
+  vehicleId: string | null;
+}
+
+/**
+ * Analyze several images (multi-angle photos or video frames) in one batch request.
+ * The server analyzes them concurrently and combines the successful ones; per-image
+ * failures are returned alongside instead of failing the whole batch.
+ */
+export const analyzeDamageBatch = async (
+  images: string[],
+  source: CombineSource,
+  options: AnalyzeOptions = {},
+): Promise<BatchAnalysisOutcome> => {
+  if (options.demoMode) {
+    const frameResults: FrameAnalysisResult[] = images.map((image, index) => ({
+      ...getStaticResult(image, options.pricing),
+      frameIndex: index,
+      frameImage: image,
+      ...toFrameDetails(image, options),
+    }));
+    return { combined: { ...combineResults(frameResults, source), frameResults }, failures: [], inspectionId: null, vehicleId: null };
+  }
+
+  const request: AnalyzeDamageBatchRequest = {
+    images: await Promise.all(images.map(async (imageBase64, index) => ({
+      id: String(index),
+      ...(await toImageInput(imageBase64, options.organizationId)),
+      ...toMeasuredImage(imageBase64, options),
+      ...toFrameDetails(imageBase64, options),
+    }))),
+    source,
+    ...toRequestOptions(options),
+  };
+  const { data, error } = await supabase.functions.invoke<AnalyzeDamageBatchResponse>("analyze-damage", { body: request });
+
+  if (error) throw await toAnalyzeDamageError(error);
+  if (!data) throw new AnalyzeDamageError("server_error", "The analysis service returned an empty response.");
+  assertCompatibleSchemaVersion(data.schemaVersion);
+
+  const frameResults: FrameAnalysisResult[] = [];
+  const failures: BatchAnalysisOutcome["failures"] = [];
+  let rejectedResults = 0;
+
+  data.items.forEach((item, index) => {
+    if (item.status === "error") {
+      failures.push({
+        index,
+        error: new AnalyzeDamageError(item.error.code, item.error.error, null, item.error.issues ?? []),
+      });
+      return;
+    }
+    const parsed = analysisResponseSchema.safeParse(item.result);
+    if (!parsed.success) {
+      rejectedResults++;
+      failures.push({
+        index,
+        error: new AnalyzeDamageError(
+          "validation_failed",
+          "The analysis service returned a result in an unexpected format.",
+          null,
+          toValidationIssues(parsed.error),
+        ),
+      });
+      return;
+    }
+    frameResults.push({
+      ...(parsed.data as AnalyzeDamageResponse),
+      frameIndex: index,
+      frameImage: images[index],
+      ...toFrameDetails(images[index], options),
+    });
+  });
+
+  // The server's summary counts every result it produced; drop the ones rejected here from the totals
+  const combined = rejectedResults === 0
+    ? data.combined
+    : frameResults.length > 0 ? combineResults(frameResults, source) : null;
+
+  return {
+    combined: combined ? { ...combined, frameResults } : null,
+    failures,
+    inspectionId: data.inspectionId ?? null,
+    vehicleId: data.vehicleId ?? null,
+  };
+};
@@ -0,0 +1,38 @@
+// Access to the device camera for in-app capture. Browsers only expose it on
+// secure origins (HTTPS or localhost) and after the user grants permission.
+
+export type CameraErrorReason = "unsupported" | "denied" | "unavailable";
+
+export class CameraError extends Error {
+  constructor(readonly reason: CameraErrorReason, message: string) {
+    super(message);
+    this.name = "CameraError";
+  }
+}
+
+/** Opens the rear camera where there is one, asking for a photo-friendly resolution. */
+export const openCamera = async (): Promise<MediaStream> => {
+  if (!navigator.mediaDevices?.getUserMedia) {
+    throw new CameraError("unsupported", "This browser cannot open the camera here. Use a secure (HTTPS) page or choose photos from the gallery.");
+  }
+  try {
+    return await navigator.mediaDevices.getUserMedia({
+      audio: false,
+      video: { facingMode: { ideal: "environment" }, width: { ideal: 1920 }, height: { ideal: 1080 } },
+    });
+  } catch (error) {
+    const name = error instanceof DOMException ? error.name : "";
+    if (name === "NotAllowedError" || name === "SecurityError") {
+      throw new CameraError("denied", "Camera access was blocked. Allow it in your browser's site settings and try again.");
+    }
+    if (name === "NotReadableError") {
+      throw new CameraError("unavailable", "The camera is in use by another app. Close it and try again.");
+    }
+    throw new CameraError("unavailable", "No camera could be opened on this device.");
+  }
+};
+
+/** Releases the camera so the device's recording indicator turns off. */
+export const stopCamera = (stream: MediaStream) => {
+  for (const track of stream.getTracks()) track.stop();
+};
@@ -0,0 +1,165 @@
+// Just enough EXIF for preprocessing: read the capture time out of a JPEG and
+// write it back into a re-encoded one. Everything else, GPS included, is left
+// behind when the image is redrawn on a canvas.
+
+const SOI = 0xffd8;
+const APP0 = 0xffe0;
+const APP1 = 0xffe1;
+const SOS = 0xffda;
+
+const TAG_EXIF_IFD = 0x8769;
+const TAG_DATE_TIME = 0x0132;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+
+const TYPE_ASCII = 2;
+const TYPE_LONG = 4;
+
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00]; // "Exif\0\0"
+
+/** EXIF's "YYYY:MM:DD HH:MM:SS" timestamp, with the UTC offset when the camera recorded one. */
+export interface ExifCaptureTime {
+  dateTime: string;
+  offset: string | null;
+}
+
+const EXIF_DATE_PATTERN = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})$/;
+
+/** ISO 8601 form of an EXIF capture time; local time when no offset was recorded. */
+export const toIsoCaptureTime = ({ dateTime, offset }: ExifCaptureTime): string | null => {
+  const match = dateTime.match(EXIF_DATE_PATTERN);
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second] = match;
+  return `${year}-${month}-${day}T${hour}:${minute}:${second}${offset ?? ""}`;
+};
+
+/** Offset of the TIFF header inside the JPEG's EXIF segment, or -1 when there is none. */
+const findTiffStart = (view: DataView): number => {
+  if (view.byteLength < 4 || view.getUint16(0) !== SOI) return -1;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    if (marker === SOS || (marker & 0xff00) !== 0xff00) return -1;
+    const length = view.getUint16(offset + 2);
+    const isExif = marker === APP1 && EXIF_HEADER.every((byte, i) => view.getUint8(offset + 4 + i) === byte);
+    if (isExif) return offset + 4 + EXIF_HEADER.length;
+    offset += 2 + length;
+  }
+  return -1;
+};
+
+/** Reads the capture time from a JPEG's EXIF data; null when the file has none. */
+export const readCaptureTime = (buffer: ArrayBuffer): ExifCaptureTime | null => {
+  const view = new DataView(buffer);
+  try {
+    const tiff = findTiffStart(view);
+    if (tiff < 0) return null;
+    const little = view.getUint16(tiff) === 0x4949; // "II"
+    const u16 = (at: number) => view.getUint16(tiff + at, little);
+    const u32 = (at: number) => view.getUint32(tiff + at, little);
+
+    const readAscii = (entry: number) => {
+      const count = u32(entry + 4);
+      const at = count > 4 ? u32(entry + 8) : entry + 8;
+      let text = "";
+      for (let i = 0; i < count; i++) {
+        const code = view.getUint8(tiff + at + i);
+        if (code === 0) break;
+        text += String.fromCharCode(code);
+      }
+      return text.trim();
+    };
+
+    /** Entries of the IFD at `at`, keyed by tag, pointing at their 12-byte records. */
+    const readIfd = (at: number) => {
+      const entries = new Map<number, number>();
+      const count = u16(at);
+      for (let i = 0; i < count; i++) {
+        const entry = at + 2 + i * 12;
+        entries.set(u16(entry), entry);
+      }
+      return entries;
+    };
+
+    const ifd0 = readIfd(u32(4));
+    const exifPointer = ifd0.get(TAG_EXIF_IFD);
+    const exif = exifPointer !== undefined ? readIfd(u32(exifPointer + 8)) : new Map<number, number>();
+
+    const original = exif.get(TAG_DATE_TIME_ORIGINAL);
+    const fallback = ifd0.get(TAG_DATE_TIME);
+    const dateTime = original !== undefined ? readAscii(original) : fallback !== undefined ? readAscii(fallback) : "";
+    if (!EXIF_DATE_PATTERN.test(dateTime)) return null;
+
+    const offsetEntry = original !== undefined ? exif.get(TAG_OFFSET_TIME_ORIGINAL) : undefined;
+    const offset = offsetEntry !== undefined ? readAscii(offsetEntry) : "";
+    return { dateTime, offset: /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : null };
+  } catch {
+    // Truncated or malformed EXIF: treat as absent
+    return null;
+  }
+};
+
+/**
+ * Builds a big-endian EXIF segment holding only DateTimeOriginal (and
+ * OffsetTimeOriginal when known).
+ */
+const buildCaptureTimeSegment = ({ dateTime, offset }: ExifCaptureTime): Uint8Array => {
+  const fields: [number, string][] = [[TAG_DATE_TIME_ORIGINAL, dateTime]];
+  if (offset) fields.push([TAG_OFFSET_TIME_ORIGINAL, offset]);
+
+  const ifd0Size = 2 + 12 + 4;
+  const exifIfdOffset = 8 + ifd0Size;
+  const exifIfdSize = 2 + fields.length * 12 + 4;
+  const valuesOffset = exifIfdOffset + exifIfdSize;
+  const values = fields.map(([, text]) => `${text}\0`);
+  const tiffSize = valuesOffset + values.reduce((sum, text) => sum + text.length, 0);
+
+  const segment = new Uint8Array(4 + EXIF_HEADER.length + tiffSize);
+  const view = new DataView(segment.buffer);
+  view.setUint16(0, APP1);
+  view.setUint16(2, segment.length - 2);
+  segment.set(EXIF_HEADER, 4);
+
+  const tiff = 4 + EXIF_HEADER.length;
+  view.setUint16(tiff, 0x4d4d); // "MM"
+  view.setUint16(tiff + 2, 42);
+  view.setUint32(tiff + 4, 8);
+
+  view.setUint16(tiff + 8, 1);
+  view.setUint16(tiff + 10, TAG_EXIF_IFD);
+  view.setUint16(tiff + 12, TYPE_LONG);
+  view.setUint32(tiff + 14, 1);
+  view.setUint32(tiff + 18, exifIfdOffset);
+  view.setUint32(tiff + 22, 0);
+
+  view.setUint16(tiff + exifIfdOffset, fields.length);
+  let valueAt = valuesOffset;
+  fields.forEach(([tag], i) => {
+    const entry = tiff + exifIfdOffset + 2 + i * 12;
+    view.setUint16(entry, tag);
+    view.setUint16(entry + 2, TYPE_ASCII);
+    view.setUint32(entry + 4, values[i].length);
+    view.setUint32(entry + 8, valueAt);
+    for (let c = 0; c < values[i].length; c++) segment[tiff + valueAt + c] = values[i].charCodeAt(c);
+    valueAt += values[i].length;
+  });
+  view.setUint32(tiff + exifIfdOffset + 2 + fields.length * 12, 0);
+
+  return segment;
+};
+
+/** Inserts a capture-time EXIF segment into a JPEG that has none, after its JFIF header. */
+export const writeCaptureTime = (jpeg: ArrayBuffer, captureTime: ExifCaptureTime): Uint8Array => {
+  const bytes = new Uint8Array(jpeg);
+  const view = new DataView(jpeg);
+  if (view.byteLength < 4 || view.getUint16(0) !== SOI) return bytes;
+
+  const insertAt = view.getUint16(2) === APP0 ? 4 + view.getUint16(4) : 2;
+  const segment = buildCaptureTimeSegment(captureTime);
+  const result = new Uint8Array(bytes.length + segment.length);
+  result.set(bytes.subarray(0, insertAt));
+  result.set(segment, insertAt);
+  result.set(bytes.subarray(insertAt), insertAt + segment.length);
+  return result;
+};
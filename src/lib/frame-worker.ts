@@ -0,0 +1,55 @@
+// Scores and encodes video frames off the main thread for video-frames.ts.
+// Each request hands over a decoded frame, which is closed once used.
+import { blobToDataUrl, fitWithin, type PreprocessedImage, type PreprocessOptions } from "@/lib/image-preprocess";
+import { measurePixels, sampleSize } from "@/lib/image-quality";
+import { differenceHash } from "@/lib/perceptual-hash";
+import type { FrameScore, FrameWorkerMessage, FrameWorkerReply, FrameWorkerResult } from "@/lib/video-frames";
+import { assessQuality } from "@shared/image-quality.ts";
+
+const draw = (source: CanvasImageSource, width: number, height: number) => {
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("Could not create a canvas in the frame worker");
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(source, 0, 0, width, height);
+  return { canvas, ctx };
+};
+
+/** Pixels of the downscaled copy quality is measured on. */
+const sample = (source: CanvasImageSource, width: number, height: number) => {
+  const size = sampleSize(width, height);
+  return draw(source, size.width, size.height).ctx.getImageData(0, 0, size.width, size.height);
+};
+
+const score = (frame: CanvasImageSource, width: number, height: number): FrameScore => {
+  const pixels = sample(frame, width, height);
+  const { sharpness } = measurePixels(pixels.data, pixels.width, pixels.height, pixels);
+  return { sharpness, hash: differenceHash(pixels) };
+};
+
+/** Same size, format and quality rules as preprocessVideoFrame on the main thread. */
+const encode = async (frame: CanvasImageSource, width: number, height: number, options: PreprocessOptions): Promise<PreprocessedImage> => {
+  const size = fitWithin(width, height, options.maxDimension);
+  const { canvas } = draw(frame, size.width, size.height);
+  const pixels = sample(canvas, size.width, size.height);
+  const quality = assessQuality(measurePixels(pixels.data, pixels.width, pixels.height, size));
+
+  let blob = await canvas.convertToBlob({ type: options.format, quality: options.quality });
+  if (blob.type !== options.format) blob = await canvas.convertToBlob({ type: "image/jpeg", quality: options.quality });
+  return { dataUrl: await blobToDataUrl(blob), ...size, capturedAt: null, quality };
+};
+
+self.onmessage = async ({ data: { id, request } }: MessageEvent<FrameWorkerMessage>) => {
+  let result: FrameWorkerResult;
+  try {
+    result = request.type === "score"
+      ? { type: "score", score: score(request.frame, request.width, request.height) }
+      : { type: "encode", image: await encode(request.frame, request.width, request.height, request.options) };
+  } catch (error) {
+    result = { type: "error", message: error instanceof Error ? error.message : "Could not process the frame" };
+  } finally {
+    request.frame.close();
+  }
+  const reply: FrameWorkerReply = { id, result };
+  self.postMessage(reply);
+};
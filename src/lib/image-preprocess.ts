@@ -0,0 +1,145 @@
+import { readCaptureTime, toIsoCaptureTime, writeCaptureTime, type ExifCaptureTime } from "@/lib/exif";
+import { measureImageQuality } from "@/lib/image-quality";
+import type { ImageQuality } from "@shared/image-quality.ts";
+
+export type PreprocessFormat = "image/jpeg" | "image/webp";
+
+export interface PreprocessOptions {
+  /** Longest edge of the output in pixels; smaller images are not enlarged. */
+  maxDimension: number;
+  format: PreprocessFormat;
+  /** Encoder quality between 0 and 1. */
+  quality: number;
+  /** Writes the original capture time back into JPEG output. All other metadata is dropped. */
+  keepCaptureTime: boolean;
+}
+
+export interface PreprocessedImage {
+  dataUrl: string;
+  width: number;
+  height: number;
+  /** ISO 8601 capture time from the original's EXIF data; null when it had none. */
+  capturedAt: string | null;
+  /** Quality gate result for the output image. */
+  quality: ImageQuality;
+}
+
+const DEFAULT_OPTIONS: PreprocessOptions = {
+  maxDimension: 2048,
+  format: "image/jpeg",
+  quality: 0.85,
+  keepCaptureTime: true,
+};
+
+/** A numeric environment setting, or undefined when it is missing or outside [min, max]. */
+export const numberFromEnv = (value: string | undefined, min: number, max: number) => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed >= min && parsed <= max ? parsed : undefined;
+};
+
+/** Defaults, overridable with VITE_IMAGE_MAX_DIMENSION, VITE_IMAGE_FORMAT, VITE_IMAGE_QUALITY and VITE_IMAGE_KEEP_CAPTURE_TIME. */
+export const getPreprocessOptions = (): PreprocessOptions => {
+  const env = import.meta.env;
+  return {
+    maxDimension: numberFromEnv(env.VITE_IMAGE_MAX_DIMENSION, 256, 8192) ?? DEFAULT_OPTIONS.maxDimension,
+    format: env.VITE_IMAGE_FORMAT === "image/webp" ? "image/webp" : DEFAULT_OPTIONS.format,
+    quality: numberFromEnv(env.VITE_IMAGE_QUALITY, 0.1, 1) ?? DEFAULT_OPTIONS.quality,
+    keepCaptureTime: env.VITE_IMAGE_KEEP_CAPTURE_TIME !== "false",
+  };
+};
+
+/** Output size that fits within `maxDimension`, keeping the aspect ratio. */
+export const fitWithin = (width: number, height: number, maxDimension: number) => {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+/**
+ * Decodes a file upright. createImageBitmap is asked to apply the EXIF
+ * orientation; the <img> fallback gets it from the browser's default
+ * `image-orientation: from-image`.
+ */
+const decodeUpright = async (file: Blob): Promise<{ source: CanvasImageSource; width: number; height: number; close: () => void }> => {
+  if (typeof createImageBitmap === "function") {
+    try {
+      const bitmap = await createImageBitmap(file, { imageOrientation: "from-image" });
+      return { source: bitmap, width: bitmap.width, height: bitmap.height, close: () => bitmap.close() };
+    } catch {
+      // Some browsers reject the options object or the format; fall back to an <img>
+    }
+  }
+
+  const url = URL.createObjectURL(file);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    return { source: image, width: image.naturalWidth, height: image.naturalHeight, close: () => undefined };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, format: PreprocessFormat, quality: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Could not encode the image"))), format, quality);
+  });
+
+export const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+/**
+ * Draws a source scaled to fit `maxDimension`, measures its quality and
+ * encodes it; falls back to JPEG where WebP encoding is missing.
+ */
+const encode = async (
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+  options: PreprocessOptions,
+  captureTime: ExifCaptureTime | null = null,
+): Promise<Omit<PreprocessedImage, "capturedAt">> => {
+  const size = fitWithin(width, height, options.maxDimension);
+  const canvas = document.createElement("canvas");
+  canvas.width = size.width;
+  canvas.height = size.height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Could not create a canvas to process the image");
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(source, 0, 0, size.width, size.height);
+  const quality = measureImageQuality(canvas, size.width, size.height);
+
+  let blob = await canvasToBlob(canvas, options.format, options.quality);
+  if (blob.type !== options.format) blob = await canvasToBlob(canvas, "image/jpeg", options.quality);
+  if (captureTime && blob.type === "image/jpeg") {
+    blob = new Blob([writeCaptureTime(await blob.arrayBuffer(), captureTime)], { type: "image/jpeg" });
+  }
+  return { dataUrl: await blobToDataUrl(blob), ...size, quality };
+};
+
+/**
+ * Prepares a photo for analysis: upright, no larger than the configured size,
+ * re-encoded, and stripped of its metadata (GPS position included). The
+ * capture time is kept when the options ask for it.
+ */
+export const preprocessImageFile = async (file: Blob, options = getPreprocessOptions()): Promise<PreprocessedImage> => {
+  const captureTime = file.type === "image/jpeg" ? readCaptureTime(await file.arrayBuffer()) : null;
+  const decoded = await decodeUpright(file);
+  try {
+    const encoded = await encode(decoded.source, decoded.width, decoded.height, options, options.keepCaptureTime ? captureTime : null);
+    return { ...encoded, capturedAt: captureTime ? toIsoCaptureTime(captureTime) : null };
+  } finally {
+    decoded.close();
+  }
+};
+
+/** Encodes the current video frame with the same size and format rules as photos. */
+export const preprocessVideoFrame = async (video: HTMLVideoElement, options = getPreprocessOptions()): Promise<PreprocessedImage> => ({
+  ...(await encode(video, video.videoWidth, video.videoHeight, options)),
+  capturedAt: null,
+});
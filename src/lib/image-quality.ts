@@ -0,0 +1,119 @@
+import { assessQuality, type ImageQuality, type ImageQualityScores } from "@shared/image-quality.ts";
+
+/** Long edge of the copy the measurements are taken on; the shared thresholds assume this size. */
+const SAMPLE_DIMENSION = 512;
+
+const SHADOW_LEVEL = 8;
+const HIGHLIGHT_LEVEL = 247;
+const GLARE_LEVEL = 240;
+const GLARE_MAX_SATURATION = 0.1;
+/** Share of edge detail left outside the framing box on each side, so stray background edges do not stretch it. */
+const FILL_TRIM = 0.05;
+
+/** Index where the running total of `values` first reaches `target`. */
+const indexReaching = (values: Float64Array, target: number) => {
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i];
+    if (sum >= target) return i;
+  }
+  return values.length - 1;
+};
+
+/**
+ * Measures RGBA pixels. `size` is the pixel size of the image that will be
+ * sent, which the sample may have been scaled down from.
+ */
+export const measurePixels = (
+  rgba: Uint8ClampedArray,
+  width: number,
+  height: number,
+  size: { width: number; height: number },
+): ImageQualityScores => {
+  const pixels = width * height;
+  const luma = new Float64Array(pixels);
+  let brightness = 0;
+  let shadows = 0;
+  let highlights = 0;
+  let glare = 0;
+
+  for (let i = 0; i < pixels; i++) {
+    const r = rgba[i * 4];
+    const g = rgba[i * 4 + 1];
+    const b = rgba[i * 4 + 2];
+    const y = 0.299 * r + 0.587 * g + 0.114 * b;
+    luma[i] = y;
+    brightness += y;
+    if (y <= SHADOW_LEVEL) shadows++;
+    if (y >= HIGHLIGHT_LEVEL) highlights++;
+    const max = Math.max(r, g, b);
+    if (y >= GLARE_LEVEL && (max - Math.min(r, g, b)) / max <= GLARE_MAX_SATURATION) glare++;
+  }
+
+  // Laplacian variance for sharpness; gradient energy per row and column for framing
+  let laplacianSum = 0;
+  let laplacianSquares = 0;
+  let interior = 0;
+  const columnEnergy = new Float64Array(width);
+  const rowEnergy = new Float64Array(height);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const laplacian = luma[i - 1] + luma[i + 1] + luma[i - width] + luma[i + width] - 4 * luma[i];
+      laplacianSum += laplacian;
+      laplacianSquares += laplacian * laplacian;
+      interior++;
+      const gradient = Math.abs(luma[i + 1] - luma[i - 1]) + Math.abs(luma[i + width] - luma[i - width]);
+      columnEnergy[x] += gradient;
+      rowEnergy[y] += gradient;
+    }
+  }
+  const laplacianMean = interior ? laplacianSum / interior : 0;
+  const sharpness = interior ? laplacianSquares / interior - laplacianMean * laplacianMean : 0;
+
+  const totalEnergy = columnEnergy.reduce((sum, value) => sum + value, 0);
+  let vehicleFill = 0;
+  if (totalEnergy > 0) {
+    const left = indexReaching(columnEnergy, totalEnergy * FILL_TRIM);
+    const right = indexReaching(columnEnergy, totalEnergy * (1 - FILL_TRIM));
+    const top = indexReaching(rowEnergy, totalEnergy * FILL_TRIM);
+    const bottom = indexReaching(rowEnergy, totalEnergy * (1 - FILL_TRIM));
+    vehicleFill = ((right - left + 1) / width) * ((bottom - top + 1) / height);
+  }
+
+  const round = (value: number, digits = 3) => Number(value.toFixed(digits));
+  return {
+    sharpness: round(sharpness, 1),
+    brightness: round(brightness / pixels, 1),
+    shadowClipping: round(shadows / pixels),
+    highlightClipping: round(highlights / pixels),
+    glare: round(glare / pixels),
+    width: size.width,
+    height: size.height,
+    vehicleFill: round(Math.min(1, vehicleFill)),
+  };
+};
+
+/** Size of the copy measurements are taken on. */
+export const sampleSize = (width: number, height: number, maxDimension = SAMPLE_DIMENSION) => {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+/** Draws a copy no larger than `maxDimension` and reads back its pixels. */
+export const sampleImage = (source: CanvasImageSource, width: number, height: number, maxDimension = SAMPLE_DIMENSION): ImageData => {
+  const sample = sampleSize(width, height, maxDimension);
+  const canvas = document.createElement("canvas");
+  canvas.width = sample.width;
+  canvas.height = sample.height;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("Could not create a canvas to measure the image");
+  ctx.drawImage(source, 0, 0, sample.width, sample.height);
+  return ctx.getImageData(0, 0, sample.width, sample.height);
+};
+
+/** Measures an image or video frame on a downscaled copy and checks it against the quality gate. */
+export const measureImageQuality = (source: CanvasImageSource, width: number, height: number): ImageQuality => {
+  const sample = sampleImage(source, width, height);
+  return assessQuality(measurePixels(sample.data, sample.width, sample.height, { width, height }));
+};
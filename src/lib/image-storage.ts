@@ -0,0 +1,64 @@
+import { supabase } from "@/integrations/supabase/client";
+import { INSPECTION_IMAGES_BUCKET, SIGNED_URL_TTL_SECONDS, uploadPath } from "@shared/image-paths.ts";
+
+/** Types the bucket accepts, with the extension used for their object names. */
+const UPLOAD_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+};
+
+const mimeTypeOf = (dataUrl: string) => dataUrl.match(/^data:([^;,]+)/)?.[1] ?? null;
+
+/** True when the bucket accepts this data URL's image type; other images are sent inline. */
+export const canUpload = (dataUrl: string) => (mimeTypeOf(dataUrl) ?? "") in UPLOAD_EXTENSIONS;
+
+/** Uploads an image to the organization's folder and returns its storage path. */
+export async function uploadInspectionImage(dataUrl: string, organizationId: string): Promise<string> {
+  const blob = await (await fetch(dataUrl)).blob();
+  const extension = UPLOAD_EXTENSIONS[blob.type];
+  if (!extension) throw new Error(`Images of type ${blob.type || "unknown"} cannot be uploaded`);
+
+  const path = uploadPath(organizationId, crypto.randomUUID(), extension);
+  const { error } = await supabase.storage.from(INSPECTION_IMAGES_BUCKET).upload(path, blob, { contentType: blob.type });
+  if (error) throw new Error(error.message);
+  return path;
+}
+
+/** Signs every distinct path in one request. Paths that could not be signed are missing from the map. */
+export async function signImagePaths(paths: (string | null | undefined)[]): Promise<Map<string, string>> {
+  const distinct = [...new Set(paths.filter((path): path is string => Boolean(path)))];
+  if (distinct.length === 0) return new Map();
+
+  const { data, error } = await supabase.storage
+    .from(INSPECTION_IMAGES_BUCKET)
+    .createSignedUrls(distinct, SIGNED_URL_TTL_SECONDS);
+  if (error) throw new Error(`Could not load images: ${error.message}`);
+  return new Map(
+    (data ?? []).flatMap((item) => (item.path && item.signedUrl && !item.error ? [[item.path, item.signedUrl] as const] : [])),
+  );
+}
+
+/** The signed URL of a stored image, falling back to the data URL older rows kept in a column. */
+export const storedImage = (urls: Map<string, string>, path: string | null, legacy: string | null = null) =>
+  (path ? urls.get(path) : undefined) ?? legacy;
+
+/** Fetches a remote image as a data URL; jsPDF can only embed inline images. */
+export async function inlineImage(src: string | null | undefined): Promise<string | null> {
+  if (!src || src.startsWith("data:")) return src ?? null;
+  const response = await fetch(src);
+  if (!response.ok) throw new Error(`Could not download image (status ${response.status})`);
+  const blob = await response.blob();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/** Copy of a result whose annotated image is inline, ready for a PDF report. */
+export const withInlineAnnotation = async <T extends { annotatedImage?: string | null }>(result: T): Promise<T> => ({
+  ...result,
+  annotatedImage: await inlineImage(result.annotatedImage),
+});
@@ -0,0 +1,216 @@
+import { supabase } from "@/integrations/supabase/client";
+import { signImagePaths, storedImage } from "@/lib/image-storage";
+import type {
+  AnalysisResult,
+  CombinedAnalysisResult,
+  FrameAnalysisResult,
+  InspectionSource,
+  InspectionStatus,
+  OverallSeverity,
+} from "@shared/contract.ts";
+import type { ImageQuality } from "@shared/image-quality.ts";
+import { isViewpoint, type Viewpoint } from "@shared/viewpoints.ts";
+
+export interface InspectionSummary {
+  id: string;
+  createdAt: string;
+  source: InspectionSource;
+  status: InspectionStatus;
+  vehicleRef: string | null;
+  /** Set when the inspection is linked to a vehicle record. */
+  vehicleId: string | null;
+  overallSeverity: OverallSeverity | null;
+  damageCount: number;
+  estimatedCost: { min: number; max: number; currency: string };
+  /** Signed URL (or, for older rows, data URL) of the first image's thumbnail; null when none could be rendered. */
+  thumbnail: string | null;
+}
+
+export type InspectionSort = "newest" | "oldest" | "cost-desc" | "cost-asc";
+
+export interface InspectionFilters {
+  severity?: OverallSeverity | null;
+  /** Inclusive ISO dates (yyyy-mm-dd). */
+  from?: string | null;
+  to?: string | null;
+  /** Case-insensitive substring of the plate or VIN. */
+  vehicle?: string | null;
+  sort?: InspectionSort;
+}
+
+export interface InspectionPage {
+  items: InspectionSummary[];
+  total: number;
+}
+
+export const INSPECTIONS_PAGE_SIZE = 10;
+
+const SORT_COLUMNS: Record<InspectionSort, { column: string; ascending: boolean }> = {
+  newest: { column: "created_at", ascending: false },
+  oldest: { column: "created_at", ascending: true },
+  // USD equivalents, so estimates in different currencies sort together
+  "cost-desc": { column: "estimated_cost_max_usd", ascending: false },
+  "cost-asc": { column: "estimated_cost_max_usd", ascending: true },
+};
+
+/** Day after an inclusive end date, so the whole day matches. */
+const nextDay = (date: string) => {
+  const next = new Date(`${date}T00:00:00`);
+  next.setDate(next.getDate() + 1);
+  return next.toISOString();
+};
+
+/**
+ * Escapes the LIKE wildcards in user input. PostgREST reads `*` as `%` with no
+ * way to escape it, so it is narrowed to `_` (any one character).
+ */
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, (char) => `\\${char}`).replace(/\*/g, "_");
+
+/** Loads one page of inspections, newest first unless another sort is given. */
+export const listInspections = async (
+  { severity, from, to, vehicle, sort = "newest" }: InspectionFilters,
+  page: number,
+  pageSize = INSPECTIONS_PAGE_SIZE,
+): Promise<InspectionPage> => {
+  const { column, ascending } = SORT_COLUMNS[sort];
+  let query = supabase
+    .from("inspections")
+    .select(
+      "id, created_at, source, status, vehicle_ref, vehicle_id, overall_severity, damage_count, estimated_cost_min, estimated_cost_max, currency, inspection_media(thumbnail, thumbnail_path, position)",
+      { count: "exact" },
+    )
+    .order(column, { ascending })
+    .order("position", { referencedTable: "inspection_media", ascending: true })
+    .limit(1, { referencedTable: "inspection_media" })
+    .range(page * pageSize, page * pageSize + pageSize - 1);
+
+  if (severity) query = query.eq("overall_severity", severity);
+  if (from) query = query.gte("created_at", new Date(`${from}T00:00:00`).toISOString());
+  if (to) query = query.lt("created_at", nextDay(to));
+  if (vehicle?.trim()) query = query.ilike("vehicle_ref", `%${escapeLike(vehicle.trim())}%`);
+
+  const { data, error, count } = await query;
+  if (error) throw new Error(`Could not load inspections: ${error.message}`);
+  const urls = await signImagePaths((data ?? []).map((row) => row.inspection_media[0]?.thumbnail_path));
+
+  return {
+    total: count ?? 0,
+    items: (data ?? []).map((row) => ({
+      id: row.id,
+      createdAt: row.created_at,
+      source: row.source as InspectionSource,
+      status: row.status as InspectionStatus,
+      vehicleRef: row.vehicle_ref,
+      vehicleId: row.vehicle_id,
+      overallSeverity: row.overall_severity as OverallSeverity | null,
+      damageCount: row.damage_count,
+      estimatedCost: { min: row.estimated_cost_min, max: row.estimated_cost_max, currency: row.currency },
+      thumbnail: storedImage(urls, row.inspection_media[0]?.thumbnail_path ?? null, row.inspection_media[0]?.thumbnail ?? null),
+    })),
+  };
+};
+
+export interface InspectionMedia {
+  position: number;
+  status: "ok" | "error";
+  /** URLs of display-size copies of the original and annotated image; null when they could not be rendered. */
+  preview: string | null;
+  annotatedPreview: string | null;
+  /** This image's own analysis; null when it failed. */
+  result: AnalysisResult | null;
+  error: { error: string; code: string } | null;
+  /** Quality gate result the image was sent with; null when it was not measured. */
+  quality: ImageQuality | null;
+  /** When the camera took the photo (ISO 8601, camera local time), from its EXIF data. */
+  capturedAt: string | null;
+  /** Seconds into the video, for frames. */
+  timestamp: number | null;
+  /** Angle of a guided walk-around shot. */
+  viewpoint: Viewpoint | null;
+}
+
+export interface InspectionDetail extends Omit<InspectionSummary, "thumbnail"> {
+  region: string;
+  schemaVersion: string;
+  /** The single-image result, or the combined result of a multi-image or video inspection. */
+  result: AnalysisResult | Omit<CombinedAnalysisResult, "frameResults"> | null;
+  error: { error: string; code: string } | null;
+  media: InspectionMedia[];
+}
+
+/** Loads one inspection with its images, or null when it does not exist. */
+export const getInspection = async (id: string): Promise<InspectionDetail | null> => {
+  const { data: row, error } = await supabase
+    .from("inspections")
+    .select(
+      "id, created_at, source, status, schema_version, region, currency, vehicle_ref, vehicle_id, overall_severity, damage_count, estimated_cost_min, estimated_cost_max, result, error, inspection_media(position, status, preview, preview_path, annotated_preview, annotated_path, result, error, quality, captured_at, video_timestamp, viewpoint)",
+    )
+    .eq("id", id)
+    .order("position", { referencedTable: "inspection_media", ascending: true })
+    .maybeSingle();
+  if (error) throw new Error(`Could not load inspection: ${error.message}`);
+  if (!row) return null;
+  const urls = await signImagePaths(row.inspection_media.flatMap((media) => [media.preview_path, media.annotated_path]));
+
+  return {
+    id: row.id,
+    createdAt: row.created_at,
+    source: row.source as InspectionSource,
+    status: row.status as InspectionStatus,
+    schemaVersion: row.schema_version,
+    region: row.region,
+    vehicleRef: row.vehicle_ref,
+    vehicleId: row.vehicle_id,
+    overallSeverity: row.overall_severity as OverallSeverity | null,
+    damageCount: row.damage_count,
+    estimatedCost: { min: row.estimated_cost_min, max: row.estimated_cost_max, currency: row.currency },
+    result: row.result as unknown as InspectionDetail["result"],
+    error: row.error as InspectionDetail["error"],
+    media: row.inspection_media.map((media) => ({
+      position: media.position,
+      status: media.status as InspectionMedia["status"],
+      preview: storedImage(urls, media.preview_path, media.preview),
+      annotatedPreview: storedImage(urls, media.annotated_path, media.annotated_preview),
+      result: media.result as unknown as AnalysisResult | null,
+      error: media.error as InspectionMedia["error"],
+      quality: media.quality as unknown as ImageQuality | null,
+      capturedAt: media.captured_at,
+      timestamp: media.video_timestamp,
+      viewpoint: isViewpoint(media.viewpoint) ? media.viewpoint : null,
+    })),
+  };
+};
+
+/** Rebuilds the per-frame results a combined report lays out, from the stored images. */
+export const toFrameResults = (media: InspectionMedia[]): FrameAnalysisResult[] =>
+  media
+    .filter((item) => item.result && item.preview)
+    .map((item) => ({
+      ...item.result,
+      frameIndex: item.position,
+      frameImage: item.preview,
+      annotatedImage: item.annotatedPreview,
+      ...(item.timestamp !== null ? { timestamp: item.timestamp } : {}),
+      ...(item.viewpoint ? { viewpoint: item.viewpoint } : {}),
+    }));
+
+/** The latest earlier inspection of the same vehicle that produced a result, or null when there is none. */
+export const getPreviousInspectionId = async ({
+  id,
+  vehicleId,
+  createdAt,
+}: Pick<InspectionDetail, "id" | "vehicleId" | "createdAt">): Promise<string | null> => {
+  if (!vehicleId) return null;
+  const { data, error } = await supabase
+    .from("inspections")
+    .select("id")
+    .eq("vehicle_id", vehicleId)
+    .neq("status", "failed")
+    .neq("id", id)
+    .lt("created_at", createdAt)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw new Error(`Could not load the previous inspection: ${error.message}`);
+  return data?.id ?? null;
+};
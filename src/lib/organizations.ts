@@ -0,0 +1,41 @@
+import { supabase } from "@/integrations/supabase/client";
+import { isRole, type Role } from "@shared/roles.ts";
+
+export interface OrganizationMember {
+  userId: string;
+  email: string;
+  role: Role;
+  createdAt: string;
+}
+
+/** Creates an organization with the signed-in user as its admin. */
+export async function createOrganization(name: string): Promise<string> {
+  const { data, error } = await supabase.rpc("create_organization", { name: name.trim() });
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+/** Members of the caller's organization, oldest first. */
+export async function listMembers(): Promise<OrganizationMember[]> {
+  const { data, error } = await supabase.rpc("list_organization_members");
+  if (error) throw new Error(error.message);
+  return (data ?? [])
+    .filter((row) => isRole(row.role))
+    .map((row) => ({ userId: row.user_id, email: row.email, role: row.role as Role, createdAt: row.created_at }));
+}
+
+/** Adds a user who has already signed up; existing members are refused, use updateMemberRole for them. */
+export async function addMember(email: string, role: Role): Promise<void> {
+  const { error } = await supabase.rpc("add_organization_member", { email: email.trim(), role });
+  if (error) throw new Error(error.message);
+}
+
+export async function updateMemberRole(userId: string, role: Role): Promise<void> {
+  const { error } = await supabase.rpc("set_organization_member_role", { member_id: userId, role });
+  if (error) throw new Error(error.message);
+}
+
+export async function removeMember(userId: string): Promise<void> {
+  const { error } = await supabase.from("organization_members").delete().eq("user_id", userId);
+  if (error) throw new Error(error.message);
+}
@@ -0,0 +1,41 @@
+// Difference hash (dHash): the image averaged down to 9x8 grayscale cells,
+// one bit per pair of horizontal neighbours saying whether brightness rises.
+// Frames of the same view hash a few bits apart even after small camera moves,
+// exposure changes or re-encoding.
+
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+/** 64 bits, one per byte, so hashes compare with a plain loop. */
+export type PerceptualHash = Uint8Array;
+
+/** Hashes RGBA pixels, such as a downscaled sample of a frame. */
+export const differenceHash = ({ data, width, height }: Pick<ImageData, "data" | "width" | "height">): PerceptualHash => {
+  const cells = new Float64Array(HASH_WIDTH * HASH_HEIGHT);
+  const counts = new Uint32Array(HASH_WIDTH * HASH_HEIGHT);
+  for (let y = 0; y < height; y++) {
+    const row = Math.min(HASH_HEIGHT - 1, Math.floor((y * HASH_HEIGHT) / height));
+    for (let x = 0; x < width; x++) {
+      const cell = row * HASH_WIDTH + Math.min(HASH_WIDTH - 1, Math.floor((x * HASH_WIDTH) / width));
+      const i = (y * width + x) * 4;
+      cells[cell] += 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+      counts[cell]++;
+    }
+  }
+  const mean = (cell: number) => (counts[cell] ? cells[cell] / counts[cell] : 0);
+
+  const bits = new Uint8Array((HASH_WIDTH - 1) * HASH_HEIGHT);
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      bits[y * (HASH_WIDTH - 1) + x] = mean(y * HASH_WIDTH + x + 1) > mean(y * HASH_WIDTH + x) ? 1 : 0;
+    }
+  }
+  return bits;
+};
+
+/** Number of differing bits; 0 for identical views, around 32 for unrelated ones. */
+export const hammingDistance = (a: PerceptualHash, b: PerceptualHash) => {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) if (a[i] !== b[i]) distance++;
+  return distance;
+};
@@ -0,0 +1,603 @@
+import jsPDF from "jspdf";
+import type { AnalysisResult, CombinedAnalysisResult } from "@shared/contract.ts";
+import type { ComparedDamage, DamageDeltaReport } from "@shared/comparison.ts";
+import { describeDamageLocation } from "@shared/parts.ts";
+import { formatTimestamp } from "@/lib/video-frames";
+import { VIEWPOINT_LABELS } from "@shared/viewpoints.ts";
+
+export interface ReportOptions {
+  /** Formats an amount for print, e.g. with the currency code rather than a symbol the PDF fonts lack. */
+  formatAmount: (amount: number, currency: string) => string;
+  /** Date printed in the header; defaults to now. */
+  generatedAt?: Date;
+}
+
+/** Lays out the single-image damage report. `image` is used when the result has no annotated image. */
+export const buildDamageReport = (
+  result: AnalysisResult,
+  image: string,
+  { formatAmount, generatedAt = new Date() }: ReportOptions,
+): jsPDF => {
+  const pdf = new jsPDF("p", "mm", "a4");
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const margin = 15;
+  let yPosition = margin;
+
+  // Header
+  pdf.setFillColor(37, 99, 235);
+  pdf.rect(0, 0, pageWidth, 35, "F");
+  pdf.setTextColor(255, 255, 255);
+  pdf.setFontSize(22);
+  pdf.setFont("helvetica", "bold");
+  pdf.text("Vehicle Damage Analysis Report", margin, 22);
+
+  // Date
+  pdf.setFontSize(10);
+  pdf.setFont("helvetica", "normal");
+  pdf.text(`Generated: ${generatedAt.toLocaleString("en-IN")}`, pageWidth - margin - 60, 22);
+
+  yPosition = 45;
+  pdf.setTextColor(0, 0, 0);
+
+  // Vehicle Image (annotated if available)
+  const imageToUse = result.annotatedImage || image;
+  try {
+    const imgData = imageToUse;
+    const imgWidth = pageWidth - (margin * 2);
+    const imgHeight = 70;
+    pdf.addImage(imgData, "JPEG", margin, yPosition, imgWidth, imgHeight, undefined, "MEDIUM");
+    yPosition += imgHeight + 10;
+  } catch (imgError) {
+    console.error("Error adding image to PDF:", imgError);
+    yPosition += 10;
+  }
+
+  // Summary Section
+  pdf.setFillColor(240, 240, 240);
+  pdf.rect(margin, yPosition, pageWidth - (margin * 2), 25, "F");
+  pdf.setFontSize(12);
+  pdf.setFont("helvetica", "bold");
+  pdf.text("Summary", margin + 5, yPosition + 8);
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(10);
+
+  const summaryLines = pdf.splitTextToSize(result.summary, pageWidth - (margin * 2) - 10);
+  pdf.text(summaryLines, margin + 5, yPosition + 16);
+  yPosition += 30;
+
+  // Stats Row
+  const boxWidth = (pageWidth - (margin * 2) - 10) / 3;
+
+  // Damages Found
+  pdf.setFillColor(254, 243, 199);
+  pdf.rect(margin, yPosition, boxWidth, 20, "F");
+  pdf.setFontSize(8);
+  pdf.setTextColor(146, 64, 14);
+  pdf.text("Damages Found", margin + boxWidth/2, yPosition + 6, { align: "center" });
+  pdf.setFontSize(14);
+  pdf.setFont("helvetica", "bold");
+  pdf.text(String(result.damages.length), margin + boxWidth/2, yPosition + 15, { align: "center" });
+
+  // Confidence
+  pdf.setFillColor(219, 234, 254);
+  pdf.rect(margin + boxWidth + 5, yPosition, boxWidth, 20, "F");
+  pdf.setFontSize(8);
+  pdf.setTextColor(30, 64, 175);
+  pdf.setFont("helvetica", "normal");
+  pdf.text("Confidence", margin + boxWidth + 5 + boxWidth/2, yPosition + 6, { align: "center" });
+  pdf.setFontSize(14);
+  pdf.setFont("helvetica", "bold");
+  pdf.text(`${result.confidenceScore}%`, margin + boxWidth + 5 + boxWidth/2, yPosition + 15, { align: "center" });
+
+  // Severity
+  const severityColor = result.overallSeverity === "Severe" ? [254, 202, 202] :
+                       result.overallSeverity === "Moderate" ? [254, 243, 199] : [209, 250, 229];
+  const severityTextColor = result.overallSeverity === "Severe" ? [153, 27, 27] :
+                            result.overallSeverity === "Moderate" ? [146, 64, 14] : [22, 101, 52];
+  pdf.setFillColor(severityColor[0], severityColor[1], severityColor[2]);
+  pdf.rect(margin + (boxWidth * 2) + 10, yPosition, boxWidth, 20, "F");
+  pdf.setFontSize(8);
+  pdf.setTextColor(severityTextColor[0], severityTextColor[1], severityTextColor[2]);
+  pdf.setFont("helvetica", "normal");
+  pdf.text("Overall Severity", margin + (boxWidth * 2) + 10 + boxWidth/2, yPosition + 6, { align: "center" });
+  pdf.setFontSize(14);
+  pdf.setFont("helvetica", "bold");
+  pdf.text(result.overallSeverity, margin + (boxWidth * 2) + 10 + boxWidth/2, yPosition + 15, { align: "center" });
+
+  yPosition += 28;
+  pdf.setTextColor(0, 0, 0);
+
+  // Estimated Repair Cost
+  if (result.estimatedRepairCost && result.estimatedRepairCost.max > 0) {
+    pdf.setFillColor(220, 252, 231);
+    pdf.rect(margin, yPosition, pageWidth - (margin * 2), 15, "F");
+    pdf.setFontSize(10);
+    pdf.setFont("helvetica", "bold");
+    pdf.setTextColor(22, 101, 52);
+    const costText = `Estimated Repair Cost: ${formatAmount(result.estimatedRepairCost.min, result.estimatedRepairCost.currency)} - ${formatAmount(result.estimatedRepairCost.max, result.estimatedRepairCost.currency)}`;
+    pdf.text(costText, pageWidth / 2, yPosition + 10, { align: "center" });
+    yPosition += 22;
+  }
+
+  pdf.setTextColor(0, 0, 0);
+
+  // Damage Details
+  if (result.damages.length > 0) {
+    pdf.setFontSize(14);
+    pdf.setFont("helvetica", "bold");
+    pdf.text("Damage Details", margin, yPosition);
+    yPosition += 8;
+
+    result.damages.forEach((damage, index) => {
+      if (yPosition > pageHeight - 40) {
+        pdf.addPage();
+        yPosition = margin;
+      }
+
+      const damageBoxColor = damage.severity === "Severe" ? [254, 226, 226] :
+                             damage.severity === "Moderate" ? [254, 249, 195] : [220, 252, 231];
+      pdf.setFillColor(damageBoxColor[0], damageBoxColor[1], damageBoxColor[2]);
+      pdf.rect(margin, yPosition, pageWidth - (margin * 2), 22, "F");
+
+      pdf.setFontSize(11);
+      pdf.setFont("helvetica", "bold");
+      pdf.setTextColor(0, 0, 0);
+      pdf.text(`${index + 1}. ${damage.type}`, margin + 5, yPosition + 7);
+
+      const severityBadge = damage.severity;
+      pdf.setFontSize(8);
+      pdf.text(`[${severityBadge}]`, pageWidth - margin - 20, yPosition + 7);
+
+      pdf.setFontSize(9);
+      pdf.setFont("helvetica", "normal");
+      pdf.setTextColor(80, 80, 80);
+      pdf.text(`Location: ${describeDamageLocation(damage)}`, margin + 5, yPosition + 14);
+
+      const descLines = pdf.splitTextToSize(damage.description, pageWidth - (margin * 2) - 10);
+      pdf.text(descLines[0] || "", margin + 5, yPosition + 20);
+
+      yPosition += 26;
+    });
+  }
+
+  // Cost Breakdown
+  const lineItems = result.estimatedRepairCost?.lineItems ?? [];
+  if (lineItems.length > 0) {
+    if (yPosition > pageHeight - 40) {
+      pdf.addPage();
+      yPosition = margin;
+    }
+
+    yPosition += 5;
+    pdf.setFontSize(14);
+    pdf.setFont("helvetica", "bold");
+    pdf.setTextColor(0, 0, 0);
+    pdf.text("Cost Breakdown", margin, yPosition);
+    yPosition += 8;
+
+    lineItems.forEach((item) => {
+      if (yPosition > pageHeight - 20) {
+        pdf.addPage();
+        yPosition = margin;
+      }
+      const amount = item.min === item.max
+        ? formatAmount(item.min, result.estimatedRepairCost.currency)
+        : `${formatAmount(item.min, result.estimatedRepairCost.currency)} - ${formatAmount(item.max, result.estimatedRepairCost.currency)}`;
+      pdf.setFontSize(9);
+      pdf.setFont("helvetica", "normal");
+      pdf.setTextColor(60, 60, 60);
+      pdf.text(`${item.damageIndex + 1}. [${item.category}] ${item.description}`, margin + 5, yPosition);
+      pdf.text(amount, pageWidth - margin, yPosition, { align: "right" });
+      yPosition += 6;
+    });
+  }
+
+  // Recommendations
+  if (result.recommendations && result.recommendations.length > 0) {
+    if (yPosition > pageHeight - 50) {
+      pdf.addPage();
+      yPosition = margin;
+    }
+
+    yPosition += 5;
+    pdf.setFontSize(14);
+    pdf.setFont("helvetica", "bold");
+    pdf.setTextColor(0, 0, 0);
+    pdf.text("Recommendations", margin, yPosition);
+    yPosition += 8;
+
+    result.recommendations.forEach((rec, index) => {
+      if (yPosition > pageHeight - 20) {
+        pdf.addPage();
+        yPosition = margin;
+      }
+      pdf.setFontSize(10);
+      pdf.setFont("helvetica", "normal");
+      pdf.setTextColor(60, 60, 60);
+      const recLines = pdf.splitTextToSize(`• ${rec}`, pageWidth - (margin * 2));
+      pdf.text(recLines, margin + 5, yPosition);
+      yPosition += recLines.length * 5 + 3;
+    });
+  }
+
+  // Footer
+  pdf.setFontSize(8);
+  pdf.setTextColor(150, 150, 150);
+  pdf.text("Generated by DamageDetect AI - Vehicle Damage Analysis System", pageWidth / 2, pageHeight - 10, { align: "center" });
+
+  return pdf;
+};
+
+/** Lays out the multi-image or video report, with one tile per analyzed image or frame. */
+export const buildCombinedReport = (
+  result: CombinedAnalysisResult,
+  source: "multi-image" | "video",
+  { formatAmount, generatedAt = new Date() }: ReportOptions,
+): jsPDF => {
+  const pdf = new jsPDF("p", "mm", "a4");
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const margin = 15;
+  let yPosition = margin;
+
+  // Header
+  pdf.setFillColor(37, 99, 235);
+  pdf.rect(0, 0, pageWidth, 35, "F");
+  pdf.setTextColor(255, 255, 255);
+  pdf.setFontSize(20);
+  pdf.setFont("helvetica", "bold");
+  pdf.text("Comprehensive Video Damage Analysis", margin, 18);
+  pdf.setFontSize(10);
+  pdf.setFont("helvetica", "normal");
+  pdf.text(`${result.totalFramesAnalyzed} Frames Analyzed`, margin, 28);
+  pdf.text(`Generated: ${generatedAt.toLocaleString("en-IN")}`, pageWidth - margin - 60, 28);
+
+  yPosition = 45;
+  pdf.setTextColor(0, 0, 0);
+
+  // Summary Section
+  pdf.setFillColor(240, 240, 240);
+  pdf.rect(margin, yPosition, pageWidth - (margin * 2), 35, "F");
+  pdf.setFontSize(12);
+  pdf.setFont("helvetica", "bold");
+  pdf.text("Summary", margin + 5, yPosition + 8);
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(9);
+
+  const summaryLines = pdf.splitTextToSize(result.summary, pageWidth - (margin * 2) - 10);
+  pdf.text(summaryLines, margin + 5, yPosition + 16);
+  yPosition += 42;
+
+  // Stats Row
+  const boxWidth = (pageWidth - (margin * 2) - 15) / 4;
+
+  // Frames Analyzed
+  pdf.setFillColor(219, 234, 254);
+  pdf.rect(margin, yPosition, boxWidth, 20, "F");
+  pdf.setFontSize(7);
+  pdf.setTextColor(30, 64, 175);
+  pdf.text("Frames Analyzed", margin + boxWidth/2, yPosition + 6, { align: "center" });
+  pdf.setFontSize(12);
+  pdf.setFont("helvetica", "bold");
+  pdf.text(String(result.totalFramesAnalyzed), margin + boxWidth/2, yPosition + 15, { align: "center" });
+
+  // Frames with Damage
+  pdf.setFillColor(254, 243, 199);
+  pdf.rect(margin + boxWidth + 5, yPosition, boxWidth, 20, "F");
+  pdf.setFontSize(7);
+  pdf.setTextColor(146, 64, 14);
+  pdf.setFont("helvetica", "normal");
+  pdf.text("Frames w/ Damage", margin + boxWidth + 5 + boxWidth/2, yPosition + 6, { align: "center" });
+  pdf.setFontSize(12);
+  pdf.setFont("helvetica", "bold");
+  pdf.text(String(result.framesWithDamage), margin + boxWidth + 5 + boxWidth/2, yPosition + 15, { align: "center" });
+
+  // Distinct Damages
+  pdf.setFillColor(254, 226, 226);
+  pdf.rect(margin + (boxWidth * 2) + 10, yPosition, boxWidth, 20, "F");
+  pdf.setFontSize(7);
+  pdf.setTextColor(153, 27, 27);
+  pdf.setFont("helvetica", "normal");
+  pdf.text("Distinct Damages", margin + (boxWidth * 2) + 10 + boxWidth/2, yPosition + 6, { align: "center" });
+  pdf.setFontSize(12);
+  pdf.setFont("helvetica", "bold");
+  pdf.text(String(result.distinctDamages.length), margin + (boxWidth * 2) + 10 + boxWidth/2, yPosition + 15, { align: "center" });
+
+  // Avg Confidence
+  pdf.setFillColor(220, 252, 231);
+  pdf.rect(margin + (boxWidth * 3) + 15, yPosition, boxWidth, 20, "F");
+  pdf.setFontSize(7);
+  pdf.setTextColor(22, 101, 52);
+  pdf.setFont("helvetica", "normal");
+  pdf.text("Avg Confidence", margin + (boxWidth * 3) + 15 + boxWidth/2, yPosition + 6, { align: "center" });
+  pdf.setFontSize(12);
+  pdf.setFont("helvetica", "bold");
+  pdf.text(`${result.averageConfidence}%`, margin + (boxWidth * 3) + 15 + boxWidth/2, yPosition + 15, { align: "center" });
+
+  yPosition += 28;
+  pdf.setTextColor(0, 0, 0);
+
+  // Overall Severity & Repair Cost
+  const severityColor = result.overallSeverity === "Severe" ? [254, 202, 202] :
+                       result.overallSeverity === "Moderate" ? [254, 243, 199] : [209, 250, 229];
+  pdf.setFillColor(severityColor[0], severityColor[1], severityColor[2]);
+  pdf.rect(margin, yPosition, (pageWidth - (margin * 2)) / 2 - 3, 18, "F");
+  pdf.setFontSize(9);
+  pdf.setFont("helvetica", "normal");
+  pdf.setTextColor(0, 0, 0);
+  pdf.text("Overall Severity:", margin + 5, yPosition + 7);
+  pdf.setFont("helvetica", "bold");
+  pdf.text(result.overallSeverity, margin + 5, yPosition + 14);
+
+  if (result.estimatedRepairCost && result.estimatedRepairCost.max > 0) {
+    pdf.setFillColor(220, 252, 231);
+    pdf.rect(margin + (pageWidth - (margin * 2)) / 2 + 3, yPosition, (pageWidth - (margin * 2)) / 2 - 3, 18, "F");
+    pdf.setFontSize(9);
+    pdf.setFont("helvetica", "normal");
+    pdf.setTextColor(22, 101, 52);
+    pdf.text("Estimated Repair Cost:", margin + (pageWidth - (margin * 2)) / 2 + 8, yPosition + 7);
+    pdf.setFont("helvetica", "bold");
+    const costText = `${formatAmount(result.estimatedRepairCost.min, result.estimatedRepairCost.currency)} - ${formatAmount(result.estimatedRepairCost.max, result.estimatedRepairCost.currency)}`;
+    pdf.text(costText, margin + (pageWidth - (margin * 2)) / 2 + 8, yPosition + 14);
+  }
+
+  yPosition += 25;
+  pdf.setTextColor(0, 0, 0);
+
+  // Unique Damage Types
+  if (result.uniqueDamageTypes.length > 0) {
+    pdf.setFontSize(11);
+    pdf.setFont("helvetica", "bold");
+    pdf.text("Damage Types Detected", margin, yPosition);
+    yPosition += 6;
+    pdf.setFontSize(9);
+    pdf.setFont("helvetica", "normal");
+    pdf.text(result.uniqueDamageTypes.join(", "), margin + 5, yPosition);
+    yPosition += 8;
+  }
+
+  // Affected Areas
+  if (result.affectedAreas.length > 0) {
+    pdf.setFontSize(11);
+    pdf.setFont("helvetica", "bold");
+    pdf.text("Affected Areas", margin, yPosition);
+    yPosition += 6;
+    pdf.setFontSize(9);
+    pdf.setFont("helvetica", "normal");
+    pdf.text(result.affectedAreas.join(", "), margin + 5, yPosition);
+    yPosition += 12;
+  }
+
+  // Distinct Damage Details
+  if (result.distinctDamages.length > 0) {
+    const frameLabel = source === "multi-image" ? "Images" : "Frames";
+    pdf.setFontSize(12);
+    pdf.setFont("helvetica", "bold");
+    pdf.text("Distinct Damages", margin, yPosition);
+    yPosition += 7;
+
+    result.distinctDamages.forEach((damage, index) => {
+      if (yPosition > pageHeight - 35) {
+        pdf.addPage();
+        yPosition = margin;
+      }
+
+      const damageBoxColor = damage.severity === "Severe" ? [254, 226, 226] :
+                             damage.severity === "Moderate" ? [254, 249, 195] : [220, 252, 231];
+      pdf.setFillColor(damageBoxColor[0], damageBoxColor[1], damageBoxColor[2]);
+      pdf.rect(margin, yPosition, pageWidth - (margin * 2), 18, "F");
+
+      pdf.setFontSize(10);
+      pdf.setFont("helvetica", "bold");
+      pdf.setTextColor(0, 0, 0);
+      pdf.text(`${index + 1}. ${damage.type} (${frameLabel} ${damage.supportingFrames.map(f => f + 1).join(", ")})`, margin + 5, yPosition + 6);
+
+      pdf.setFontSize(8);
+      pdf.text(`[${damage.severity}]`, pageWidth - margin - 20, yPosition + 6);
+
+      pdf.setFontSize(8);
+      pdf.setFont("helvetica", "normal");
+      pdf.setTextColor(80, 80, 80);
+      pdf.text(`Location: ${describeDamageLocation(damage)}`, margin + 5, yPosition + 12);
+
+      const descLines = pdf.splitTextToSize(damage.description, pageWidth - (margin * 2) - 10);
+      pdf.text(descLines[0] || "", margin + 5, yPosition + 16);
+
+      if (damage.estimatedRepairCost.max > 0) {
+        pdf.text(
+          `${formatAmount(damage.estimatedRepairCost.min, damage.estimatedRepairCost.currency)} - ${formatAmount(damage.estimatedRepairCost.max, damage.estimatedRepairCost.currency)}`,
+          pageWidth - margin - 5,
+          yPosition + 12,
+          { align: "right" },
+        );
+      }
+
+      yPosition += 22;
+    });
+  }
+
+  // Recommendations
+  if (result.recommendations && result.recommendations.length > 0) {
+    if (yPosition > pageHeight - 50) {
+      pdf.addPage();
+      yPosition = margin;
+    }
+
+    yPosition += 3;
+    pdf.setFontSize(12);
+    pdf.setFont("helvetica", "bold");
+    pdf.setTextColor(0, 0, 0);
+    pdf.text("Recommendations", margin, yPosition);
+    yPosition += 7;
+
+    result.recommendations.forEach((rec) => {
+      if (yPosition > pageHeight - 20) {
+        pdf.addPage();
+        yPosition = margin;
+      }
+      pdf.setFontSize(9);
+      pdf.setFont("helvetica", "normal");
+      pdf.setTextColor(60, 60, 60);
+      const recLines = pdf.splitTextToSize(`• ${rec}`, pageWidth - (margin * 2));
+      pdf.text(recLines, margin + 5, yPosition);
+      yPosition += recLines.length * 4 + 3;
+    });
+  }
+
+  // Frame-by-Frame Images (new page)
+  pdf.addPage();
+  yPosition = margin;
+  pdf.setFontSize(14);
+  pdf.setFont("helvetica", "bold");
+  pdf.setTextColor(0, 0, 0);
+  pdf.text("Frame-by-Frame Analysis", margin, yPosition);
+  yPosition += 10;
+
+  const framesPerRow = 2;
+  const frameImgWidth = (pageWidth - (margin * 2) - 10) / framesPerRow;
+  const frameImgHeight = 45;
+
+  for (let i = 0; i < result.frameResults.length; i++) {
+    const frame = result.frameResults[i];
+    const col = i % framesPerRow;
+    const xPos = margin + col * (frameImgWidth + 10);
+
+    if (col === 0 && i > 0) {
+      yPosition += frameImgHeight + 20;
+    }
+
+    if (yPosition + frameImgHeight > pageHeight - 20) {
+      pdf.addPage();
+      yPosition = margin;
+    }
+
+    try {
+      const imgToUse = frame.annotatedImage || frame.frameImage;
+      pdf.addImage(imgToUse, "JPEG", xPos, yPosition, frameImgWidth, frameImgHeight, undefined, "MEDIUM");
+
+      pdf.setFontSize(8);
+      pdf.setFont("helvetica", "bold");
+      const frameTime = frame.timestamp !== undefined ? ` (${formatTimestamp(frame.timestamp)})` : "";
+      const caption = frame.viewpoint ? VIEWPOINT_LABELS[frame.viewpoint] : `Frame ${frame.frameIndex + 1}${frameTime}`;
+      pdf.text(caption, xPos, yPosition + frameImgHeight + 5);
+      pdf.setFont("helvetica", "normal");
+      const frameInfo = frame.hasDamage
+        ? `${frame.damages.length} damage(s) - ${frame.overallSeverity}`
+        : "No damage";
+      pdf.text(frameInfo, xPos, yPosition + frameImgHeight + 9);
+    } catch (imgError) {
+      console.error("Error adding frame image:", imgError);
+    }
+  }
+
+  // Footer
+  pdf.setFontSize(8);
+  pdf.setTextColor(150, 150, 150);
+  pdf.text("Generated by DamageDetect AI - Comprehensive Video Analysis", pageWidth / 2, pageHeight - 10, { align: "center" });
+
+  return pdf;
+};
+
+/** Lays out a before/after delta report: new damages first, then existing and repaired ones. */
+export const buildDeltaReport = (
+  report: DamageDeltaReport,
+  inspections: { before: Date; after: Date },
+  { formatAmount, generatedAt = new Date() }: ReportOptions,
+): jsPDF => {
+  const pdf = new jsPDF("p", "mm", "a4");
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const margin = 15;
+  let yPosition = margin;
+
+  // Header
+  pdf.setFillColor(37, 99, 235);
+  pdf.rect(0, 0, pageWidth, 35, "F");
+  pdf.setTextColor(255, 255, 255);
+  pdf.setFontSize(20);
+  pdf.setFont("helvetica", "bold");
+  pdf.text("Before / After Damage Comparison", margin, 18);
+  pdf.setFontSize(10);
+  pdf.setFont("helvetica", "normal");
+  pdf.text(
+    `Before: ${inspections.before.toLocaleString("en-IN")}   After: ${inspections.after.toLocaleString("en-IN")}`,
+    margin,
+    28,
+  );
+  pdf.text(`Generated: ${generatedAt.toLocaleString("en-IN")}`, pageWidth - margin - 60, 18);
+
+  yPosition = 45;
+
+  // New damage cost
+  const flagged = report.new.length > 0;
+  const statusColor = flagged ? [254, 226, 226] : [220, 252, 231];
+  pdf.setFillColor(statusColor[0], statusColor[1], statusColor[2]);
+  pdf.rect(margin, yPosition, pageWidth - (margin * 2), 18, "F");
+  pdf.setFontSize(11);
+  pdf.setFont("helvetica", "bold");
+  pdf.setTextColor(0, 0, 0);
+  pdf.text(flagged ? `${report.new.length} new damage(s) found` : "No new damage found", margin + 5, yPosition + 8);
+  if (report.newDamageCost.max > 0) {
+    pdf.setFontSize(9);
+    pdf.setFont("helvetica", "normal");
+    pdf.text(
+      `Estimated repair cost of new damage: ${formatAmount(report.newDamageCost.min, report.newDamageCost.currency)} - ${formatAmount(report.newDamageCost.max, report.newDamageCost.currency)}`,
+      margin + 5,
+      yPosition + 14,
+    );
+  }
+  yPosition += 26;
+
+  const section = (title: string, damages: ComparedDamage[], note?: (index: number) => string) => {
+    if (yPosition > pageHeight - 30) {
+      pdf.addPage();
+      yPosition = margin;
+    }
+    pdf.setFontSize(13);
+    pdf.setFont("helvetica", "bold");
+    pdf.setTextColor(0, 0, 0);
+    pdf.text(`${title} (${damages.length})`, margin, yPosition);
+    yPosition += 7;
+
+    damages.forEach((damage, index) => {
+      if (yPosition > pageHeight - 20) {
+        pdf.addPage();
+        yPosition = margin;
+      }
+      pdf.setFontSize(9);
+      pdf.setFont("helvetica", "normal");
+      pdf.setTextColor(60, 60, 60);
+      pdf.text(`• ${damage.type} on ${describeDamageLocation(damage)} [${damage.severity}]${note ? ` ${note(index)}` : ""}`, margin + 5, yPosition);
+      if (damage.estimatedRepairCost.max > 0) {
+        pdf.text(
+          `${formatAmount(damage.estimatedRepairCost.min, damage.estimatedRepairCost.currency)} - ${formatAmount(damage.estimatedRepairCost.max, damage.estimatedRepairCost.currency)}`,
+          pageWidth - margin,
+          yPosition,
+          { align: "right" },
+        );
+      }
+      yPosition += 6;
+    });
+    yPosition += 6;
+  };
+
+  section("New damage", report.new);
+  section(
+    "Existing damage",
+    report.existing.map(({ after }) => after),
+    (index) => (report.existing[index].severityChange === "unchanged" ? "" : `(was ${report.existing[index].before.severity})`),
+  );
+  section("Repaired", report.repaired);
+
+  // Footer
+  pdf.setFontSize(8);
+  pdf.setTextColor(150, 150, 150);
+  pdf.text("Generated by DamageDetect AI - Vehicle Damage Analysis System", pageWidth / 2, pageHeight - 10, { align: "center" });
+
+  return pdf;
+};
+
+/** File name for a report, e.g. damage-report-2026-10-19.pdf. */
+export const reportFileName = (prefix: string, date = new Date()) =>
+  `${prefix}-${date.toISOString().split("T")[0]}.pdf`;
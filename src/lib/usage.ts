@@ -0,0 +1,66 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface MemberUsage {
+  userId: string;
+  creditsUsed: number;
+  requests: number;
+}
+
+export interface UsageMonth {
+  /** First day of the month (UTC), as yyyy-mm-dd. */
+  period: string;
+  creditsUsed: number;
+  requests: number;
+  /** Heaviest users first. */
+  byMember: MemberUsage[];
+}
+
+export interface OrganizationUsage {
+  monthlyCredits: number;
+  /** Newest month first; months without any analyses are left out. */
+  months: UsageMonth[];
+}
+
+export const USAGE_HISTORY_MONTHS = 12;
+
+/** First day of the current month in UTC, matching how the database counts credits. */
+export const currentPeriod = (now = new Date()) =>
+  new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString().slice(0, 10);
+
+/** When the credits counted in `period` stop applying. */
+export const periodResetsAt = (period: string) => {
+  const start = new Date(`${period}T00:00:00Z`);
+  return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1));
+};
+
+/** Credit allowance and monthly consumption of an organization, read under row-level security. */
+export async function getOrganizationUsage(organizationId: string): Promise<OrganizationUsage> {
+  const now = new Date();
+  const since = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - (USAGE_HISTORY_MONTHS - 1), 1));
+
+  const [organization, usage] = await Promise.all([
+    supabase.from("organizations").select("monthly_credits").eq("id", organizationId).single(),
+    supabase
+      .from("organization_usage")
+      .select("period_start, user_id, credits_used, request_count")
+      .eq("organization_id", organizationId)
+      .gte("period_start", since.toISOString().slice(0, 10))
+      .order("period_start", { ascending: false }),
+  ]);
+  if (organization.error) throw new Error(organization.error.message);
+  if (usage.error) throw new Error(usage.error.message);
+
+  const months = new Map<string, UsageMonth>();
+  for (const row of usage.data ?? []) {
+    const month = months.get(row.period_start) ?? { period: row.period_start, creditsUsed: 0, requests: 0, byMember: [] };
+    month.creditsUsed += row.credits_used;
+    month.requests += row.request_count;
+    month.byMember.push({ userId: row.user_id, creditsUsed: row.credits_used, requests: row.request_count });
+    months.set(row.period_start, month);
+  }
+  for (const month of months.values()) {
+    month.byMember.sort((a, b) => b.creditsUsed - a.creditsUsed);
+  }
+
+  return { monthlyCredits: organization.data.monthly_credits, months: [...months.values()] };
+}
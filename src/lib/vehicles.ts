@@ -0,0 +1,94 @@
+import { supabase } from "@/integrations/supabase/client";
+import { signImagePaths, storedImage } from "@/lib/image-storage";
+import type { TimelineInspection, TrackedDamage } from "@shared/damage-tracking.ts";
+import type { InspectionSource, InspectionStatus, OverallSeverity } from "@shared/contract.ts";
+import { isViewpoint, type Viewpoint } from "@shared/viewpoints.ts";
+
+export interface Vehicle {
+  id: string;
+  createdAt: string;
+  vin: string | null;
+  plate: string | null;
+  make: string | null;
+  model: string | null;
+  year: number | null;
+  color: string | null;
+}
+
+export interface VehicleFinding extends TrackedDamage {
+  description: string;
+}
+
+export interface VehicleInspection extends TimelineInspection<VehicleFinding> {
+  source: InspectionSource;
+  status: InspectionStatus;
+  overallSeverity: OverallSeverity | null;
+  estimatedCost: { min: number; max: number; currency: string };
+  thumbnail: string | null;
+}
+
+export interface VehicleHistory {
+  vehicle: Vehicle;
+  /** Oldest first. */
+  inspections: VehicleInspection[];
+}
+
+/** Loads a vehicle with every inspection linked to it and their findings, or null when it does not exist. */
+export const getVehicleHistory = async (id: string): Promise<VehicleHistory | null> => {
+  const { data: row, error } = await supabase
+    .from("vehicles")
+    .select(
+      "id, created_at, vin, plate, make, model, year, color, inspections(id, created_at, source, status, overall_severity, estimated_cost_min, estimated_cost_max, currency, damage_findings(position, type, part, location, severity, description), inspection_media(thumbnail, thumbnail_path, position), shots:inspection_media(status, viewpoint))",
+    )
+    .eq("id", id)
+    .order("created_at", { referencedTable: "inspections", ascending: true })
+    .order("position", { referencedTable: "inspections.inspection_media", ascending: true })
+    .limit(1, { referencedTable: "inspections.inspection_media" })
+    .maybeSingle();
+  if (error) throw new Error(`Could not load vehicle: ${error.message}`);
+  if (!row) return null;
+  const urls = await signImagePaths(row.inspections.map((inspection) => inspection.inspection_media[0]?.thumbnail_path));
+
+  return {
+    vehicle: {
+      id: row.id,
+      createdAt: row.created_at,
+      vin: row.vin,
+      plate: row.plate,
+      make: row.make,
+      model: row.model,
+      year: row.year,
+      color: row.color,
+    },
+    inspections: row.inspections.map((inspection) => ({
+      id: inspection.id,
+      createdAt: inspection.created_at,
+      source: inspection.source as InspectionSource,
+      status: inspection.status as InspectionStatus,
+      overallSeverity: inspection.overall_severity as OverallSeverity | null,
+      estimatedCost: {
+        min: inspection.estimated_cost_min,
+        max: inspection.estimated_cost_max,
+        currency: inspection.currency,
+      },
+      thumbnail: storedImage(
+        urls,
+        inspection.inspection_media[0]?.thumbnail_path ?? null,
+        inspection.inspection_media[0]?.thumbnail ?? null,
+      ),
+      damages: [...inspection.damage_findings]
+        .sort((a, b) => a.position - b.position)
+        .map((finding) => ({
+          type: finding.type as VehicleFinding["type"],
+          part: finding.part as VehicleFinding["part"],
+          location: finding.location,
+          severity: finding.severity as VehicleFinding["severity"],
+          description: finding.description,
+        })),
+      viewpoints: inspection.shots
+        .filter((shot) => shot.status === "ok")
+        .map((shot) => shot.viewpoint)
+        .filter((viewpoint): viewpoint is Viewpoint => isViewpoint(viewpoint)),
+    })),
+  };
+};
@@ -0,0 +1,332 @@
+// Picks the frames of a video worth analyzing. The <video> element is seeked
+// to each candidate time, which leaves decoding to the browser's media
+// pipeline; there is no demuxer here to feed WebCodecs' VideoDecoder directly.
+// Each decoded frame is handed to a worker (see frame-worker.ts) as a
+// VideoFrame, or an ImageBitmap where WebCodecs is missing, and scored and
+// encoded there on an OffscreenCanvas. Browsers without workers or
+// OffscreenCanvas encoding do the same work on the main thread.
+import { getPreprocessOptions, numberFromEnv, preprocessVideoFrame, type PreprocessedImage, type PreprocessOptions } from "@/lib/image-preprocess";
+import { measurePixels, sampleImage } from "@/lib/image-quality";
+import { differenceHash, hammingDistance, type PerceptualHash } from "@/lib/perceptual-hash";
+import { MAX_BATCH_SIZE } from "@shared/contract.ts";
+
+/** How many frames to take: a fixed number spread over the video, or a rate. */
+export type FrameSampling = { mode: "count"; count: number } | { mode: "fps"; fps: number };
+
+export interface FrameExtractionOptions {
+  sampling: FrameSampling;
+  /** Frames scored in each segment; the sharpest one is kept. */
+  candidatesPerSegment: number;
+  /** Kept frames whose hashes differ in this many bits or fewer count as the same view. */
+  duplicateDistance: number;
+}
+
+/** A preprocessed frame and where in the video it was taken. */
+export interface ExtractedFrame extends PreprocessedImage {
+  /** Seconds from the start of the video. */
+  timestamp: number;
+}
+
+export const FRAME_SAMPLING_PRESETS: FrameSampling[] = [
+  { mode: "count", count: 6 },
+  { mode: "count", count: 10 },
+  { mode: "count", count: MAX_BATCH_SIZE },
+  { mode: "fps", fps: 1 },
+  { mode: "fps", fps: 0.2 },
+];
+
+/** Stable key for a sampling setting, e.g. for a select value. */
+export const samplingKey = (sampling: FrameSampling) =>
+  sampling.mode === "count" ? `count-${sampling.count}` : `fps-${sampling.fps}`;
+
+export const describeSampling = (sampling: FrameSampling) => {
+  if (sampling.mode === "count") return `${sampling.count} frames`;
+  if (sampling.fps >= 1) return `${Number(sampling.fps.toFixed(2))} per second`;
+  return `1 every ${Number((1 / sampling.fps).toFixed(1))} seconds`;
+};
+
+const DEFAULT_OPTIONS: FrameExtractionOptions = {
+  sampling: { mode: "count", count: 10 },
+  candidatesPerSegment: 3,
+  duplicateDistance: 6,
+};
+
+/**
+ * Defaults, overridable with VITE_VIDEO_FRAME_COUNT or VITE_VIDEO_FRAMES_PER_SECOND
+ * (the rate wins when both are set) and VITE_VIDEO_FRAME_CANDIDATES.
+ */
+export const getFrameExtractionOptions = (): FrameExtractionOptions => {
+  const env = import.meta.env;
+  const fps = numberFromEnv(env.VITE_VIDEO_FRAMES_PER_SECOND, 0.01, 30);
+  const count = numberFromEnv(env.VITE_VIDEO_FRAME_COUNT, 1, MAX_BATCH_SIZE);
+  return {
+    sampling: fps ? { mode: "fps", fps } : count ? { mode: "count", count: Math.round(count) } : DEFAULT_OPTIONS.sampling,
+    candidatesPerSegment: Math.round(numberFromEnv(env.VITE_VIDEO_FRAME_CANDIDATES, 1, 10) ?? DEFAULT_OPTIONS.candidatesPerSegment),
+    duplicateDistance: DEFAULT_OPTIONS.duplicateDistance,
+  };
+};
+
+/** Splits the video into equal segments, one per wanted frame, never more than a batch can hold. */
+export const planSegments = (duration: number, sampling: FrameSampling): { start: number; end: number }[] => {
+  if (!Number.isFinite(duration) || duration <= 0) return [];
+  const wanted = sampling.mode === "count" ? sampling.count : Math.round(duration * sampling.fps);
+  const count = Math.min(MAX_BATCH_SIZE, Math.max(1, wanted));
+  const length = duration / count;
+  return Array.from({ length: count }, (_, i) => ({ start: i * length, end: (i + 1) * length }));
+};
+
+/** Candidate times spread evenly inside a segment, never on its edges. */
+const candidateTimes = ({ start, end }: { start: number; end: number }, candidates: number) =>
+  Array.from({ length: candidates }, (_, i) => start + ((i + 0.5) * (end - start)) / candidates);
+
+/** Drops frames that show the same view as an earlier kept frame. */
+export const removeNearDuplicates = <T extends { hash: PerceptualHash }>(frames: T[], maxDistance: number): T[] =>
+  frames.reduce<T[]>(
+    (kept, frame) => (kept.some((other) => hammingDistance(other.hash, frame.hash) <= maxDistance) ? kept : [...kept, frame]),
+    [],
+  );
+
+/** m:ss, or h:mm:ss for long videos. */
+export const formatTimestamp = (seconds: number) => {
+  const whole = Math.max(0, Math.floor(seconds));
+  const [h, m, s] = [Math.floor(whole / 3600), Math.floor((whole % 3600) / 60), whole % 60];
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return h > 0 ? `${h}:${pad(m)}:${pad(s)}` : `${m}:${pad(s)}`;
+};
+
+export type FrameExtractionFailure = "timeout" | "cancelled" | "unreadable" | "failed";
+
+export class FrameExtractionError extends Error {
+  constructor(readonly reason: FrameExtractionFailure, message: string) {
+    super(message);
+    this.name = "FrameExtractionError";
+  }
+}
+
+export interface ExtractionControl {
+  signal?: AbortSignal;
+  /** Called with the share of the work done, from 0 to 1. */
+  onProgress?: (progress: number) => void;
+}
+
+/** Longest wait for the video to load or seek; corrupt files often never answer. */
+const VIDEO_TIMEOUT_MS = 10_000;
+/** Longest wait for the worker to score or encode one frame. */
+const WORKER_TIMEOUT_MS = 20_000;
+
+const cancelled = () => new FrameExtractionError("cancelled", "Frame extraction was cancelled");
+
+/** Resolves on the video's `event`, after calling `start`; rejects when the video fails, times out or `signal` aborts. */
+const waitForVideo = (
+  video: HTMLVideoElement,
+  event: "seeked" | "loadedmetadata",
+  signal: AbortSignal | undefined,
+  start: () => void = () => undefined,
+) =>
+  new Promise<void>((resolve, reject) => {
+    const settle = (error?: FrameExtractionError) => {
+      clearTimeout(timer);
+      video.removeEventListener(event, onEvent);
+      video.removeEventListener("error", onError);
+      signal?.removeEventListener("abort", onAbort);
+      if (error) reject(error);
+      else resolve();
+    };
+    const onEvent = () => settle();
+    const onError = () => settle(new FrameExtractionError("unreadable", "The video could not be decoded"));
+    const onAbort = () => settle(cancelled());
+    const timer = setTimeout(
+      () => settle(new FrameExtractionError("timeout", "The video stopped responding; it may be corrupt")),
+      VIDEO_TIMEOUT_MS,
+    );
+
+    video.addEventListener(event, onEvent);
+    video.addEventListener("error", onError);
+    signal?.addEventListener("abort", onAbort);
+    if (signal?.aborted) return onAbort();
+    if (video.error) return onError();
+    start();
+  });
+
+const seek = (video: HTMLVideoElement, time: number, signal?: AbortSignal) =>
+  waitForVideo(video, "seeked", signal, () => {
+    video.currentTime = time;
+  });
+
+export interface FrameScore {
+  sharpness: number;
+  hash: PerceptualHash;
+}
+
+/** Scores and encodes the frame the video is showing. */
+interface FrameProcessor {
+  score(video: HTMLVideoElement): Promise<FrameScore>;
+  encode(video: HTMLVideoElement, options: PreprocessOptions): Promise<PreprocessedImage>;
+  close(): void;
+}
+
+/** What the worker gets: a decoded frame it takes ownership of and closes. */
+export type FrameWorkerRequest =
+  | { type: "score"; frame: VideoFrame | ImageBitmap; width: number; height: number }
+  | { type: "encode"; frame: VideoFrame | ImageBitmap; width: number; height: number; options: PreprocessOptions };
+
+export type FrameWorkerResult =
+  | { type: "score"; score: FrameScore }
+  | { type: "encode"; image: PreprocessedImage }
+  | { type: "error"; message: string };
+
+export interface FrameWorkerMessage {
+  id: number;
+  request: FrameWorkerRequest;
+}
+
+export interface FrameWorkerReply {
+  id: number;
+  result: FrameWorkerResult;
+}
+
+const mainThreadProcessor: FrameProcessor = {
+  async score(video) {
+    const sample = sampleImage(video, video.videoWidth, video.videoHeight);
+    const { sharpness } = measurePixels(sample.data, sample.width, sample.height, sample);
+    return { sharpness, hash: differenceHash(sample) };
+  },
+  encode: (video, options) => preprocessVideoFrame(video, options),
+  close: () => undefined,
+};
+
+/** The frame on screen as something a worker can take over without a copy. */
+const grabFrame = async (video: HTMLVideoElement): Promise<VideoFrame | ImageBitmap> => {
+  if (typeof VideoFrame !== "undefined") {
+    try {
+      return new VideoFrame(video, { timestamp: Math.round(video.currentTime * 1_000_000) });
+    } catch {
+      // Some browsers cannot wrap a media element's frame; a bitmap copy always works
+    }
+  }
+  return createImageBitmap(video);
+};
+
+/** A processor backed by the frame worker; null where workers cannot draw and encode off-screen. */
+const createWorkerProcessor = (): FrameProcessor | null => {
+  if (typeof Worker === "undefined" || typeof OffscreenCanvas === "undefined" || !("convertToBlob" in OffscreenCanvas.prototype)) {
+    return null;
+  }
+  let worker: Worker;
+  try {
+    worker = new Worker(new URL("./frame-worker.ts", import.meta.url), { type: "module" });
+  } catch {
+    return null;
+  }
+
+  const pending = new Map<number, { resolve: (result: FrameWorkerResult) => void; reject: (error: Error) => void; timer: number }>();
+  let nextId = 0;
+
+  const failAll = (error: FrameExtractionError) => {
+    pending.forEach(({ reject, timer }) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    pending.clear();
+  };
+
+  worker.onmessage = ({ data }: MessageEvent<FrameWorkerReply>) => {
+    const call = pending.get(data.id);
+    if (!call) return;
+    pending.delete(data.id);
+    clearTimeout(call.timer);
+    call.resolve(data.result);
+  };
+  worker.onerror = (event) => {
+    event.preventDefault();
+    failAll(new FrameExtractionError("failed", "The frame worker stopped unexpectedly"));
+  };
+
+  const call = async (request: FrameWorkerRequest): Promise<FrameWorkerResult> => {
+    const result = await new Promise<FrameWorkerResult>((resolve, reject) => {
+      const id = nextId++;
+      const timer = window.setTimeout(() => {
+        pending.delete(id);
+        reject(new FrameExtractionError("timeout", "Processing a frame took too long"));
+      }, WORKER_TIMEOUT_MS);
+      pending.set(id, { resolve, reject, timer });
+      const message: FrameWorkerMessage = { id, request };
+      worker.postMessage(message, [request.frame]);
+    });
+    if (result.type === "error") throw new FrameExtractionError("failed", result.message);
+    return result;
+  };
+
+  return {
+    async score(video) {
+      const result = await call({ type: "score", frame: await grabFrame(video), width: video.videoWidth, height: video.videoHeight });
+      if (result.type !== "score") throw new FrameExtractionError("failed", "The frame worker answered out of turn");
+      return result.score;
+    },
+    async encode(video, options) {
+      const frame = await grabFrame(video);
+      const result = await call({ type: "encode", frame, width: video.videoWidth, height: video.videoHeight, options });
+      if (result.type !== "encode") throw new FrameExtractionError("failed", "The frame worker answered out of turn");
+      return result.image;
+    },
+    close() {
+      worker.terminate();
+      failAll(cancelled());
+    },
+  };
+};
+
+/**
+ * Picks frames for analysis: the video is split into segments, the sharpest
+ * of a few candidates in each is kept, and near-duplicate views are dropped.
+ * Rejects with a FrameExtractionError when cancelled, when the video fails to
+ * decode or stops responding. Leaves the video seeked to the last frame taken.
+ */
+export const extractVideoFrames = async (
+  video: HTMLVideoElement,
+  options = getFrameExtractionOptions(),
+  { signal, onProgress }: ExtractionControl = {},
+  preprocessOptions: PreprocessOptions = getPreprocessOptions(),
+): Promise<ExtractedFrame[]> => {
+  if (video.readyState < HTMLMediaElement.HAVE_METADATA) await waitForVideo(video, "loadedmetadata", signal);
+  const segments = planSegments(video.duration, options.sampling);
+  if (segments.length === 0) throw new FrameExtractionError("unreadable", "The video has no readable duration");
+
+  const processor = createWorkerProcessor() ?? mainThreadProcessor;
+  const abort = () => processor.close();
+  signal?.addEventListener("abort", abort);
+  try {
+    // Scoring every candidate, then encoding each kept frame
+    let total = segments.length * (options.candidatesPerSegment + 1);
+    let done = 0;
+    const step = () => onProgress?.(Math.min(1, ++done / total));
+    onProgress?.(0);
+
+    const best: (FrameScore & { timestamp: number })[] = [];
+    for (const segment of segments) {
+      let sharpest: (typeof best)[number] | null = null;
+      for (const timestamp of candidateTimes(segment, options.candidatesPerSegment)) {
+        await seek(video, timestamp, signal);
+        const score = await processor.score(video);
+        if (!sharpest || score.sharpness > sharpest.sharpness) sharpest = { timestamp, ...score };
+        step();
+      }
+      if (sharpest) best.push(sharpest);
+    }
+
+    const kept = removeNearDuplicates(best, options.duplicateDistance);
+    total -= best.length - kept.length;
+    const frames: ExtractedFrame[] = [];
+    for (const { timestamp } of kept) {
+      await seek(video, timestamp, signal);
+      frames.push({ ...(await processor.encode(video, preprocessOptions)), timestamp });
+      step();
+    }
+    return frames;
+  } catch (error) {
+    throw signal?.aborted ? cancelled() : error;
+  } finally {
+    signal?.removeEventListener("abort", abort);
+    processor.close();
+  }
+};
@@ -0,0 +1,242 @@
+import { useState, type FormEvent } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { AlertTriangle, Building2, Trash2, UserPlus, Users } from "lucide-react";
+import Navbar from "@/components/Navbar";
+import Footer from "@/components/Footer";
+import { GlassCard } from "@/components/GlassCard";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { addMember, createOrganization, listMembers, removeMember, updateMemberRole } from "@/lib/organizations";
+import { ROLES, ROLE_LABELS, canManageMembers, type Role } from "@shared/roles.ts";
+
+const RoleSelect = ({ value, onChange, disabled }: { value: Role; onChange: (role: Role) => void; disabled?: boolean }) => (
+  <Select value={value} onValueChange={(next) => onChange(next as Role)} disabled={disabled}>
+    <SelectTrigger className="w-36">
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      {ROLES.map((role) => (
+        <SelectItem key={role} value={role}>
+          {ROLE_LABELS[role]}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+const CreateOrganization = ({ onCreated }: { onCreated: () => Promise<void> }) => {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    try {
+      await createOrganization(name);
+      await onCreated();
+      toast({ title: "Organization created", description: "You are its admin and can now invite members." });
+    } catch (error) {
+      toast({
+        title: "Could not create organization",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <GlassCard hover={false}>
+      <h2 className="text-lg font-semibold flex items-center gap-2 mb-2">
+        <Building2 className="w-5 h-5 text-primary" />
+        Create an organization
+      </h2>
+      <p className="text-sm text-muted-foreground mb-4">
+        Inspections are shared within an organization. Create one, or ask an admin of an existing organization to add
+        you by email.
+      </p>
+      <form onSubmit={handleSubmit} className="flex flex-col sm:flex-row gap-3">
+        <Input
+          placeholder="Organization name"
+          maxLength={80}
+          required
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <Button type="submit" variant="hero" disabled={isSubmitting || !name.trim()}>
+          {isSubmitting ? "Creating..." : "Create"}
+        </Button>
+      </form>
+    </GlassCard>
+  );
+};
+
+const MemberManagement = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<Role>("inspector");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { data: members, isLoading, isError, error } = useQuery({
+    queryKey: ["organization-members"],
+    queryFn: listMembers,
+  });
+
+  /** Runs a membership change, reporting failures and refreshing the list either way. */
+  const run = async (action: () => Promise<void>, success: string) => {
+    try {
+      await action();
+      toast({ title: success });
+      return true;
+    } catch (err) {
+      toast({
+        title: "Could not update members",
+        description: err instanceof Error ? err.message : "Please try again.",
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      await queryClient.invalidateQueries({ queryKey: ["organization-members"] });
+    }
+  };
+
+  const handleAdd = async (event: FormEvent) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    if (await run(() => addMember(email, role), `${email.trim()} is now ${ROLE_LABELS[role].toLowerCase()}`)) {
+      setEmail("");
+    }
+    setIsSubmitting(false);
+  };
+
+  return (
+    <GlassCard hover={false}>
+      <h2 className="text-lg font-semibold flex items-center gap-2 mb-4">
+        <Users className="w-5 h-5 text-primary" />
+        Members
+      </h2>
+
+      <form onSubmit={handleAdd} className="flex flex-col sm:flex-row gap-3 mb-6">
+        <div className="flex-1 space-y-1">
+          <Label htmlFor="member-email" className="sr-only">Email</Label>
+          <Input
+            id="member-email"
+            type="email"
+            placeholder="Email of a signed-up user"
+            required
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+          />
+        </div>
+        <RoleSelect value={role} onChange={setRole} />
+        <Button type="submit" variant="outline" disabled={isSubmitting}>
+          <UserPlus className="w-4 h-4" />
+          Add member
+        </Button>
+      </form>
+
+      {isLoading && <p className="text-muted-foreground">Loading members...</p>}
+
+      {isError && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Could not load members</AlertTitle>
+          <AlertDescription>{error instanceof Error ? error.message : "Please try again."}</AlertDescription>
+        </Alert>
+      )}
+
+      {members && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Email</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead>Member since</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {members.map((member) => {
+              const isSelf = member.userId === user?.id;
+              return (
+                <TableRow key={member.userId}>
+                  <TableCell>
+                    {member.email}
+                    {isSelf && <span className="text-muted-foreground"> (you)</span>}
+                  </TableCell>
+                  <TableCell>
+                    <RoleSelect
+                      value={member.role}
+                      disabled={isSelf}
+                      onChange={(next) =>
+                        run(() => updateMemberRole(member.userId, next), `${member.email} is now ${ROLE_LABELS[next].toLowerCase()}`)
+                      }
+                    />
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">{format(new Date(member.createdAt), "d MMM yyyy")}</TableCell>
+                  <TableCell className="text-right">
+                    {!isSelf && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        aria-label={`Remove ${member.email}`}
+                        onClick={() => run(() => removeMember(member.userId), `${member.email} was removed`)}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+    </GlassCard>
+  );
+};
+
+const Account = () => {
+  const { user, membership, isLoading, refreshMembership } = useAuth();
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <main className="container mx-auto px-4 pt-28 pb-16 max-w-4xl">
+        <h1 className="text-3xl md:text-4xl font-bold mb-2">Account</h1>
+        <p className="text-muted-foreground mb-8">Signed in as {user?.email}</p>
+
+        {isLoading && <p className="text-muted-foreground">Loading organization...</p>}
+
+        {!isLoading && !membership && <CreateOrganization onCreated={refreshMembership} />}
+
+        {membership && (
+          <div className="space-y-6">
+            <GlassCard hover={false}>
+              <p className="text-sm text-muted-foreground">Organization</p>
+              <div className="flex flex-wrap items-center gap-3 mt-1">
+                <p className="text-2xl font-bold">{membership.organizationName}</p>
+                <Badge variant="secondary">{ROLE_LABELS[membership.role]}</Badge>
+              </div>
+            </GlassCard>
+            {canManageMembers(membership.role) && <MemberManagement />}
+          </div>
+        )}
+      </main>
+      <Footer />
+    </div>
+  );
+};
+
+export default Account;
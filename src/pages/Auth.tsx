@@ -0,0 +1,140 @@
+import { useState, type FormEvent } from "react";
+import { Navigate, useLocation, useNavigate } from "react-router-dom";
+import { AlertTriangle, LogIn, MailCheck } from "lucide-react";
+import Navbar from "@/components/Navbar";
+import Footer from "@/components/Footer";
+import { GlassCard } from "@/components/GlassCard";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useAuth } from "@/hooks/use-auth";
+
+const MIN_PASSWORD_LENGTH = 8;
+
+type Mode = "sign-in" | "sign-up";
+
+const Auth = () => {
+  const { session, isLoading, signIn, signUp } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const returnTo = (location.state as { from?: string } | null)?.from ?? "/inspections";
+
+  const [mode, setMode] = useState<Mode>("sign-in");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [confirmationSentTo, setConfirmationSentTo] = useState<string | null>(null);
+
+  if (!isLoading && session) return <Navigate to={returnTo} replace />;
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setError(null);
+    if (mode === "sign-up" && password.length < MIN_PASSWORD_LENGTH) {
+      setError(`Use at least ${MIN_PASSWORD_LENGTH} characters for your password.`);
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      if (mode === "sign-in") {
+        await signIn(email.trim(), password);
+        navigate(returnTo, { replace: true });
+      } else {
+        const { confirmationRequired } = await signUp(email.trim(), password);
+        if (confirmationRequired) {
+          setConfirmationSentTo(email.trim());
+        } else {
+          navigate("/account", { replace: true });
+        }
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const form = (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="email">Email</Label>
+        <Input
+          id="email"
+          type="email"
+          autoComplete="email"
+          required
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="password">Password</Label>
+        <Input
+          id="password"
+          type="password"
+          autoComplete={mode === "sign-in" ? "current-password" : "new-password"}
+          required
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+        />
+      </div>
+      {error && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>{mode === "sign-in" ? "Could not sign in" : "Could not create account"}</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+      <Button type="submit" variant="hero" className="w-full" disabled={isSubmitting}>
+        <LogIn className="w-4 h-4" />
+        {isSubmitting ? "Please wait..." : mode === "sign-in" ? "Sign in" : "Create account"}
+      </Button>
+    </form>
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <main className="container mx-auto px-4 pt-28 pb-16 max-w-md">
+        <h1 className="text-3xl md:text-4xl font-bold mb-2">
+          Welcome to <span className="text-gradient">AutoScan AI</span>
+        </h1>
+        <p className="text-muted-foreground mb-8">Sign in to run analyses and review your organization's inspections.</p>
+
+        {confirmationSentTo ? (
+          <GlassCard hover={false} className="text-center py-10">
+            <MailCheck className="w-10 h-10 text-primary mx-auto mb-4" />
+            <p className="font-medium">Check your inbox</p>
+            <p className="text-sm text-muted-foreground mt-2">
+              We sent a confirmation link to {confirmationSentTo}. Open it to finish creating your account.
+            </p>
+          </GlassCard>
+        ) : (
+          <GlassCard hover={false}>
+            <Tabs
+              value={mode}
+              onValueChange={(value) => {
+                setMode(value as Mode);
+                setError(null);
+              }}
+            >
+              <TabsList className="grid w-full grid-cols-2 mb-6">
+                <TabsTrigger value="sign-in">Sign in</TabsTrigger>
+                <TabsTrigger value="sign-up">Create account</TabsTrigger>
+              </TabsList>
+              <TabsContent value="sign-in">{form}</TabsContent>
+              <TabsContent value="sign-up">{form}</TabsContent>
+            </Tabs>
+          </GlassCard>
+        )}
+      </main>
+      <Footer />
+    </div>
+  );
+};
+
+export default Auth;
@@ -0,0 +1,333 @@
+import { useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { AlertTriangle, ArrowLeft, CheckCircle, Columns2, Download, GitCompare, PlusCircle, RefreshCw, SlidersHorizontal } from "lucide-react";
+import Navbar from "@/components/Navbar";
+import Footer from "@/components/Footer";
+import { GlassCard } from "@/components/GlassCard";
+import { SeverityBadge } from "@/components/SeverityBadge";
+import { DamageOverlay } from "@/components/DamageOverlay";
+import { ImageCompareSlider } from "@/components/ImageCompareSlider";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { getInspection, getPreviousInspectionId, type InspectionDetail } from "@/lib/inspections";
+import { getVehicleHistory } from "@/lib/vehicles";
+import { buildDeltaReport, reportFileName } from "@/lib/report-pdf";
+import { compareAnalyses, type ComparedDamage } from "@shared/comparison.ts";
+import { formatCurrency } from "@shared/currency.ts";
+import { damageKey } from "@shared/damage-tracking.ts";
+import { describeDamageLocation } from "@shared/parts.ts";
+import { getRegion, isRegionCode } from "@shared/regions.ts";
+
+const DamageRow = ({ damage, note, formatAmount }: { damage: ComparedDamage; note?: string; formatAmount: (amount: number, currency: string) => string }) => (
+  <li className="p-3 rounded-lg bg-secondary/50 text-sm">
+    <div className="flex items-center justify-between gap-2">
+      <span className="font-medium capitalize">{damage.type.replace(/_/g, " ")}</span>
+      <SeverityBadge severity={damage.severity} />
+    </div>
+    <p className="text-muted-foreground">{describeDamageLocation(damage, navigator.language)}</p>
+    {note && <p className="text-xs text-muted-foreground mt-1">{note}</p>}
+    {damage.estimatedRepairCost.max > 0 && (
+      <p className="text-xs mt-1">
+        {formatAmount(damage.estimatedRepairCost.min, damage.estimatedRepairCost.currency)} -{" "}
+        {formatAmount(damage.estimatedRepairCost.max, damage.estimatedRepairCost.currency)}
+      </p>
+    )}
+  </li>
+);
+
+const inspectionLabel = (inspection: Pick<InspectionDetail, "createdAt">) =>
+  format(new Date(inspection.createdAt), "d MMM yyyy, HH:mm");
+
+const InspectionComparison = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [position, setPosition] = useState(0);
+  const { toast } = useToast();
+  const afterId = searchParams.get("after");
+  const beforeParam = searchParams.get("before");
+
+  const afterQuery = useQuery({
+    queryKey: ["inspection", afterId],
+    queryFn: () => getInspection(afterId),
+    enabled: Boolean(afterId),
+  });
+  const after = afterQuery.data;
+
+  // Without an explicit "before", compare with the vehicle's previous inspection
+  const previousQuery = useQuery({
+    queryKey: ["previous-inspection", afterId],
+    queryFn: () => getPreviousInspectionId(after),
+    enabled: !beforeParam && Boolean(after),
+  });
+  const beforeId = beforeParam ?? previousQuery.data ?? null;
+
+  const beforeQuery = useQuery({
+    queryKey: ["inspection", beforeId],
+    queryFn: () => getInspection(beforeId),
+    enabled: Boolean(beforeId),
+  });
+  const before = beforeQuery.data;
+
+  const vehicleId = after?.vehicleId ?? null;
+  const { data: history } = useQuery({
+    queryKey: ["vehicle", vehicleId],
+    queryFn: () => getVehicleHistory(vehicleId),
+    enabled: Boolean(vehicleId),
+  });
+  const choices = (history?.inspections ?? []).filter((inspection) => inspection.status !== "failed");
+
+  const isLoading = afterQuery.isLoading || previousQuery.isLoading || beforeQuery.isLoading;
+  const loadError = afterQuery.error ?? previousQuery.error ?? beforeQuery.error;
+
+  const report = before?.result && after?.result ? compareAnalyses(before.result, after.result) : null;
+  const newKeys = new Set(report?.new.map(damageKey) ?? []);
+
+  const locale = after && isRegionCode(after.region) ? getRegion(after.region).locale : navigator.language;
+  const formatAmount = (amount: number, currency: string) => formatCurrency(amount, currency, { locale });
+
+  const pairCount = Math.min(before?.media.length ?? 0, after?.media.length ?? 0);
+  const beforeMedia = before?.media[Math.min(position, pairCount - 1)];
+  const afterMedia = after?.media[Math.min(position, pairCount - 1)];
+  const newOnView = (afterMedia?.result?.damages ?? []).filter((damage) => newKeys.has(damageKey(damage)));
+
+  const selectInspection = (key: "before" | "after", id: string) => {
+    const next = new URLSearchParams(searchParams);
+    next.set(key, id);
+    setPosition(0);
+    setSearchParams(next, { replace: true });
+  };
+
+  const downloadPDF = () => {
+    if (!report || !before || !after) return;
+    try {
+      const pdf = buildDeltaReport(
+        report,
+        { before: new Date(before.createdAt), after: new Date(after.createdAt) },
+        { formatAmount: (amount, currency) => formatCurrency(amount, currency, { locale, display: "code" }) },
+      );
+      pdf.save(reportFileName("damage-comparison", new Date(after.createdAt)));
+    } catch (pdfError) {
+      console.error("PDF generation error:", pdfError);
+      toast({
+        title: "PDF Generation Failed",
+        description: "Could not generate PDF. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const renderSelect = (key: "before" | "after", value: string | null) => (
+    <div className="space-y-1.5">
+      <Label htmlFor={`compare-${key}`}>{key === "before" ? "Before" : "After"}</Label>
+      <Select value={value ?? undefined} onValueChange={(id) => selectInspection(key, id)} disabled={choices.length === 0}>
+        <SelectTrigger id={`compare-${key}`}>
+          <SelectValue placeholder="Choose an inspection" />
+        </SelectTrigger>
+        <SelectContent>
+          {choices.map((inspection) => (
+            <SelectItem key={inspection.id} value={inspection.id}>
+              {inspectionLabel(inspection)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <main className="container mx-auto px-4 pt-28 pb-16">
+        <Link
+          to={vehicleId ? `/vehicles/${vehicleId}` : "/inspections"}
+          className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground mb-6"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          {vehicleId ? "Vehicle timeline" : "All inspections"}
+        </Link>
+
+        <div className="flex flex-wrap items-start justify-between gap-4 mb-8">
+          <h1 className="text-3xl md:text-4xl font-bold flex items-center gap-3">
+            <GitCompare className="w-8 h-8 text-primary" />
+            Before / After <span className="text-gradient">Comparison</span>
+          </h1>
+          <Button onClick={downloadPDF} disabled={!report}>
+            <Download className="w-4 h-4 mr-2" />
+            Download delta report
+          </Button>
+        </div>
+
+        {!afterId && (
+          <GlassCard hover={false} className="text-center py-12">
+            <p className="text-muted-foreground">Open a comparison from an inspection or a vehicle timeline.</p>
+          </GlassCard>
+        )}
+
+        {loadError && (
+          <Alert variant="destructive" className="mb-6">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Could not load inspections</AlertTitle>
+            <AlertDescription>{loadError instanceof Error ? loadError.message : "Please try again."}</AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading && <p className="text-muted-foreground">Loading inspections...</p>}
+
+        {after && (
+          <GlassCard hover={false} className="mb-6">
+            <div className="grid gap-4 sm:grid-cols-3">
+              {renderSelect("before", beforeId)}
+              {renderSelect("after", afterId)}
+              {pairCount > 1 && (
+                <div className="space-y-1.5">
+                  <Label htmlFor="compare-view">View</Label>
+                  <Select value={String(position)} onValueChange={(value) => setPosition(Number(value))}>
+                    <SelectTrigger id="compare-view">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Array.from({ length: pairCount }, (_, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {after.source === "video" ? "Frame" : "Image"} {index + 1}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+            {!vehicleId && (
+              <p className="text-sm text-muted-foreground mt-3">
+                This inspection is not linked to a vehicle, so there is nothing to compare it with.
+              </p>
+            )}
+            {vehicleId && !isLoading && !beforeId && (
+              <p className="text-sm text-muted-foreground mt-3">This is the vehicle's first inspection.</p>
+            )}
+          </GlassCard>
+        )}
+
+        {before && after && (
+          <div className="grid gap-6 lg:grid-cols-5">
+            <GlassCard hover={false} className="lg:col-span-3">
+              <Tabs defaultValue="side-by-side">
+                <TabsList className="mb-4">
+                  <TabsTrigger value="side-by-side" className="gap-2">
+                    <Columns2 className="w-4 h-4" />
+                    Side by side
+                  </TabsTrigger>
+                  <TabsTrigger value="slider" className="gap-2">
+                    <SlidersHorizontal className="w-4 h-4" />
+                    Slider
+                  </TabsTrigger>
+                </TabsList>
+                {beforeMedia?.preview && afterMedia?.preview ? (
+                  <>
+                    <TabsContent value="side-by-side">
+                      <div className="grid gap-4 sm:grid-cols-2">
+                        <div className="space-y-2">
+                          <p className="text-sm text-muted-foreground">Before · {inspectionLabel(before)}</p>
+                          <img src={beforeMedia.preview} alt="Vehicle before" className="w-full rounded-xl" />
+                        </div>
+                        <div className="space-y-2">
+                          <p className="text-sm text-muted-foreground">
+                            After · {inspectionLabel(after)} · new damage outlined
+                          </p>
+                          <DamageOverlay
+                            imageSrc={afterMedia.preview}
+                            damages={newOnView}
+                            highlightedIndex={null}
+                            onHighlight={() => undefined}
+                            alt="Vehicle after, with new damage outlined"
+                          />
+                        </div>
+                      </div>
+                    </TabsContent>
+                    <TabsContent value="slider">
+                      <ImageCompareSlider
+                        beforeSrc={beforeMedia.preview}
+                        afterSrc={afterMedia.preview}
+                        beforeLabel={`Before · ${inspectionLabel(before)}`}
+                        afterLabel={`After · ${inspectionLabel(after)}`}
+                      />
+                    </TabsContent>
+                  </>
+                ) : (
+                  <p className="text-sm text-muted-foreground">The images of one of these inspections were not stored.</p>
+                )}
+              </Tabs>
+            </GlassCard>
+
+            <GlassCard hover={false} className="lg:col-span-2 space-y-5">
+              {!report ? (
+                <p className="text-sm text-muted-foreground">One of these inspections has no result to compare.</p>
+              ) : (
+                <>
+                  <Alert variant={report.new.length > 0 ? "destructive" : "default"}>
+                    {report.new.length > 0 ? <AlertTriangle className="h-4 w-4" /> : <CheckCircle className="h-4 w-4" />}
+                    <AlertTitle>
+                      {report.new.length > 0 ? `${report.new.length} new damage(s) since ${inspectionLabel(before)}` : "No new damage"}
+                    </AlertTitle>
+                    {report.newDamageCost.max > 0 && (
+                      <AlertDescription>
+                        Estimated repair cost of new damage: {formatAmount(report.newDamageCost.min, report.newDamageCost.currency)} -{" "}
+                        {formatAmount(report.newDamageCost.max, report.newDamageCost.currency)}
+                      </AlertDescription>
+                    )}
+                  </Alert>
+
+                  <div>
+                    <p className="flex items-center gap-2 text-sm font-medium text-destructive mb-2">
+                      <PlusCircle className="w-4 h-4" />
+                      New ({report.new.length})
+                    </p>
+                    <ul className="space-y-2">
+                      {report.new.map((damage, index) => (
+                        <DamageRow key={index} damage={damage} formatAmount={formatAmount} />
+                      ))}
+                    </ul>
+                  </div>
+                  <div>
+                    <p className="flex items-center gap-2 text-sm font-medium text-warning mb-2">
+                      <RefreshCw className="w-4 h-4" />
+                      Existing ({report.existing.length})
+                    </p>
+                    <ul className="space-y-2">
+                      {report.existing.map(({ before: earlier, after: later, severityChange }, index) => (
+                        <DamageRow
+                          key={index}
+                          damage={later}
+                          formatAmount={formatAmount}
+                          note={severityChange === "unchanged" ? undefined : `${severityChange === "worse" ? "Worse" : "Better"} than before (${earlier.severity})`}
+                        />
+                      ))}
+                    </ul>
+                  </div>
+                  <div>
+                    <p className="flex items-center gap-2 text-sm font-medium text-success mb-2">
+                      <CheckCircle className="w-4 h-4" />
+                      Repaired ({report.repaired.length})
+                    </p>
+                    <ul className="space-y-2">
+                      {report.repaired.map((damage, index) => (
+                        <DamageRow key={index} damage={damage} formatAmount={formatAmount} />
+                      ))}
+                    </ul>
+                  </div>
+                </>
+              )}
+            </GlassCard>
+          </div>
+        )}
+      </main>
+      <Footer />
+    </div>
+  );
+};
+
+export default InspectionComparison;
@@ -0,0 +1,379 @@
+import { useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { AlertTriangle, ArrowLeft, CheckCircle, Download, GitCompare, Image as ImageIcon, Link2, Wrench } from "lucide-react";
+import Navbar from "@/components/Navbar";
+import Footer from "@/components/Footer";
+import { GlassCard } from "@/components/GlassCard";
+import { SeverityBadge } from "@/components/SeverityBadge";
+import { DamageOverlay } from "@/components/DamageOverlay";
+import { CostBreakdown } from "@/components/CostBreakdown";
+import { QualityBadge } from "@/components/ImageQuality";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { hasDamageGeometry } from "@/lib/analyze-damage";
+import { getInspection, toFrameResults, type InspectionDetail as Inspection, type InspectionMedia } from "@/lib/inspections";
+import { buildCombinedReport, buildDamageReport, reportFileName } from "@/lib/report-pdf";
+import { inlineImage } from "@/lib/image-storage";
+import { formatTimestamp } from "@/lib/video-frames";
+import type { AnalysisResult, CombinedAnalysisResult } from "@shared/contract.ts";
+import { formatCurrency } from "@shared/currency.ts";
+import { describeDamageLocation } from "@shared/parts.ts";
+import { QUALITY_ISSUE_LABELS } from "@shared/image-quality.ts";
+import { VIEWPOINT_LABELS } from "@shared/viewpoints.ts";
+import { getRegion, isRegionCode } from "@shared/regions.ts";
+
+const SOURCE_LABELS = { image: "Single image", "multi-image": "Multi-angle", video: "Video" } as const;
+
+type CombinedResult = Omit<CombinedAnalysisResult, "frameResults">;
+
+const isCombined = (inspection: Inspection, result: Inspection["result"]): result is CombinedResult =>
+  inspection.source !== "image" && result !== null;
+
+/** Original and annotated copies of one stored image, as tabs. */
+const MediaViewer = ({ media, label }: { media: InspectionMedia; label: string }) => {
+  const [highlighted, setHighlighted] = useState<number | null>(null);
+  const damages = media.result?.damages ?? [];
+
+  if (!media.preview) {
+    return (
+      <div className="aspect-video rounded-xl bg-secondary flex flex-col items-center justify-center gap-2 text-muted-foreground">
+        <ImageIcon className="w-8 h-8" />
+        <span className="text-sm">{label}: image not stored</span>
+      </div>
+    );
+  }
+
+  return (
+    <Tabs defaultValue={media.annotatedPreview || hasDamageGeometry(damages) ? "annotated" : "original"}>
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <span className="text-sm font-medium flex items-center gap-2">
+          {label}
+          <QualityBadge quality={media.quality} />
+          {media.capturedAt && (
+            <span className="text-xs font-normal text-muted-foreground">
+              Taken {media.capturedAt.slice(0, 16).replace("T", " ")}
+            </span>
+          )}
+        </span>
+        <TabsList>
+          <TabsTrigger value="annotated">Annotated</TabsTrigger>
+          <TabsTrigger value="original">Original</TabsTrigger>
+        </TabsList>
+      </div>
+      <TabsContent value="annotated">
+        {hasDamageGeometry(damages) ? (
+          <DamageOverlay
+            imageSrc={media.preview}
+            damages={damages}
+            highlightedIndex={highlighted}
+            onHighlight={setHighlighted}
+            className="border-2 border-primary/50 rounded-xl"
+          />
+        ) : (
+          <img
+            src={media.annotatedPreview ?? media.preview}
+            alt={`${label} with damage markers`}
+            className="w-full rounded-xl border-2 border-primary/50"
+          />
+        )}
+      </TabsContent>
+      <TabsContent value="original">
+        <img src={media.preview} alt={label} className="w-full rounded-xl" />
+      </TabsContent>
+      {media.quality && media.quality.issues.length > 0 && (
+        <p className="mt-2 text-sm text-warning flex items-center gap-2">
+          <AlertTriangle className="w-4 h-4" />
+          Weak evidence: {media.quality.issues.map((issue) => QUALITY_ISSUE_LABELS[issue].toLowerCase()).join(", ")}
+        </p>
+      )}
+      {media.error && (
+        <p className="mt-2 text-sm text-destructive flex items-center gap-2">
+          <AlertTriangle className="w-4 h-4" />
+          {media.error.error}
+        </p>
+      )}
+    </Tabs>
+  );
+};
+
+const InspectionDetail = () => {
+  const { id = "" } = useParams();
+  const { toast } = useToast();
+  const { data: inspection, isLoading, isError, error } = useQuery({
+    queryKey: ["inspection", id],
+    queryFn: () => getInspection(id),
+  });
+
+  const locale = inspection && isRegionCode(inspection.region) ? getRegion(inspection.region).locale : navigator.language;
+  const formatAmount = (amount: number, currency: string) => formatCurrency(amount, currency, { locale });
+  const formatRange = (cost: { min: number; max: number; currency: string }) =>
+    `${formatAmount(cost.min, cost.currency)} - ${formatAmount(cost.max, cost.currency)}`;
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast({ title: "Link copied", description: "Anyone with access to inspections can open this report." });
+    } catch {
+      toast({ title: "Could not copy link", description: window.location.href, variant: "destructive" });
+    }
+  };
+
+  const downloadPDF = async () => {
+    if (!inspection?.result) return;
+    const options = {
+      formatAmount: (amount: number, currency: string) => formatCurrency(amount, currency, { locale, display: "code" }),
+      generatedAt: new Date(inspection.createdAt),
+    };
+
+    try {
+      const { result } = inspection;
+      // Stored previews are signed URLs; the PDF can only embed inline images
+      const media = await Promise.all(inspection.media.map(async (item) => ({
+        ...item,
+        preview: await inlineImage(item.preview),
+        annotatedPreview: await inlineImage(item.annotatedPreview),
+      })));
+      const pdf = isCombined(inspection, result)
+        ? buildCombinedReport(
+          { ...result, frameResults: toFrameResults(media) },
+          inspection.source === "multi-image" ? "multi-image" : "video",
+          options,
+        )
+        : buildDamageReport(
+          { ...(result as AnalysisResult), annotatedImage: media[0]?.annotatedPreview },
+          media[0]?.preview,
+          options,
+        );
+      pdf.save(reportFileName("damage-report", new Date(inspection.createdAt)));
+    } catch (pdfError) {
+      console.error("PDF generation error:", pdfError);
+      toast({
+        title: "PDF Generation Failed",
+        description: "Could not generate PDF. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const renderBody = (inspection: Inspection) => {
+    const { result } = inspection;
+    const combined = isCombined(inspection, result) ? result : null;
+    const single = !combined && result ? (result as AnalysisResult) : null;
+    const mediaLabel = inspection.source === "video" ? "Frame" : "Image";
+    /** "Frame 3 · 0:42" for video frames with a stored timestamp, "Front-left" for walk-around shots, otherwise "Image 3". */
+    const describeMedia = (position: number) => {
+      const media = inspection.media.find((item) => item.position === position);
+      if (media?.viewpoint) return VIEWPOINT_LABELS[media.viewpoint];
+      return `${mediaLabel} ${position + 1}${media?.timestamp != null ? ` · ${formatTimestamp(media.timestamp)}` : ""}`;
+    };
+
+    return (
+      <div className="grid gap-6 lg:grid-cols-2">
+        <GlassCard hover={false} className="space-y-6">
+          {inspection.media.length === 1 ? (
+            <MediaViewer media={inspection.media[0]} label="Vehicle" />
+          ) : (
+            inspection.media.map((media) => (
+              <div key={media.position} id={`media-${media.position}`} className="scroll-mt-28">
+                <MediaViewer media={media} label={describeMedia(media.position)} />
+              </div>
+            ))
+          )}
+        </GlassCard>
+
+        <GlassCard hover={false} className="space-y-4">
+          {inspection.error && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>Analysis failed</AlertTitle>
+              <AlertDescription>{inspection.error.error}</AlertDescription>
+            </Alert>
+          )}
+
+          {result && (
+            <>
+              <div className="p-4 rounded-xl bg-secondary/50">
+                <div className="flex items-center gap-2 mb-2">
+                  <CheckCircle className="w-4 h-4 text-primary" />
+                  <span className="text-muted-foreground text-sm">Summary</span>
+                </div>
+                <p className="text-sm">{result.summary}</p>
+              </div>
+
+              {inspection.estimatedCost.max > 0 && (
+                <div className="p-4 rounded-xl bg-secondary/50">
+                  <span className="text-muted-foreground text-sm">Estimated Repair Cost</span>
+                  <p className="text-xl font-bold text-foreground">{formatRange(inspection.estimatedCost)}</p>
+                  {single?.estimatedRepairCost.lineItems?.length > 0 && (
+                    <CostBreakdown
+                      className="mt-2"
+                      lineItems={single.estimatedRepairCost.lineItems}
+                      damages={single.damages}
+                      formatAmount={(amount) => formatAmount(amount, single.estimatedRepairCost.currency)}
+                    />
+                  )}
+                </div>
+              )}
+            </>
+          )}
+
+          {single?.damages.length > 0 && (
+            <div className="space-y-3">
+              <h2 className="text-sm font-medium text-muted-foreground">Detected Damages</h2>
+              {single.damages.map((damage, index) => (
+                <div key={index} className="p-4 rounded-xl bg-secondary/50">
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="font-medium capitalize">
+                      {index + 1}. {damage.type.replace(/_/g, " ")}
+                    </span>
+                    <SeverityBadge severity={damage.severity} />
+                  </div>
+                  <p className="text-sm text-muted-foreground mb-1">{describeDamageLocation(damage, navigator.language)}</p>
+                  <p className="text-xs text-muted-foreground/70">{damage.description}</p>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {combined?.distinctDamages.length > 0 && (
+            <div className="space-y-3">
+              <h2 className="text-sm font-medium text-muted-foreground">Distinct Damages</h2>
+              {combined.distinctDamages.map((damage) => (
+                <div key={damage.id} className="p-4 rounded-xl bg-secondary/50">
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="font-medium capitalize">{damage.type.replace(/_/g, " ")}</span>
+                    <SeverityBadge severity={damage.severity} />
+                  </div>
+                  <p className="text-sm text-muted-foreground mb-1">{describeDamageLocation(damage, navigator.language)}</p>
+                  <p className="text-xs text-muted-foreground/70 mb-2">{damage.description}</p>
+                  {damage.estimatedRepairCost.max > 0 && (
+                    <p className="text-sm font-medium text-foreground mb-2">{formatRange(damage.estimatedRepairCost)}</p>
+                  )}
+                  <div className="flex flex-wrap items-center gap-1">
+                    <span className="text-xs text-muted-foreground">Seen in:</span>
+                    {damage.supportingFrames.map((frameIndex) => (
+                      <a
+                        key={frameIndex}
+                        href={`#media-${frameIndex}`}
+                        className="text-xs text-muted-foreground bg-background/50 px-2 py-0.5 rounded hover:text-primary"
+                      >
+                        {describeMedia(frameIndex)}
+                      </a>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {result?.recommendations.length > 0 && (
+            <div className="p-4 rounded-xl bg-secondary/50">
+              <div className="flex items-center gap-2 mb-3">
+                <Wrench className="w-4 h-4 text-primary" />
+                <span className="text-muted-foreground text-sm">Recommendations</span>
+              </div>
+              <ul className="space-y-2">
+                {result.recommendations.map((recommendation, index) => (
+                  <li key={index} className="text-sm flex items-start gap-2">
+                    <span className="text-primary">•</span>
+                    {recommendation}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </GlassCard>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <main className="container mx-auto px-4 pt-28 pb-16">
+        <Link to="/inspections" className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground mb-6">
+          <ArrowLeft className="w-4 h-4" />
+          All inspections
+        </Link>
+
+        {isLoading && <p className="text-muted-foreground">Loading inspection...</p>}
+
+        {isError && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Could not load inspection</AlertTitle>
+            <AlertDescription>{error instanceof Error ? error.message : "Please try again."}</AlertDescription>
+          </Alert>
+        )}
+
+        {!isLoading && !isError && !inspection && (
+          <GlassCard hover={false} className="text-center py-12">
+            <p className="text-muted-foreground">This inspection does not exist or is no longer available.</p>
+          </GlassCard>
+        )}
+
+        {inspection && (
+          <>
+            <div className="flex flex-wrap items-start justify-between gap-4 mb-8">
+              <div>
+                <h1 className="text-3xl md:text-4xl font-bold">
+                  Inspection <span className="text-gradient">Report</span>
+                </h1>
+                <p className="text-muted-foreground mt-2">
+                  {format(new Date(inspection.createdAt), "d MMM yyyy, HH:mm")} · {SOURCE_LABELS[inspection.source]}
+                  {inspection.vehicleRef && (
+                    <span className="font-mono">
+                      {" · "}
+                      {inspection.vehicleId ? (
+                        <Link to={`/vehicles/${inspection.vehicleId}`} className="hover:text-primary hover:underline underline-offset-4">
+                          {inspection.vehicleRef}
+                        </Link>
+                      ) : (
+                        inspection.vehicleRef
+                      )}
+                    </span>
+                  )}
+                </p>
+                <div className="flex flex-wrap items-center gap-1.5 mt-3">
+                  <SeverityBadge severity={inspection.overallSeverity} />
+                  {inspection.status !== "completed" && (
+                    <Badge variant={inspection.status === "failed" ? "destructive" : "secondary"}>{inspection.status}</Badge>
+                  )}
+                  <Badge variant="outline">{inspection.damageCount} damage(s)</Badge>
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {inspection.vehicleId && inspection.result && (
+                  <Button asChild variant="outline">
+                    <Link to={`/inspections/compare?after=${inspection.id}`}>
+                      <GitCompare className="w-4 h-4 mr-2" />
+                      Compare with previous
+                    </Link>
+                  </Button>
+                )}
+                <Button variant="outline" onClick={copyLink}>
+                  <Link2 className="w-4 h-4 mr-2" />
+                  Copy link
+                </Button>
+                <Button onClick={downloadPDF} disabled={!inspection.result || !inspection.media[0]?.preview}>
+                  <Download className="w-4 h-4 mr-2" />
+                  Download PDF
+                </Button>
+              </div>
+            </div>
+
+            {renderBody(inspection)}
+          </>
+        )}
+      </main>
+      <Footer />
+    </div>
+  );
+};
+
+export default InspectionDetail;
@@ -0,0 +1,301 @@
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { AlertTriangle, ClipboardList, Image as ImageIcon } from "lucide-react";
+import Navbar from "@/components/Navbar";
+import Footer from "@/components/Footer";
+import { GlassCard } from "@/components/GlassCard";
+import { SeverityBadge } from "@/components/SeverityBadge";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { INSPECTIONS_PAGE_SIZE, listInspections, type InspectionSort } from "@/lib/inspections";
+import { OVERALL_SEVERITIES, type OverallSeverity } from "@shared/contract.ts";
+import { formatCurrency } from "@shared/currency.ts";
+
+const SORT_OPTIONS: { value: InspectionSort; label: string }[] = [
+  { value: "newest", label: "Newest first" },
+  { value: "oldest", label: "Oldest first" },
+  { value: "cost-desc", label: "Highest cost" },
+  { value: "cost-asc", label: "Lowest cost" },
+];
+
+const SOURCE_LABELS = { image: "Single image", "multi-image": "Multi-angle", video: "Video" } as const;
+
+const isSeverity = (value: string | null): value is OverallSeverity =>
+  (OVERALL_SEVERITIES as readonly string[]).includes(value ?? "");
+
+const isSort = (value: string | null): value is InspectionSort =>
+  SORT_OPTIONS.some((option) => option.value === value);
+
+/** Page numbers to show: first, last and the neighbours of the current page, with null marking a gap. */
+const visiblePages = (current: number, count: number): (number | null)[] => {
+  const pages = [...new Set([0, current - 1, current, current + 1, count - 1])]
+    .filter((page) => page >= 0 && page < count)
+    .sort((a, b) => a - b);
+  return pages.flatMap((page, index) => (index > 0 && page - pages[index - 1] > 1 ? [null, page] : [page]));
+};
+
+const Inspections = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const page = Math.max(0, Number(searchParams.get("page") ?? 0) || 0);
+  const severity = isSeverity(searchParams.get("severity")) ? (searchParams.get("severity") as OverallSeverity) : null;
+  const sort = isSort(searchParams.get("sort")) ? (searchParams.get("sort") as InspectionSort) : "newest";
+  const from = searchParams.get("from");
+  const to = searchParams.get("to");
+  const vehicle = searchParams.get("vehicle") ?? "";
+
+  const filters = { severity, from, to, vehicle, sort };
+  const { data, isLoading, isError, error } = useQuery({
+    queryKey: ["inspections", filters, page],
+    queryFn: () => listInspections(filters, page),
+    placeholderData: keepPreviousData,
+  });
+
+  /** Updates one filter and returns to the first page. */
+  const updateParam = (key: string, value: string | null) => {
+    const next = new URLSearchParams(searchParams);
+    if (value) {
+      next.set(key, value);
+    } else {
+      next.delete(key);
+    }
+    if (key !== "page") next.delete("page");
+    setSearchParams(next, { replace: key !== "page" });
+  };
+
+  const pageCount = data ? Math.max(1, Math.ceil(data.total / INSPECTIONS_PAGE_SIZE)) : 1;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <main className="container mx-auto px-4 pt-28 pb-16">
+        <div className="mb-8">
+          <h1 className="text-3xl md:text-4xl font-bold flex items-center gap-3">
+            <ClipboardList className="w-8 h-8 text-primary" />
+            Inspection <span className="text-gradient">History</span>
+          </h1>
+          <p className="text-muted-foreground mt-2">Every analysis is saved here, including partial and failed runs.</p>
+        </div>
+
+        <GlassCard hover={false} className="mb-6">
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5">
+            <div className="space-y-1.5">
+              <Label htmlFor="filter-severity">Severity</Label>
+              <Select value={severity ?? "all"} onValueChange={(value) => updateParam("severity", value === "all" ? null : value)}>
+                <SelectTrigger id="filter-severity">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All severities</SelectItem>
+                  {OVERALL_SEVERITIES.map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {value}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="filter-from">From</Label>
+              <Input
+                id="filter-from"
+                type="date"
+                value={from ?? ""}
+                max={to ?? undefined}
+                onChange={(e) => updateParam("from", e.target.value || null)}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="filter-to">To</Label>
+              <Input
+                id="filter-to"
+                type="date"
+                value={to ?? ""}
+                min={from ?? undefined}
+                onChange={(e) => updateParam("to", e.target.value || null)}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="filter-vehicle">Vehicle</Label>
+              <Input
+                id="filter-vehicle"
+                placeholder="Plate or VIN"
+                value={vehicle}
+                onChange={(e) => updateParam("vehicle", e.target.value || null)}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="filter-sort">Sort by</Label>
+              <Select value={sort} onValueChange={(value) => updateParam("sort", value === "newest" ? null : value)}>
+                <SelectTrigger id="filter-sort">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SORT_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </GlassCard>
+
+        <GlassCard hover={false} className="p-0 overflow-hidden">
+          {isError ? (
+            <div className="flex items-center gap-3 p-6 text-destructive">
+              <AlertTriangle className="w-5 h-5" />
+              <span>{error instanceof Error ? error.message : "Could not load inspections."}</span>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-24">Image</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Vehicle</TableHead>
+                  <TableHead>Severity</TableHead>
+                  <TableHead className="text-right">Damages</TableHead>
+                  <TableHead className="text-right">Estimated cost</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading && (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground py-12">
+                      Loading inspections...
+                    </TableCell>
+                  </TableRow>
+                )}
+                {data?.items.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground py-12">
+                      No inspections match these filters.
+                    </TableCell>
+                  </TableRow>
+                )}
+                {data?.items.map((inspection) => (
+                  <TableRow
+                    key={inspection.id}
+                    className="cursor-pointer"
+                    onClick={() => navigate(`/inspections/${inspection.id}`)}
+                  >
+                    <TableCell>
+                      {inspection.thumbnail ? (
+                        <img
+                          src={inspection.thumbnail}
+                          alt="Inspected vehicle"
+                          className="w-20 h-14 object-cover rounded-md"
+                        />
+                      ) : (
+                        <div className="w-20 h-14 rounded-md bg-secondary flex items-center justify-center">
+                          <ImageIcon className="w-5 h-5 text-muted-foreground" />
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Link
+                        to={`/inspections/${inspection.id}`}
+                        className="font-medium hover:text-primary"
+                        onClick={(e) => e.stopPropagation()}
+                      >
+                        {format(new Date(inspection.createdAt), "d MMM yyyy")}
+                      </Link>
+                      <p className="text-xs text-muted-foreground">
+                        {format(new Date(inspection.createdAt), "HH:mm")} · {SOURCE_LABELS[inspection.source]}
+                      </p>
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">
+                      {inspection.vehicleId ? (
+                        <Link
+                          to={`/vehicles/${inspection.vehicleId}`}
+                          className="hover:text-primary underline-offset-4 hover:underline"
+                          onClick={(e) => e.stopPropagation()}
+                        >
+                          {inspection.vehicleRef ?? "Vehicle"}
+                        </Link>
+                      ) : (
+                        inspection.vehicleRef ?? "—"
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap items-center gap-1.5">
+                        <SeverityBadge severity={inspection.overallSeverity} />
+                        {inspection.status !== "completed" && (
+                          <Badge variant={inspection.status === "failed" ? "destructive" : "secondary"}>
+                            {inspection.status}
+                          </Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">{inspection.damageCount}</TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      {inspection.estimatedCost.max > 0
+                        ? `${formatCurrency(inspection.estimatedCost.min, inspection.estimatedCost.currency, { locale: navigator.language })} - ${formatCurrency(inspection.estimatedCost.max, inspection.estimatedCost.currency, { locale: navigator.language })}`
+                        : "—"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </GlassCard>
+
+        {pageCount > 1 && (
+          <Pagination className="mt-6">
+            <PaginationContent>
+              <PaginationItem>
+                <PaginationPrevious
+                  href="#"
+                  aria-disabled={page === 0}
+                  className={page === 0 ? "pointer-events-none opacity-50" : undefined}
+                  onClick={(e) => { e.preventDefault(); updateParam("page", String(page - 1)); }}
+                />
+              </PaginationItem>
+              {visiblePages(page, pageCount).map((pageNumber, index) => (
+                <PaginationItem key={pageNumber ?? `gap-${index}`}>
+                  {pageNumber === null ? (
+                    <PaginationEllipsis />
+                  ) : (
+                    <PaginationLink
+                      href="#"
+                      isActive={pageNumber === page}
+                      onClick={(e) => { e.preventDefault(); updateParam("page", pageNumber === 0 ? null : String(pageNumber)); }}
+                    >
+                      {pageNumber + 1}
+                    </PaginationLink>
+                  )}
+                </PaginationItem>
+              ))}
+              <PaginationItem>
+                <PaginationNext
+                  href="#"
+                  aria-disabled={page >= pageCount - 1}
+                  className={page >= pageCount - 1 ? "pointer-events-none opacity-50" : undefined}
+                  onClick={(e) => { e.preventDefault(); updateParam("page", String(page + 1)); }}
+                />
+              </PaginationItem>
+            </PaginationContent>
+          </Pagination>
+        )}
+      </main>
+      <Footer />
+    </div>
+  );
+};
+
+export default Inspections;
@@ -0,0 +1,144 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { AlertTriangle, Gauge } from "lucide-react";
+import Navbar from "@/components/Navbar";
+import Footer from "@/components/Footer";
+import { GlassCard } from "@/components/GlassCard";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAuth } from "@/hooks/use-auth";
+import { listMembers } from "@/lib/organizations";
+import { currentPeriod, getOrganizationUsage, periodResetsAt, USAGE_HISTORY_MONTHS, type UsageMonth } from "@/lib/usage";
+
+/** Month label for a yyyy-mm-dd period, built from its parts so time zones cannot shift it. */
+const monthLabel = (period: string) => {
+  const [year, month] = period.split("-").map(Number);
+  return format(new Date(year, month - 1, 1), "MMMM yyyy");
+};
+
+const Usage = () => {
+  const { membership } = useAuth();
+  const organizationId = membership?.organizationId ?? "";
+  const { data, isLoading, isError, error } = useQuery({
+    queryKey: ["organization-usage", organizationId],
+    queryFn: () => getOrganizationUsage(organizationId),
+    enabled: Boolean(organizationId),
+  });
+  const { data: members } = useQuery({
+    queryKey: ["organization-members"],
+    queryFn: listMembers,
+    enabled: Boolean(organizationId),
+  });
+
+  const period = currentPeriod();
+  const current: UsageMonth = data?.months.find((month) => month.period === period) ?? {
+    period,
+    creditsUsed: 0,
+    requests: 0,
+    byMember: [],
+  };
+  const percentUsed = data?.monthlyCredits ? Math.min(100, (current.creditsUsed / data.monthlyCredits) * 100) : 100;
+  const emailOf = (userId: string) => members?.find((member) => member.userId === userId)?.email ?? "Former member";
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <main className="container mx-auto px-4 pt-28 pb-16 max-w-4xl">
+        <h1 className="text-3xl md:text-4xl font-bold mb-2 flex items-center gap-3">
+          <Gauge className="w-8 h-8 text-primary" />
+          Usage
+        </h1>
+        <p className="text-muted-foreground mb-8">
+          Each analyzed image uses one credit. Images that fail to analyze are not counted.
+        </p>
+
+        {!membership && (
+          <GlassCard hover={false} className="text-center py-12">
+            <p className="text-muted-foreground">Join or create an organization to see its usage.</p>
+          </GlassCard>
+        )}
+
+        {isLoading && <p className="text-muted-foreground">Loading usage...</p>}
+
+        {isError && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Could not load usage</AlertTitle>
+            <AlertDescription>{error instanceof Error ? error.message : "Please try again."}</AlertDescription>
+          </Alert>
+        )}
+
+        {data && (
+          <div className="space-y-6">
+            <GlassCard hover={false}>
+              <p className="text-sm text-muted-foreground">{monthLabel(period)}</p>
+              <p className="text-2xl font-bold mt-1">
+                {current.creditsUsed} <span className="text-base font-normal text-muted-foreground">of {data.monthlyCredits} credits</span>
+              </p>
+              <Progress value={percentUsed} className="mt-4" />
+              <p className="text-xs text-muted-foreground mt-2">
+                {current.requests} request(s) this month · resets {format(periodResetsAt(period), "d MMM yyyy, HH:mm")}
+              </p>
+            </GlassCard>
+
+            {current.byMember.length > 0 && (
+              <GlassCard hover={false}>
+                <h2 className="text-lg font-semibold mb-4">By member this month</h2>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Member</TableHead>
+                      <TableHead className="text-right">Credits</TableHead>
+                      <TableHead className="text-right">Requests</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {current.byMember.map((member) => (
+                      <TableRow key={member.userId}>
+                        <TableCell>{emailOf(member.userId)}</TableCell>
+                        <TableCell className="text-right">{member.creditsUsed}</TableCell>
+                        <TableCell className="text-right">{member.requests}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </GlassCard>
+            )}
+
+            <GlassCard hover={false}>
+              <h2 className="text-lg font-semibold mb-4">Last {USAGE_HISTORY_MONTHS} months</h2>
+              {data.months.length === 0 ? (
+                <p className="text-muted-foreground">No analyses yet.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Month</TableHead>
+                      <TableHead className="text-right">Credits</TableHead>
+                      <TableHead className="text-right">Requests</TableHead>
+                      <TableHead className="text-right">Members</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {data.months.map((month) => (
+                      <TableRow key={month.period}>
+                        <TableCell>{monthLabel(month.period)}</TableCell>
+                        <TableCell className="text-right">{month.creditsUsed}</TableCell>
+                        <TableCell className="text-right">{month.requests}</TableCell>
+                        <TableCell className="text-right">{month.byMember.length}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </GlassCard>
+          </div>
+        )}
+      </main>
+      <Footer />
+    </div>
+  );
+};
+
+export default Usage;
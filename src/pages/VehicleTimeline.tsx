@@ -0,0 +1,201 @@
+import { Link, useParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { AlertTriangle, ArrowLeft, Car, CheckCircle, EyeOff, GitCompare, Image as ImageIcon, PlusCircle, RefreshCw } from "lucide-react";
+import Navbar from "@/components/Navbar";
+import Footer from "@/components/Footer";
+import { GlassCard } from "@/components/GlassCard";
+import { SeverityBadge } from "@/components/SeverityBadge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { getVehicleHistory, type VehicleFinding } from "@/lib/vehicles";
+import { buildDamageTimeline } from "@shared/damage-tracking.ts";
+import { describeDamageLocation } from "@shared/parts.ts";
+import { vehicleLabel } from "@shared/vehicles.ts";
+
+const SOURCE_LABELS = { image: "Single image", "multi-image": "Multi-angle", video: "Video" } as const;
+
+const FindingRow = ({ finding, previous }: { finding: VehicleFinding; previous?: VehicleFinding }) => (
+  <li className="flex flex-wrap items-center gap-2 text-sm">
+    <span className="capitalize">{finding.type.replace(/_/g, " ")}</span>
+    <span className="text-muted-foreground">on {describeDamageLocation(finding, navigator.language)}</span>
+    {previous && previous.severity !== finding.severity && <SeverityBadge severity={previous.severity} className="opacity-60" />}
+    {previous && previous.severity !== finding.severity && <span className="text-muted-foreground">→</span>}
+    <SeverityBadge severity={finding.severity} />
+  </li>
+);
+
+const VehicleTimeline = () => {
+  const { id = "" } = useParams();
+  const { data, isLoading, isError, error } = useQuery({
+    queryKey: ["vehicle", id],
+    queryFn: () => getVehicleHistory(id),
+  });
+
+  // Failed runs analyzed nothing, so they neither show damages nor rule them out
+  const compared = data?.inspections.filter((inspection) => inspection.status !== "failed") ?? [];
+  const timeline = buildDamageTimeline(compared);
+  const latest = timeline[timeline.length - 1];
+  const newestFirst = timeline.map((entry, index) => ({ ...entry, previous: timeline[index - 1]?.inspection })).reverse();
+  const repairedCount = timeline.reduce((sum, entry) => sum + entry.repaired.length, 0);
+  const failedCount = (data?.inspections.length ?? 0) - compared.length;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <main className="container mx-auto px-4 pt-28 pb-16">
+        <Link to="/inspections" className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground mb-6">
+          <ArrowLeft className="w-4 h-4" />
+          All inspections
+        </Link>
+
+        {isLoading && <p className="text-muted-foreground">Loading vehicle...</p>}
+
+        {isError && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Could not load vehicle</AlertTitle>
+            <AlertDescription>{error instanceof Error ? error.message : "Please try again."}</AlertDescription>
+          </Alert>
+        )}
+
+        {!isLoading && !isError && !data && (
+          <GlassCard hover={false} className="text-center py-12">
+            <p className="text-muted-foreground">This vehicle does not exist or is no longer available.</p>
+          </GlassCard>
+        )}
+
+        {data && (
+          <>
+            <div className="mb-8">
+              <h1 className="text-3xl md:text-4xl font-bold flex items-center gap-3">
+                <Car className="w-8 h-8 text-primary" />
+                {vehicleLabel(data.vehicle)}
+              </h1>
+              <div className="flex flex-wrap gap-2 mt-3">
+                {data.vehicle.plate && <Badge variant="outline" className="font-mono">{data.vehicle.plate}</Badge>}
+                {data.vehicle.vin && <Badge variant="outline" className="font-mono">VIN {data.vehicle.vin}</Badge>}
+                {data.vehicle.color && <Badge variant="secondary">{data.vehicle.color}</Badge>}
+              </div>
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-3 mb-8">
+              <GlassCard hover={false}>
+                <p className="text-sm text-muted-foreground">Inspections</p>
+                <p className="text-2xl font-bold">{data.inspections.length}</p>
+              </GlassCard>
+              <GlassCard hover={false}>
+                <p className="text-sm text-muted-foreground">Open damages</p>
+                <p className="text-2xl font-bold">{(latest?.inspection.damages.length ?? 0) + (latest?.unchecked.length ?? 0)}</p>
+              </GlassCard>
+              <GlassCard hover={false}>
+                <p className="text-sm text-muted-foreground">Repaired since first inspection</p>
+                <p className="text-2xl font-bold">{repairedCount}</p>
+              </GlassCard>
+            </div>
+
+            {timeline.length === 0 && (
+              <GlassCard hover={false} className="text-center py-12">
+                <p className="text-muted-foreground">No completed inspections for this vehicle yet.</p>
+              </GlassCard>
+            )}
+
+            <ol className="relative border-l border-border ml-3 space-y-6">
+              {newestFirst.map(({ inspection, previous, appeared, persisted, repaired, unchecked }) => {
+                const summary = data.inspections.find((item) => item.id === inspection.id);
+                return (
+                  <li key={inspection.id} className="ml-6">
+                    <span className="absolute -left-1.5 mt-6 w-3 h-3 rounded-full bg-primary" />
+                    <GlassCard hover={false}>
+                      <div className="flex flex-wrap items-start gap-4">
+                        {summary?.thumbnail ? (
+                          <img src={summary.thumbnail} alt="Inspected vehicle" className="w-24 h-16 object-cover rounded-md" />
+                        ) : (
+                          <div className="w-24 h-16 rounded-md bg-secondary flex items-center justify-center">
+                            <ImageIcon className="w-5 h-5 text-muted-foreground" />
+                          </div>
+                        )}
+                        <div className="flex-1 min-w-0">
+                          <Link to={`/inspections/${inspection.id}`} className="font-medium hover:text-primary">
+                            {format(new Date(inspection.createdAt), "d MMM yyyy, HH:mm")}
+                          </Link>
+                          <p className="text-xs text-muted-foreground">
+                            {summary && SOURCE_LABELS[summary.source]}
+                            {summary?.status === "partial" && " · partial"}
+                          </p>
+                        </div>
+                        {summary && <SeverityBadge severity={summary.overallSeverity} />}
+                        {previous && (
+                          <Link
+                            to={`/inspections/compare?before=${previous.id}&after=${inspection.id}`}
+                            className="inline-flex items-center gap-1 text-sm text-primary hover:underline underline-offset-4"
+                          >
+                            <GitCompare className="w-4 h-4" />
+                            Compare with previous
+                          </Link>
+                        )}
+                      </div>
+
+                      <div className="grid gap-4 md:grid-cols-3 mt-4">
+                        <div>
+                          <p className="flex items-center gap-2 text-sm font-medium text-destructive mb-2">
+                            <PlusCircle className="w-4 h-4" />
+                            Appeared ({appeared.length})
+                          </p>
+                          <ul className="space-y-1.5">
+                            {appeared.map((finding, index) => <FindingRow key={index} finding={finding} />)}
+                          </ul>
+                        </div>
+                        <div>
+                          <p className="flex items-center gap-2 text-sm font-medium text-warning mb-2">
+                            <RefreshCw className="w-4 h-4" />
+                            Still present ({persisted.length})
+                          </p>
+                          <ul className="space-y-1.5">
+                            {persisted.map(({ before, after }, index) => (
+                              <FindingRow key={index} finding={after} previous={before} />
+                            ))}
+                          </ul>
+                        </div>
+                        <div>
+                          <p className="flex items-center gap-2 text-sm font-medium text-success mb-2">
+                            <CheckCircle className="w-4 h-4" />
+                            Repaired ({repaired.length})
+                          </p>
+                          <ul className="space-y-1.5">
+                            {repaired.map((finding, index) => <FindingRow key={index} finding={finding} />)}
+                          </ul>
+                        </div>
+                      </div>
+
+                      {unchecked.length > 0 && (
+                        <div className="mt-4">
+                          <p className="flex items-center gap-2 text-sm font-medium text-muted-foreground mb-2">
+                            <EyeOff className="w-4 h-4" />
+                            Not photographed this time ({unchecked.length})
+                          </p>
+                          <ul className="space-y-1.5">
+                            {unchecked.map((finding, index) => <FindingRow key={index} finding={finding} />)}
+                          </ul>
+                        </div>
+                      )}
+                    </GlassCard>
+                  </li>
+                );
+              })}
+            </ol>
+
+            {failedCount > 0 && (
+              <p className="text-sm text-muted-foreground mt-6">
+                {failedCount} failed inspection(s) are not part of the timeline.
+              </p>
+            )}
+          </>
+        )}
+      </main>
+      <Footer />
+    </div>
+  );
+};
+
+export default VehicleTimeline;
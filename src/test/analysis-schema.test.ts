@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import { boundingBoxSchema, damageItemSchema, parseModelOutput } from "@shared/analysis-schema.ts";
+
+const validReply = {
+  hasVehicle: true,
+  hasDamage: true,
+  overallSeverity: "Moderate",
+  confidenceScore: 85,
+  damages: [
+    {
+      type: "dent",
+      part: "front_left_door",
+      location: "Front left door",
+      severity: "Moderate",
+      description: "Dent below the handle",
+      boundingBoxes: [{ x: 0.2, y: 0.3, width: 0.1, height: 0.1 }],
+    },
+  ],
+  affectedAreas: ["Front left door"],
+  recommendations: ["Paintless dent repair"],
+  summary: "One dent on the front left door.",
+};
+
+describe("boundingBoxSchema", () => {
+  it("keeps normalized coordinates", () => {
+    expect(boundingBoxSchema.parse({ x: 0.2, y: 0.3, width: 0.5, height: 0.4 })).toEqual({ x: 0.2, y: 0.3, width: 0.5, height: 0.4 });
+  });
+
+  it("clamps values slightly past the edge instead of reading them as percentages", () => {
+    expect(boundingBoxSchema.parse({ x: 1.02, y: 0, width: 0.1, height: 1.04 })).toEqual({ x: 1, y: 0, width: 0, height: 1 });
+  });
+
+  it("scales percentages when every coordinate is at most 100", () => {
+    expect(boundingBoxSchema.parse({ x: 20, y: 30, width: 50, height: 40 })).toEqual({ x: 0.2, y: 0.3, width: 0.5, height: 0.4 });
+  });
+
+  it("decides the scale for the box as a whole", () => {
+    // 0.5 next to 40 is a half percent, not half the image
+    expect(boundingBoxSchema.parse({ x: 0.5, y: 10, width: 40, height: 20 })).toEqual({ x: 0.005, y: 0.1, width: 0.4, height: 0.2 });
+  });
+
+  it("accepts numeric strings", () => {
+    expect(boundingBoxSchema.parse({ x: "0.25", y: "0.5", width: "0.25", height: "0.25" })).toEqual({ x: 0.25, y: 0.5, width: 0.25, height: 0.25 });
+  });
+
+  it("rejects pixel and negative coordinates", () => {
+    expect(boundingBoxSchema.safeParse({ x: 640, y: 20, width: 100, height: 100 }).success).toBe(false);
+    expect(boundingBoxSchema.safeParse({ x: -0.1, y: 0.2, width: 0.1, height: 0.1 }).success).toBe(false);
+  });
+
+  it("clips boxes to the image", () => {
+    expect(boundingBoxSchema.parse({ x: 0.75, y: 0.5, width: 0.5, height: 0.75 })).toEqual({ x: 0.75, y: 0.5, width: 0.25, height: 0.5 });
+  });
+});
+
+describe("damageItemSchema", () => {
+  const item = { type: "dent", location: "Front left door", severity: "Minor" };
+
+  it("scales polygons given in percent", () => {
+    const parsed = damageItemSchema.parse({ ...item, polygons: [[[10, 10], [50, 10], [50, 40]]] });
+    expect(parsed.polygons).toEqual([[[0.1, 0.1], [0.5, 0.1], [0.5, 0.4]]]);
+  });
+
+  it("rejects polygons in pixels", () => {
+    expect(damageItemSchema.safeParse({ ...item, polygons: [[[10, 10], [500, 10], [500, 400]]] }).success).toBe(false);
+  });
+
+  it("maps severity and type aliases", () => {
+    const parsed = damageItemSchema.parse({ ...item, type: "Scratches", severity: "high" });
+    expect(parsed.type).toBe("scratch");
+    expect(parsed.severity).toBe("Severe");
+  });
+
+  it("files unknown damage types under other", () => {
+    expect(damageItemSchema.parse({ ...item, type: "hail pockmarks" }).type).toBe("other");
+  });
+
+  it("resolves the part from the location when the part is missing or unknown", () => {
+    expect(damageItemSchema.parse(item).part).toBe("front_left_door");
+    expect(damageItemSchema.parse({ ...item, part: "somewhere" }).part).toBe("front_left_door");
+  });
+
+  it("defaults missing boxes and descriptions", () => {
+    expect(damageItemSchema.parse(item)).toMatchObject({ boundingBoxes: [], description: "" });
+  });
+});
+
+describe("parseModelOutput", () => {
+  it("reads JSON wrapped in a code fence and prose", () => {
+    const parsed = parseModelOutput(`Here is the analysis:\n\`\`\`json\n${JSON.stringify(validReply)}\n\`\`\`\nLet me know.`);
+    expect(parsed.success).toBe(true);
+    if (parsed.success) expect(parsed.data.affectedParts).toEqual(["front_left_door"]);
+  });
+
+  it("coerces near-miss values", () => {
+    const parsed = parseModelOutput(JSON.stringify({
+      ...validReply,
+      hasVehicle: "yes",
+      hasDamage: "True",
+      overallSeverity: "medium",
+      confidenceScore: "85",
+      affectedAreas: null,
+      recommendations: null,
+    }));
+    expect(parsed.success).toBe(true);
+    if (!parsed.success) return;
+    expect(parsed.data).toMatchObject({ hasVehicle: true, hasDamage: true, overallSeverity: "Moderate", confidenceScore: 85 });
+    expect(parsed.data.affectedAreas).toEqual([]);
+    expect(parsed.data.estimatedRepairCost).toEqual({ min: 0, max: 0, currency: "INR" });
+  });
+
+  it("reports the path of an invalid field", () => {
+    const parsed = parseModelOutput(JSON.stringify({ ...validReply, confidenceScore: 140 }));
+    expect(parsed).toMatchObject({
+      success: false,
+      issues: expect.arrayContaining([expect.objectContaining({ path: "confidenceScore" })]),
+    });
+  });
+
+  it("fails on empty and non-JSON replies", () => {
+    expect(parseModelOutput("")).toMatchObject({ success: false });
+    expect(parseModelOutput("I cannot analyze this image.")).toMatchObject({ success: false });
+  });
+});
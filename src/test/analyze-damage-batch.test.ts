@@ -0,0 +1,55 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { SCHEMA_VERSION, type AnalysisResult, type AnalyzeDamageBatchResponse } from "@shared/contract.ts";
+import { combineResults } from "@shared/combine.ts";
+
+const invoke = vi.fn();
+vi.mock("@/integrations/supabase/client", () => ({ supabase: { functions: { invoke } } }));
+
+const { analyzeDamageBatch } = await import("@/lib/analyze-damage");
+
+const result = (part: "front_bumper" | "rear_bumper" | "hood", max: number): AnalysisResult => ({
+  hasVehicle: true,
+  hasDamage: true,
+  overallSeverity: "Moderate",
+  confidenceScore: 80,
+  damages: [{ type: "dent", part, location: part.replace("_", " "), severity: "Moderate", description: "", boundingBoxes: [] }],
+  affectedAreas: [],
+  affectedParts: [part],
+  estimatedRepairCost: { min: max / 2, max, currency: "INR" },
+  recommendations: [],
+  summary: "",
+});
+
+const response = (results: unknown[]): AnalyzeDamageBatchResponse => ({
+  schemaVersion: SCHEMA_VERSION,
+  items: results.map((item, index) => ({ id: String(index), status: "ok", result: { ...(item as object), schemaVersion: SCHEMA_VERSION } })),
+  combined: combineResults(results.map((item, frameIndex) => ({ ...(item as AnalysisResult), frameIndex })), "multi-image"),
+} as AnalyzeDamageBatchResponse);
+
+describe("analyzeDamageBatch", () => {
+  beforeEach(() => invoke.mockReset());
+
+  it("keeps the server's summary when every result is accepted", async () => {
+    const data = response([result("front_bumper", 10000), result("rear_bumper", 6000)]);
+    invoke.mockResolvedValue({ data, error: null });
+    const { combined, failures } = await analyzeDamageBatch(["a", "b"], "multi-image");
+    expect(failures).toEqual([]);
+    expect(combined).toMatchObject({ totalFramesAnalyzed: 2, estimatedRepairCost: { max: 16000 }, summary: data.combined.summary });
+  });
+
+  it("recomputes the summary without results the app rejects", async () => {
+    const malformed = { ...result("hood", 40000), confidenceScore: "very" };
+    invoke.mockResolvedValue({ data: response([result("front_bumper", 10000), malformed, result("rear_bumper", 6000)]), error: null });
+    const { combined, failures } = await analyzeDamageBatch(["a", "b", "c"], "multi-image");
+    expect(failures.map(({ index, error }) => [index, error.code])).toEqual([[1, "validation_failed"]]);
+    expect(combined).toMatchObject({ totalFramesAnalyzed: 2, affectedParts: ["front_bumper", "rear_bumper"], estimatedRepairCost: { max: 16000 } });
+    expect(combined.frameResults.map(({ frameIndex }) => frameIndex)).toEqual([0, 2]);
+  });
+
+  it("has no summary when every result is rejected", async () => {
+    invoke.mockResolvedValue({ data: response([{ ...result("hood", 40000), confidenceScore: "very" }]), error: null });
+    const { combined, failures } = await analyzeDamageBatch(["a"], "multi-image");
+    expect(combined).toBeNull();
+    expect(failures).toHaveLength(1);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { buildDamageTimeline, diffDamages, isPartCovered, type TimelineInspection, type TrackedDamage } from "@shared/damage-tracking.ts";
+import { VIEWPOINTS, type Viewpoint } from "@shared/viewpoints.ts";
+
+const damage = (part: TrackedDamage["part"], type: TrackedDamage["type"] = "dent"): TrackedDamage => ({
+  type,
+  part,
+  location: part.replace(/_/g, " "),
+  severity: "Minor",
+});
+
+const inspection = (
+  day: number,
+  damages: TrackedDamage[],
+  viewpoints: Viewpoint[] = [...VIEWPOINTS],
+): TimelineInspection<TrackedDamage> => ({
+  id: `inspection-${day}`,
+  createdAt: `2026-10-${String(day).padStart(2, "0")}T09:00:00Z`,
+  damages,
+  viewpoints,
+});
+
+const parts = (damages: TrackedDamage[]) => damages.map((item) => item.part);
+
+describe("diffDamages", () => {
+  it("pairs damages by part and type and leaves the rest new or repaired", () => {
+    const diff = diffDamages(
+      [damage("front_bumper"), damage("hood", "scratch")],
+      [damage("front_bumper"), damage("rear_bumper")],
+    );
+    expect(diff.existing.map(({ after }) => after.part)).toEqual(["front_bumper"]);
+    expect(parts(diff.new)).toEqual(["rear_bumper"]);
+    expect(parts(diff.repaired)).toEqual(["hood"]);
+  });
+});
+
+describe("isPartCovered", () => {
+  it("sees a sided part from its side or corner", () => {
+    expect(isPartCovered(damage("front_left_door"), ["left"])).toBe(true);
+    expect(isPartCovered(damage("front_left_door"), ["front_left"])).toBe(true);
+    expect(isPartCovered(damage("front_left_door"), ["front", "right"])).toBe(false);
+    expect(isPartCovered(damage("rear_bumper"), ["rear_right"])).toBe(true);
+  });
+
+  it("needs the whole exterior for parts without a side", () => {
+    expect(isPartCovered(damage("hood"), ["front", "front_left"])).toBe(false);
+    expect(isPartCovered(damage("hood"), [...VIEWPOINTS])).toBe(true);
+  });
+});
+
+describe("buildDamageTimeline", () => {
+  it("marks a damage repaired when a later walk-around shows its part without it", () => {
+    const [, later] = buildDamageTimeline([
+      inspection(1, [damage("front_bumper"), damage("rear_left_door")]),
+      inspection(2, [damage("front_bumper")]),
+    ]);
+    expect(later.persisted).toHaveLength(1);
+    expect(parts(later.repaired)).toEqual(["rear_left_door"]);
+    expect(later.unchecked).toEqual([]);
+  });
+
+  it("keeps damages open when a partial inspection did not photograph their part", () => {
+    const timeline = buildDamageTimeline([
+      inspection(1, [damage("front_bumper"), damage("rear_left_door")]),
+      inspection(2, [], ["front"]),
+      inspection(3, [damage("rear_left_door")]),
+    ]);
+    expect(parts(timeline[1].repaired)).toEqual(["front_bumper"]);
+    expect(parts(timeline[1].unchecked)).toEqual(["rear_left_door"]);
+    // The door was never repaired, so the next walk-around still sees the same damage
+    expect(timeline[2].appeared).toEqual([]);
+    expect(timeline[2].persisted.map(({ after }) => after.part)).toEqual(["rear_left_door"]);
+  });
+
+  it("rules nothing out from untagged images", () => {
+    const [, later] = buildDamageTimeline([
+      inspection(1, [damage("front_bumper"), damage("hood", "scratch")]),
+      inspection(2, [damage("front_bumper")], []),
+    ]);
+    expect(later.repaired).toEqual([]);
+    expect(parts(later.unchecked)).toEqual(["hood"]);
+  });
+
+  it("orders inspections by date", () => {
+    const timeline = buildDamageTimeline([inspection(5, []), inspection(2, [damage("roof")])]);
+    expect(timeline.map(({ inspection }) => inspection.id)).toEqual(["inspection-2", "inspection-5"]);
+    expect(parts(timeline[1].repaired)).toEqual(["roof"]);
+  });
+});
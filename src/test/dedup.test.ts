@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { deduplicateDamages, descriptionSimilarity } from "@shared/dedup.ts";
+import type { AnalysisResult, BoundingBox, DamageItem } from "@shared/contract.ts";
+
+const box = (x: number, y = 0.4, size = 0.1): BoundingBox => ({ x, y, width: size, height: size });
+
+const damage = (overrides: Partial<DamageItem> = {}): DamageItem => ({
+  type: "dent",
+  part: "front_left_door",
+  location: "Front left door",
+  severity: "Minor",
+  description: "",
+  boundingBoxes: [],
+  ...overrides,
+});
+
+const result = (frameIndex: number, damages: DamageItem[]): AnalysisResult & { frameIndex: number } => ({
+  frameIndex,
+  hasVehicle: true,
+  hasDamage: damages.length > 0,
+  overallSeverity: damages.length > 0 ? "Minor" : "None",
+  confidenceScore: 90,
+  damages,
+  affectedAreas: [],
+  affectedParts: [],
+  estimatedRepairCost: { min: 0, max: 0, currency: "INR" },
+  recommendations: [],
+  summary: "",
+});
+
+/** Each distinct damage as "frame:index" pairs of its occurrences. */
+const clusters = (results: (AnalysisResult & { frameIndex: number })[]) =>
+  deduplicateDamages(results).map((distinct) =>
+    distinct.occurrences.map(({ frameIndex, damageIndex }) => `${frameIndex}:${damageIndex}`)
+  );
+
+describe("deduplicateDamages within one image", () => {
+  it("merges reports whose boxes overlap", () => {
+    expect(clusters([result(0, [damage({ boundingBoxes: [box(0.1)] }), damage({ boundingBoxes: [box(0.12)] })])]))
+      .toEqual([["0:0", "0:1"]]);
+  });
+
+  it("keeps separate dents on one panel apart", () => {
+    expect(clusters([result(0, [damage({ boundingBoxes: [box(0.1)] }), damage({ boundingBoxes: [box(0.6)] })])]))
+      .toEqual([["0:0"], ["0:1"]]);
+  });
+
+  it("never merges different damage types or parts", () => {
+    expect(clusters([result(0, [
+      damage({ boundingBoxes: [box(0.1)] }),
+      damage({ type: "scratch", boundingBoxes: [box(0.1)] }),
+      damage({ part: "rear_left_door", boundingBoxes: [box(0.1)] }),
+    ])])).toEqual([["0:0"], ["0:1"], ["0:2"]]);
+  });
+});
+
+describe("deduplicateDamages across images", () => {
+  it("merges reports in roughly the same place", () => {
+    expect(clusters([
+      result(0, [damage({ boundingBoxes: [box(0.1)] })]),
+      result(1, [damage({ boundingBoxes: [box(0.14)] })]),
+    ])).toEqual([["0:0", "1:0"]]);
+  });
+
+  it("merges reports with similar descriptions even when the boxes moved", () => {
+    expect(clusters([
+      result(0, [damage({ description: "Crease along the lower edge", boundingBoxes: [box(0.1)] })]),
+      result(1, [damage({ description: "Crease along lower edge of the door", boundingBoxes: [box(0.7)] })]),
+    ])).toEqual([["0:0", "1:0"]]);
+  });
+
+  it("keeps same-part, same-type reports apart without a similarity signal", () => {
+    expect(clusters([
+      result(0, [damage({ description: "Small dent near the handle", boundingBoxes: [box(0.1)] })]),
+      result(1, [damage({ description: "Deep crease at the bottom", boundingBoxes: [box(0.7)] })]),
+    ])).toEqual([["0:0"], ["1:0"]]);
+  });
+
+  it("keeps reports without boxes or descriptions apart", () => {
+    expect(clusters([result(0, [damage()]), result(1, [damage()]), result(2, [damage()])]))
+      .toEqual([["0:0"], ["1:0"], ["2:0"]]);
+  });
+
+  it("counts two dents seen in every video frame as two damages", () => {
+    const frames = [0, 1, 2, 3].map((frameIndex) => result(frameIndex, [
+      damage({ boundingBoxes: [box(0.1 + frameIndex * 0.01)] }),
+      damage({ boundingBoxes: [box(0.6 + frameIndex * 0.01)] }),
+    ]));
+    expect(clusters(frames)).toEqual([["0:0", "1:0", "2:0", "3:0"], ["0:1", "1:1", "2:1", "3:1"]]);
+  });
+
+  it("keeps the highest severity and the costliest view of a merged damage", () => {
+    const lineItem = (max: number) => ({ damageIndex: 0, part: "front_left_door" as const, category: "labor" as const, description: "", min: max / 2, max });
+    const [distinct] = deduplicateDamages([
+      { ...result(0, [damage({ boundingBoxes: [box(0.1)], description: "minor" })]), estimatedRepairCost: { min: 500, max: 1000, currency: "INR", lineItems: [lineItem(1000)] } },
+      { ...result(1, [damage({ boundingBoxes: [box(0.1)], severity: "Moderate", description: "moderate" })]), estimatedRepairCost: { min: 250, max: 500, currency: "INR", lineItems: [lineItem(500)] } },
+    ]);
+    expect(distinct.severity).toBe("Moderate");
+    expect(distinct.description).toBe("moderate");
+    expect(distinct.supportingFrames).toEqual([0, 1]);
+    expect(distinct.estimatedRepairCost).toMatchObject({ min: 500, max: 1000 });
+  });
+});
+
+describe("descriptionSimilarity", () => {
+  it("ignores case, punctuation and filler words", () => {
+    expect(descriptionSimilarity("Dent, visible near the HANDLE", "dent handle")).toBe(1);
+  });
+
+  it("is 0 when either description has no meaningful words", () => {
+    expect(descriptionSimilarity("", "dent near handle")).toBe(0);
+    expect(descriptionSimilarity("the damage", "dent near handle")).toBe(0);
+  });
+});
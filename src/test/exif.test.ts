@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { readCaptureTime, toIsoCaptureTime, writeCaptureTime } from "@/lib/exif";
+
+/** SOI, a JFIF APP0 segment, and SOS onwards with a few bytes of scan data and EOI. */
+const jfifJpeg = () =>
+  new Uint8Array([
+    0xff, 0xd8,
+    0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01, 0x01, 0x00, 0x00, 0x01, 0x00, 0x01, 0x00, 0x00,
+    0xff, 0xda, 0x00, 0x02, 0x12, 0x34,
+    0xff, 0xd9,
+  ]).buffer;
+
+/** A little-endian EXIF segment with only DateTime in IFD0, as some cameras write it. */
+const littleEndianExif = (dateTime: string) => {
+  const value = `${dateTime}\0`;
+  const tiffSize = 8 + 2 + 12 + 4 + value.length;
+  const segment = new Uint8Array(4 + 6 + tiffSize);
+  const view = new DataView(segment.buffer);
+  view.setUint16(0, 0xffe1);
+  view.setUint16(2, segment.length - 2);
+  segment.set([0x45, 0x78, 0x69, 0x66, 0x00, 0x00], 4);
+  const tiff = 10;
+  segment.set([0x49, 0x49], tiff);
+  view.setUint16(tiff + 2, 42, true);
+  view.setUint32(tiff + 4, 8, true);
+  view.setUint16(tiff + 8, 1, true);
+  view.setUint16(tiff + 10, 0x0132, true);
+  view.setUint16(tiff + 12, 2, true);
+  view.setUint32(tiff + 14, value.length, true);
+  view.setUint32(tiff + 18, 26, true);
+  view.setUint32(tiff + 22, 0, true);
+  for (let i = 0; i < value.length; i++) segment[tiff + 26 + i] = value.charCodeAt(i);
+  return segment;
+};
+
+const withSegment = (segment: Uint8Array) => {
+  const jpeg = new Uint8Array(jfifJpeg());
+  const result = new Uint8Array(jpeg.length + segment.length);
+  result.set(jpeg.subarray(0, 2));
+  result.set(segment, 2);
+  result.set(jpeg.subarray(2), 2 + segment.length);
+  return result.buffer;
+};
+
+describe("writeCaptureTime and readCaptureTime", () => {
+  it("round-trips a capture time with its UTC offset", () => {
+    const captureTime = { dateTime: "2026:10:19 14:05:09", offset: "+05:30" };
+    const written = writeCaptureTime(jfifJpeg(), captureTime);
+    expect(readCaptureTime(written.buffer)).toEqual(captureTime);
+  });
+
+  it("round-trips a capture time without an offset", () => {
+    const captureTime = { dateTime: "2026:01:02 03:04:05", offset: null };
+    expect(readCaptureTime(writeCaptureTime(jfifJpeg(), captureTime).buffer)).toEqual(captureTime);
+  });
+
+  it("inserts the EXIF segment after the JFIF header and keeps the rest intact", () => {
+    const original = new Uint8Array(jfifJpeg());
+    const written = writeCaptureTime(original.buffer, { dateTime: "2026:10:19 14:05:09", offset: null });
+    expect(Array.from(written.subarray(0, 20))).toEqual(Array.from(original.subarray(0, 20)));
+    expect(Array.from(written.subarray(20, 22))).toEqual([0xff, 0xe1]);
+    expect(Array.from(written.subarray(written.length - 8))).toEqual(Array.from(original.subarray(20)));
+  });
+
+  it("leaves data that is not a JPEG unchanged", () => {
+    const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+    expect(Array.from(writeCaptureTime(png.buffer, { dateTime: "2026:10:19 14:05:09", offset: null }))).toEqual(Array.from(png));
+  });
+});
+
+describe("readCaptureTime", () => {
+  it("returns null for a JPEG without EXIF", () => {
+    expect(readCaptureTime(jfifJpeg())).toBeNull();
+  });
+
+  it("falls back to IFD0 DateTime in little-endian EXIF", () => {
+    expect(readCaptureTime(withSegment(littleEndianExif("2025:12:31 23:59:58")))).toEqual({
+      dateTime: "2025:12:31 23:59:58",
+      offset: null,
+    });
+  });
+
+  it("ignores malformed dates", () => {
+    expect(readCaptureTime(withSegment(littleEndianExif("yesterday")))).toBeNull();
+  });
+
+  it("treats truncated EXIF as absent", () => {
+    const truncated = new Uint8Array(withSegment(littleEndianExif("2025:12:31 23:59:58"))).slice(0, 30);
+    expect(readCaptureTime(truncated.buffer)).toBeNull();
+  });
+});
+
+describe("toIsoCaptureTime", () => {
+  it("formats the capture time as ISO 8601", () => {
+    expect(toIsoCaptureTime({ dateTime: "2026:10:19 14:05:09", offset: "+05:30" })).toBe("2026-10-19T14:05:09+05:30");
+    expect(toIsoCaptureTime({ dateTime: "2026:10:19 14:05:09", offset: null })).toBe("2026-10-19T14:05:09");
+  });
+
+  it("returns null for a malformed date", () => {
+    expect(toIsoCaptureTime({ dateTime: "2026-10-19", offset: null })).toBeNull();
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { hashBytes, hashPixels } from "@shared/image-hash.ts";
+
+/** A width x height RGBA image of one gray level. */
+const gray = (width: number, height: number, level = 128) => new Uint8Array(width * height * 4).fill(level);
+
+describe("hashPixels", () => {
+  it("gives identical pixels the same hash", async () => {
+    expect(await hashPixels(4, 2, gray(4, 2))).toBe(await hashPixels(4, 2, new Uint8ClampedArray(gray(4, 2))));
+  });
+
+  it("changes when a single channel of one pixel changes by one level", async () => {
+    const changed = gray(4, 2);
+    changed[13] = 129;
+    expect(await hashPixels(4, 2, changed)).not.toBe(await hashPixels(4, 2, gray(4, 2)));
+  });
+
+  it("tells apart the same bytes at different dimensions", async () => {
+    expect(await hashPixels(4, 2, gray(4, 2))).not.toBe(await hashPixels(2, 4, gray(2, 4)));
+  });
+
+  it("is a SHA-256 hex digest", async () => {
+    expect(await hashPixels(1, 1, gray(1, 1))).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
+
+describe("hashBytes", () => {
+  it("matches the known SHA-256 of a string", async () => {
+    expect(await hashBytes(new TextEncoder().encode("abc")))
+      .toBe("ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad");
+  });
+});
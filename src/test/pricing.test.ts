@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { convertAmount, isSupportedCurrency } from "@shared/currency.ts";
+import { buildRegionalRateTable, convertRateTable, regionFromLocale, resolveRateTable } from "@shared/regions.ts";
+import { DEFAULT_RATE_TABLE, mergeRateTable, rateTableOverrideSchema } from "@shared/repair-rates.ts";
+
+const rates = { USD: 1, INR: 80, EUR: 0.5 };
+
+describe("convertAmount", () => {
+  it("converts through the per-USD rates", () => {
+    expect(convertAmount(8000, "INR", "USD", rates)).toBe(100);
+    expect(convertAmount(8000, "INR", "EUR", rates)).toBe(50);
+    expect(convertAmount(50, "EUR", "INR", rates)).toBe(8000);
+  });
+
+  it("returns the amount unchanged within one currency", () => {
+    expect(convertAmount(123, "XYZ", "XYZ", rates)).toBe(123);
+  });
+
+  it("refuses currencies without a rate", () => {
+    expect(() => convertAmount(1, "INR", "JPY", rates)).toThrow("JPY");
+  });
+});
+
+describe("isSupportedCurrency", () => {
+  it("accepts configured codes in any case", () => {
+    expect(isSupportedCurrency("eur", rates)).toBe(true);
+    expect(isSupportedCurrency("JPY", rates)).toBe(false);
+  });
+});
+
+describe("convertRateTable", () => {
+  it("converts and scales prices, and converts the labor rate without scaling", () => {
+    const table = convertRateTable(DEFAULT_RATE_TABLE, "USD", rates, 2);
+    expect(table.currency).toBe("USD");
+    expect(table.panels.bumper.partPrice).toEqual({ min: 150, max: 450 });
+    expect(table.laborRatePerHour).toBe(15);
+    expect(table.rules).toBe(DEFAULT_RATE_TABLE.rules);
+  });
+});
+
+describe("buildRegionalRateTable", () => {
+  it("uses the base table as it is for India", () => {
+    expect(buildRegionalRateTable("IN", rates)).toBe(DEFAULT_RATE_TABLE);
+  });
+
+  it("prices other regions in their currency at their labor rate", () => {
+    const table = buildRegionalRateTable("US", rates);
+    expect(table.currency).toBe("USD");
+    expect(table.laborRatePerHour).toBe(115);
+    expect(table.panels.bumper.partPrice).toEqual({ min: 165, max: 495 });
+  });
+});
+
+describe("resolveRateTable", () => {
+  it("re-expresses the region's table in a requested currency", () => {
+    const table = resolveRateTable("US", "EUR", rates);
+    expect(table.currency).toBe("EUR");
+    expect(table.panels.bumper.partPrice).toEqual({ min: 83, max: 248 });
+  });
+
+  it("keeps the region's table when no other currency is asked for", () => {
+    const regional = buildRegionalRateTable("US", rates);
+    expect(resolveRateTable("US", undefined, rates, regional)).toBe(regional);
+    expect(resolveRateTable("US", "USD", rates, regional)).toBe(regional);
+  });
+});
+
+describe("regionFromLocale", () => {
+  it("reads the country from a browser locale", () => {
+    expect(regionFromLocale("en-GB")).toBe("GB");
+    expect(regionFromLocale("fr-FR")).toBe("IN");
+    expect(regionFromLocale(undefined)).toBe("IN");
+  });
+});
+
+describe("mergeRateTable", () => {
+  it("overrides single fields and keeps the rest", () => {
+    const merged = mergeRateTable(DEFAULT_RATE_TABLE, {
+      laborRatePerHour: 1500,
+      panels: { bumper: { partPrice: { min: 7000, max: 20000 } } },
+    });
+    expect(merged.laborRatePerHour).toBe(1500);
+    expect(merged.panels.bumper).toEqual({ ...DEFAULT_RATE_TABLE.panels.bumper, partPrice: { min: 7000, max: 20000 } });
+    expect(merged.panels.hood).toBe(DEFAULT_RATE_TABLE.panels.hood);
+    expect(merged.currency).toBe("INR");
+  });
+
+  it("does not accept a currency in an override", () => {
+    expect(rateTableOverrideSchema.safeParse({ currency: "USD" }).success).toBe(false);
+  });
+});
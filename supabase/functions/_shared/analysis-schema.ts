@@ -0,0 +1,241 @@
+// Zod schema for the analyze-damage output contract.
+// Shared by the edge function (validating model output) and the React app
+// (validating the function's response). Must stay free of Deno and DOM APIs.
+import { z } from "zod";
+import {
+  COST_CATEGORIES,
+  DAMAGE_TYPES,
+  OVERALL_SEVERITIES,
+  SEVERITIES,
+  type AnalysisResult,
+  type DamageType,
+  type OverallSeverity,
+  type ValidationIssue,
+} from "./contract.ts";
+import { DEFAULT_CURRENCY } from "./currency.ts";
+import { UNKNOWN_PART, normalizePart, type PartCode } from "./parts.ts";
+
+const SEVERITY_ALIASES: Record<string, OverallSeverity> = {
+  none: "None",
+  minor: "Minor",
+  low: "Minor",
+  light: "Minor",
+  moderate: "Moderate",
+  medium: "Moderate",
+  severe: "Severe",
+  high: "Severe",
+  major: "Severe",
+};
+
+const DAMAGE_TYPE_ALIASES: Record<string, DamageType> = {
+  dents: "dent",
+  dented: "dent",
+  deformation: "dent",
+  scratches: "scratch",
+  scrape: "scratch",
+  scuff: "scratch",
+  cracks: "crack",
+  cracked: "crack",
+  shattered: "broken",
+  broken_part: "broken",
+  missing_part: "missing",
+  corrosion: "rust",
+  paint: "paint_damage",
+  paint_chip: "paint_damage",
+  paint_peeling: "paint_damage",
+};
+
+const normalizeKey = (value: string) => value.trim().toLowerCase().replace(/[\s-]+/g, "_");
+
+const normalizeSeverity = (value: unknown) =>
+  typeof value === "string" ? SEVERITY_ALIASES[normalizeKey(value)] ?? value : value;
+
+const severityValue = z.preprocess(normalizeSeverity, z.enum(SEVERITIES));
+const overallSeverityValue = z.preprocess(normalizeSeverity, z.enum(OVERALL_SEVERITIES));
+
+const damageTypeValue = z.preprocess((value) => {
+  if (typeof value !== "string") return value;
+  const key = normalizeKey(value);
+  if ((DAMAGE_TYPES as readonly string[]).includes(key)) return key;
+  return DAMAGE_TYPE_ALIASES[key] ?? "other";
+}, z.enum(DAMAGE_TYPES));
+
+/** Accepts numbers and numeric strings such as "25,000" or "₹ 1,20,000". */
+const numericValue = z.preprocess((value) => {
+  if (typeof value !== "string") return value;
+  const cleaned = value.replace(/[^\d.-]/g, "");
+  return cleaned === "" ? value : Number(cleaned);
+}, z.number().finite());
+
+const booleanValue = z.preprocess((value) => {
+  if (typeof value !== "string") return value;
+  const key = normalizeKey(value);
+  if (key === "true" || key === "yes") return true;
+  if (key === "false" || key === "no") return false;
+  return value;
+}, z.boolean());
+
+const stringList = z.preprocess(
+  (value) => (value == null ? [] : value),
+  z.array(z.string()),
+);
+
+/** Coordinates up to this far past the edge are read as normalized and clamped to it. */
+const EDGE_TOLERANCE = 1.05;
+
+const COORDINATE_MESSAGE = "Coordinates must be fractions of the image (0-1) or percentages (0-100)";
+
+/**
+ * Scales one shape's coordinates to 0-1, deciding for the shape as a whole:
+ * normalized when every value is at most slightly past the edge, percentages
+ * when every value is at most 100. Null for anything else, such as pixels.
+ */
+const normalizeCoordinates = (values: number[]): number[] | null => {
+  if (values.some((value) => value < 0)) return null;
+  if (values.every((value) => value <= EDGE_TOLERANCE)) return values.map((value) => Math.min(value, 1));
+  if (values.every((value) => value <= 100)) return values.map((value) => value / 100);
+  return null;
+};
+
+export const boundingBoxSchema = z
+  .object({
+    x: numericValue,
+    y: numericValue,
+    width: numericValue,
+    height: numericValue,
+  })
+  .transform((box, ctx) => {
+    const scaled = normalizeCoordinates([box.x, box.y, box.width, box.height]);
+    if (!scaled) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: COORDINATE_MESSAGE });
+      return z.NEVER;
+    }
+    const [x, y, width, height] = scaled;
+    return { x, y, width: Math.min(width, 1 - x), height: Math.min(height, 1 - y) };
+  });
+
+const polygonSchema = z
+  .array(z.tuple([numericValue, numericValue]))
+  .min(3)
+  .transform((points, ctx) => {
+    const scaled = normalizeCoordinates(points.flatMap(([x, y]) => [x, y]));
+    if (!scaled) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: COORDINATE_MESSAGE });
+      return z.NEVER;
+    }
+    return points.map((_, index): [number, number] => [scaled[index * 2], scaled[index * 2 + 1]]);
+  });
+
+export const damageItemSchema = z
+  .object({
+    type: damageTypeValue,
+    part: z.string().nullish(),
+    location: z.string().min(1),
+    severity: severityValue,
+    description: z.string().default(""),
+    boundingBoxes: z.preprocess((value) => (value == null ? [] : value), z.array(boundingBoxSchema)),
+    polygons: z.array(polygonSchema).optional(),
+  })
+  .transform(({ part, ...damage }) => {
+    // Trust a code (or a recognizable name) in `part`, otherwise resolve the free-text location
+    const fromPart = normalizePart(part);
+    return { ...damage, part: fromPart !== UNKNOWN_PART ? fromPart : normalizePart(damage.location) };
+  });
+
+const costLineItemSchema = z.object({
+  damageIndex: z.number().int().min(0),
+  part: z.string().transform(normalizePart),
+  category: z.enum(COST_CATEGORIES),
+  description: z.string(),
+  min: z.number().min(0),
+  max: z.number().min(0),
+});
+
+export const repairCostSchema = z.object({
+  min: numericValue.pipe(z.number().min(0)),
+  max: numericValue.pipe(z.number().min(0)),
+  currency: z.string().length(3).transform((code) => code.toUpperCase()).default(DEFAULT_CURRENCY),
+  lineItems: z.array(costLineItemSchema).optional(),
+});
+
+const analysisResultObject = z.object({
+  hasVehicle: booleanValue,
+  hasDamage: booleanValue,
+  overallSeverity: overallSeverityValue,
+  confidenceScore: numericValue.pipe(z.number().min(0).max(100)),
+  damages: z.preprocess((value) => (value == null ? [] : value), z.array(damageItemSchema)),
+  affectedAreas: stringList,
+  // Priced by the rule-based estimator after detection; the model no longer supplies it
+  estimatedRepairCost: repairCostSchema.default({ min: 0, max: 0, currency: DEFAULT_CURRENCY }),
+  recommendations: stringList,
+  summary: z.string(),
+});
+
+/** Derives `affectedParts` from the damages and the model's affected areas. */
+const withAffectedParts = <T extends { damages: { part: PartCode }[]; affectedAreas: string[] }>(result: T) => ({
+  ...result,
+  affectedParts: [
+    ...new Set([...result.damages.map((d) => d.part), ...result.affectedAreas.map(normalizePart)]),
+  ].filter((code) => code !== UNKNOWN_PART),
+});
+
+export const analysisResultSchema = analysisResultObject.transform(withAffectedParts);
+
+/** What the edge function returns: the validated result plus server-side extras. */
+export const analysisResponseSchema = analysisResultObject
+  .extend({
+    schemaVersion: z.string(),
+    annotatedImage: z.string().nullable().optional(),
+    cached: z.boolean().optional(),
+    region: z.string().optional(),
+    inspectionId: z.string().optional(),
+    vehicleId: z.string().optional(),
+    annotatedImagePath: z.string().optional(),
+  })
+  .transform(withAffectedParts);
+
+export type ModelOutputParseResult =
+  | { success: true; data: AnalysisResult }
+  | { success: false; issues: ValidationIssue[] };
+
+export const toValidationIssues = (error: z.ZodError): ValidationIssue[] =>
+  error.issues.map((issue) => ({
+    path: issue.path.length > 0 ? issue.path.join(".") : "(root)",
+    message: issue.message,
+  }));
+
+/**
+ * Pulls the JSON object out of a model reply. Handles ```json fences and
+ * prose before or after the object.
+ */
+export const extractJson = (raw: string): string => {
+  const fenced = raw.match(/```(?:json)?\s*([\s\S]*?)```/);
+  if (fenced) return fenced[1].trim();
+
+  const start = raw.indexOf("{");
+  const end = raw.lastIndexOf("}");
+  if (start !== -1 && end > start) return raw.slice(start, end + 1);
+
+  return raw.trim();
+};
+
+/** Parses and validates a raw model reply, coercing near-misses into the contract. */
+export const parseModelOutput = (raw: string | null | undefined): ModelOutputParseResult => {
+  if (!raw) {
+    return { success: false, issues: [{ path: "(root)", message: "Model returned an empty response" }] };
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(extractJson(raw));
+  } catch {
+    return { success: false, issues: [{ path: "(root)", message: "Model response is not valid JSON" }] };
+  }
+
+  const parsed = analysisResultSchema.safeParse(json);
+  if (!parsed.success) {
+    return { success: false, issues: toValidationIssues(parsed.error) };
+  }
+  // Cast: zod widens fields to optional when strictNullChecks is off in the app build
+  return { success: true, data: parsed.data as AnalysisResult };
+};
@@ -0,0 +1,90 @@
+// Combines per-image analysis results into one multi-angle / multi-frame report.
+// Runs in the edge function for batch requests and in the app for demo mode.
+import type { AnalysisResult, CombinedAnalysisResult, DamageItem, OverallSeverity } from "./contract.ts";
+import { DEFAULT_CURRENCY } from "./currency.ts";
+import { deduplicateDamages } from "./dedup.ts";
+import { UNKNOWN_PART, getPartLabel, normalizePart } from "./parts.ts";
+
+export type CombineSource = "multi-image" | "video";
+
+export type IndexedAnalysisResult = AnalysisResult & { frameIndex: number };
+
+const severityOrder: Record<OverallSeverity, number> = { None: 0, Minor: 1, Moderate: 2, Severe: 3 };
+
+export const combineResults = (
+  results: IndexedAnalysisResult[],
+  source: CombineSource,
+): Omit<CombinedAnalysisResult, "frameResults"> => {
+  const framesWithDamage = results.filter((f) => f.hasDamage).length;
+  const avgConfidence = Math.round(
+    results.reduce((sum, f) => sum + f.confidenceScore, 0) / results.length
+  );
+
+  // Collect all damages with frame index
+  const allDamages: (DamageItem & { frameIndex: number })[] = [];
+  results.forEach((frame) => {
+    frame.damages.forEach((damage) => {
+      allDamages.push({
+        ...damage,
+        frameIndex: frame.frameIndex,
+      });
+    });
+  });
+
+  // Cluster the same physical damage seen from several angles
+  const distinctDamages = deduplicateDamages(results);
+
+  // Get unique damage types
+  const uniqueDamageTypes = [...new Set(allDamages.map((d) => d.type))];
+
+  // Aggregate affected areas on part codes, so "Front bumper" and "front bumper cover" count once
+  const affectedParts = [...new Set(results.flatMap((f) => f.affectedParts))];
+  const unmatchedAreas = [
+    ...new Map(
+      results
+        .flatMap((f) => f.affectedAreas)
+        .filter((area) => normalizePart(area) === UNKNOWN_PART)
+        .map((area) => [area.trim().toLowerCase(), area] as const)
+    ).values(),
+  ];
+  const affectedAreas = [...affectedParts.map((code) => getPartLabel(code)), ...unmatchedAreas];
+
+  // Determine overall severity (highest found)
+  const overallSeverity = results.reduce<OverallSeverity>((max, frame) => {
+    return severityOrder[frame.overallSeverity] > severityOrder[max] ? frame.overallSeverity : max;
+  }, "None");
+
+  // Calculate combined repair cost over distinct damages, so a damage seen twice is paid for once
+  const minCost = distinctDamages.reduce((sum, d) => sum + d.estimatedRepairCost.min, 0);
+  const maxCost = distinctDamages.reduce((sum, d) => sum + d.estimatedRepairCost.max, 0);
+  const currency = results.find((f) => f.estimatedRepairCost?.currency)?.estimatedRepairCost?.currency || DEFAULT_CURRENCY;
+
+  // Combine unique recommendations
+  const recommendations = [...new Set(results.flatMap((f) => f.recommendations || []))];
+
+  // Generate comprehensive summary
+  const sourceLabel = source === "multi-image" ? "images" : "video frames";
+  const unitLabel = source === "multi-image" ? "image(s)" : "frame(s)";
+  const summary = `Comprehensive analysis of ${results.length} ${sourceLabel} reveals ${framesWithDamage} ${unitLabel} showing vehicle damage. ` +
+    `A total of ${allDamages.length} damage instances were detected, corresponding to ${distinctDamages.length} distinct damage(s) across ${uniqueDamageTypes.length} damage type(s): ${uniqueDamageTypes.join(", ")}. ` +
+    `Affected areas include: ${affectedAreas.join(", ")}. Overall severity is assessed as ${overallSeverity}.`;
+
+  return {
+    totalFramesAnalyzed: results.length,
+    framesWithDamage,
+    overallSeverity,
+    averageConfidence: avgConfidence,
+    allDamages,
+    distinctDamages,
+    uniqueDamageTypes,
+    affectedAreas,
+    affectedParts,
+    estimatedRepairCost: {
+      min: minCost,
+      max: maxCost,
+      currency,
+    },
+    recommendations,
+    summary,
+  };
+};
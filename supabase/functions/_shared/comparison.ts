@@ -0,0 +1,87 @@
+// Before/after comparison of two inspections of the same vehicle, e.g. rental
+// check-out and check-in. Damages are matched by panel and type (see
+// damage-tracking.ts), so only what is new in the later inspection is flagged.
+import type { AnalysisResult, CombinedAnalysisResult, DamageItem, RepairCostEstimate } from "./contract.ts";
+import { DEFAULT_CURRENCY } from "./currency.ts";
+import { diffDamages } from "./damage-tracking.ts";
+import { SEVERITY_RANK } from "./dedup.ts";
+
+/** A damage with its own share of the repair estimate. */
+export interface ComparedDamage extends Omit<DamageItem, "boundingBoxes" | "polygons"> {
+  estimatedRepairCost: RepairCostEstimate;
+}
+
+export type SeverityChange = "worse" | "better" | "unchanged";
+
+export interface ExistingDamage {
+  before: ComparedDamage;
+  after: ComparedDamage;
+  severityChange: SeverityChange;
+}
+
+export interface DamageDeltaReport {
+  /** Present after but not before: the damages to flag. */
+  new: ComparedDamage[];
+  existing: ExistingDamage[];
+  /** Present before but not after. */
+  repaired: ComparedDamage[];
+  /** Repair estimate of the new damages only, in the later inspection's currency. */
+  newDamageCost: RepairCostEstimate;
+}
+
+export type ComparableResult = AnalysisResult | Omit<CombinedAnalysisResult, "frameResults">;
+
+const isCombined = (result: ComparableResult): result is Omit<CombinedAnalysisResult, "frameResults"> =>
+  "distinctDamages" in result;
+
+/** One entry per damage: the distinct damages of a combined result, or a single result's damages with their line items. */
+export const damagesForComparison = (result: ComparableResult): ComparedDamage[] => {
+  if (isCombined(result)) {
+    return result.distinctDamages.map(({ type, part, location, severity, description, estimatedRepairCost }) => ({
+      type,
+      part,
+      location,
+      severity,
+      description,
+      estimatedRepairCost,
+    }));
+  }
+
+  const currency = result.estimatedRepairCost?.currency ?? DEFAULT_CURRENCY;
+  return result.damages.map(({ type, part, location, severity, description }, index) => {
+    const lineItems = (result.estimatedRepairCost?.lineItems ?? []).filter((item) => item.damageIndex === index);
+    return {
+      type,
+      part,
+      location,
+      severity,
+      description,
+      estimatedRepairCost: {
+        min: lineItems.reduce((sum, item) => sum + item.min, 0),
+        max: lineItems.reduce((sum, item) => sum + item.max, 0),
+        currency,
+        lineItems,
+      },
+    };
+  });
+};
+
+const severityChange = (before: ComparedDamage, after: ComparedDamage): SeverityChange => {
+  const delta = SEVERITY_RANK[after.severity] - SEVERITY_RANK[before.severity];
+  return delta > 0 ? "worse" : delta < 0 ? "better" : "unchanged";
+};
+
+/** Splits the later inspection's damages into new and existing, and lists the earlier ones that are gone. */
+export const compareAnalyses = (before: ComparableResult, after: ComparableResult): DamageDeltaReport => {
+  const diff = diffDamages(damagesForComparison(before), damagesForComparison(after));
+  return {
+    new: diff.new,
+    existing: diff.existing.map((pair) => ({ ...pair, severityChange: severityChange(pair.before, pair.after) })),
+    repaired: diff.repaired,
+    newDamageCost: {
+      min: diff.new.reduce((sum, damage) => sum + damage.estimatedRepairCost.min, 0),
+      max: diff.new.reduce((sum, damage) => sum + damage.estimatedRepairCost.max, 0),
+      currency: after.estimatedRepairCost?.currency ?? DEFAULT_CURRENCY,
+    },
+  };
+};
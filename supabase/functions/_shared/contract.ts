@@ -0,0 +1,268 @@
+// Versioned request/response contract for the analyze-damage edge function.
+// Imported by the function (Deno) and the React app (via the @shared alias),
+// so it must stay free of runtime-specific APIs.
+import type { PartCode } from "./parts.ts";
+import type { ImageQualityScores } from "./image-quality.ts";
+import type { Viewpoint } from "./viewpoints.ts";
+
+/**
+ * Semantic version of the response shape. Bump the major version for any
+ * change that would break an existing client (removed or retyped fields);
+ * minor for additive fields.
+ */
+export const SCHEMA_VERSION = "1.17.0";
+
+export const SEVERITIES = ["Minor", "Moderate", "Severe"] as const;
+export const OVERALL_SEVERITIES = ["None", ...SEVERITIES] as const;
+export const DAMAGE_TYPES = ["dent", "scratch", "crack", "broken", "missing", "rust", "paint_damage", "other"] as const;
+
+export type Severity = (typeof SEVERITIES)[number];
+export type OverallSeverity = (typeof OVERALL_SEVERITIES)[number];
+export type DamageType = (typeof DAMAGE_TYPES)[number];
+
+/** Axis-aligned box in normalized image coordinates (0-1, origin top-left). */
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Normalized [x, y] vertex; polygons are closed implicitly. */
+export type PolygonPoint = [number, number];
+
+export interface DamageItem {
+  type: DamageType;
+  /** Canonical part code resolved from `location`; "other" when it matches no known panel. */
+  part: PartCode;
+  /** The model's own wording, kept for display when `part` is "other". */
+  location: string;
+  severity: Severity;
+  description: string;
+  /** Regions of the analyzed image showing this damage. Empty when the model could not localize it. */
+  boundingBoxes: BoundingBox[];
+  /** Optional tighter outlines, one per region. */
+  polygons?: PolygonPoint[][];
+}
+
+export const COST_CATEGORIES = ["parts", "paint", "labor"] as const;
+export type CostCategory = (typeof COST_CATEGORIES)[number];
+
+/** One priced step of repairing one damage, computed from the rate table. */
+export interface CostLineItem {
+  /** Index of the damage in its result's `damages`. */
+  damageIndex: number;
+  part: PartCode;
+  category: CostCategory;
+  /** Human-readable basis for the amount, e.g. "2-3.5 h × ₹1,200/h". */
+  description: string;
+  min: number;
+  max: number;
+}
+
+export interface RepairCostEstimate {
+  min: number;
+  max: number;
+  currency: string;
+  /** Breakdown behind min/max; absent on estimates made before the rule-based estimator. */
+  lineItems?: CostLineItem[];
+}
+
+export interface AnalysisResult {
+  hasVehicle: boolean;
+  hasDamage: boolean;
+  overallSeverity: OverallSeverity;
+  confidenceScore: number;
+  damages: DamageItem[];
+  affectedAreas: string[];
+  /** Unique part codes of the damages and affected areas, excluding "other". */
+  affectedParts: PartCode[];
+  estimatedRepairCost: RepairCostEstimate;
+  recommendations: string[];
+  summary: string;
+  /** Data URL, or a signed URL when the image was read from storage. */
+  annotatedImage?: string | null;
+}
+
+export interface FrameAnalysisResult extends AnalysisResult {
+  frameIndex: number;
+  frameImage: string;
+  /** Seconds from the start of the video; set for video frames. */
+  timestamp?: number;
+  /** Angle of a guided walk-around shot. */
+  viewpoint?: Viewpoint;
+}
+
+/** Where a distinct damage was seen: the frame/image and its index in that result's damage list. */
+export interface DamageOccurrence {
+  frameIndex: number;
+  damageIndex: number;
+  boundingBoxes: BoundingBox[];
+}
+
+/** One physical damage, merged from every image or frame that shows it. */
+export interface DistinctDamage {
+  id: string;
+  type: DamageType;
+  part: PartCode;
+  location: string;
+  /** Highest severity reported by any supporting image. */
+  severity: Severity;
+  description: string;
+  occurrences: DamageOccurrence[];
+  /** Sorted, unique frame indices of the supporting images. */
+  supportingFrames: number[];
+  estimatedRepairCost: RepairCostEstimate;
+}
+
+export interface CombinedAnalysisResult {
+  totalFramesAnalyzed: number;
+  framesWithDamage: number;
+  overallSeverity: OverallSeverity;
+  averageConfidence: number;
+  allDamages: (DamageItem & { frameIndex: number })[];
+  /** allDamages clustered across images; the repair estimate is the sum over these. */
+  distinctDamages: DistinctDamage[];
+  uniqueDamageTypes: string[];
+  /** Canonical labels of `affectedParts`, plus any areas that match no known part. */
+  affectedAreas: string[];
+  affectedParts: PartCode[];
+  estimatedRepairCost: RepairCostEstimate;
+  recommendations: string[];
+  summary: string;
+  frameResults: FrameAnalysisResult[];
+}
+
+/** Chooses the regional price table and output currency; both default to the deployment's region. */
+export interface PricingOptions {
+  /** Region code such as "IN" or "US". */
+  region?: string;
+  /** ISO 4217 code; amounts are converted with the configured exchange-rate table. */
+  currency?: string;
+}
+
+/** Maximum length of a vehicle reference (plate or VIN). */
+export const MAX_VEHICLE_REF_LENGTH = 64;
+
+/** Identifies the inspected vehicle; a VIN or a plate is required, the rest fills in its record. */
+export interface VehicleDetails {
+  vin?: string;
+  plate?: string;
+  make?: string;
+  model?: string;
+  year?: number;
+  color?: string;
+}
+
+/** Stored with the inspection; does not affect the analysis. */
+export interface InspectionOptions {
+  /** Free-text plate number or VIN the inspection belongs to. */
+  vehicleRef?: string;
+  /** Links the inspection to a vehicle record, created on first sight. Derived from `vehicleRef` when absent. */
+  vehicle?: VehicleDetails;
+}
+
+/**
+ * An image sent inline as a data URL, or the path of an original the app
+ * uploaded to the inspection image bucket (see image-paths.ts).
+ */
+export type ImageInput = { imageBase64: string; imagePath?: never } | { imagePath: string; imageBase64?: never };
+
+/** What the app measured or read from an image before sending it; stored with it, not used by the analysis. */
+export interface MeasuredImage {
+  quality?: ImageQualityScores;
+  /**
+   * When the camera took the photo, from its EXIF data: ISO 8601 local time,
+   * with the UTC offset when the camera recorded one.
+   */
+  capturedAt?: string;
+}
+
+export type AnalyzeDamageRequest = PricingOptions & InspectionOptions & ImageInput & MeasuredImage;
+
+export const INSPECTION_SOURCES = ["image", "multi-image", "video"] as const;
+export type InspectionSource = (typeof INSPECTION_SOURCES)[number];
+
+export const INSPECTION_STATUSES = ["completed", "partial", "failed"] as const;
+export type InspectionStatus = (typeof INSPECTION_STATUSES)[number];
+
+/** Upper bound on images per batch request. */
+export const MAX_BATCH_SIZE = 20;
+
+/** One photo or video frame in a batch. */
+export type BatchImage = {
+  id: string;
+  /** Seconds from the start of the video the frame was taken at; stored with it. */
+  timestamp?: number;
+  /** Angle the photo was taken from in a guided walk-around; stored with it. */
+  viewpoint?: Viewpoint;
+} & ImageInput & MeasuredImage;
+
+export interface AnalyzeDamageBatchRequest extends PricingOptions, InspectionOptions {
+  images: BatchImage[];
+  source: "multi-image" | "video";
+}
+
+export type AnalyzeDamageResponse = AnalysisResult & {
+  schemaVersion: string;
+  /** True when the result was served from the content-hash cache without calling the model. */
+  cached?: boolean;
+  /** Region whose price table produced `estimatedRepairCost`. */
+  region?: string;
+  /** Id of the stored inspection; absent when persistence is disabled or the write failed. */
+  inspectionId?: string;
+  /** Id of the vehicle the inspection was linked to. */
+  vehicleId?: string;
+  /** Storage path of the annotated image, set when the request named an `imagePath`. */
+  annotatedImagePath?: string;
+};
+
+export type AnalyzeDamageErrorCode =
+  | "invalid_request"
+  | "unauthorized"
+  | "forbidden"
+  | "quota_exceeded"
+  | "credits_exhausted"
+  | "rate_limited"
+  | "validation_failed"
+  | "server_error";
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+/** Which quota refused a request: the caller's request rate or the organization's monthly credits. */
+export type QuotaLimit = "user" | "organization";
+
+export interface AnalyzeDamageErrorBody {
+  error: string;
+  code: AnalyzeDamageErrorCode;
+  schemaVersion: string;
+  issues?: ValidationIssue[];
+  /** Set with `quota_exceeded`: ISO timestamp after which the request can be retried. */
+  resetAt?: string;
+  limitedBy?: QuotaLimit;
+}
+
+export type BatchItemResult =
+  | { id: string; status: "ok"; result: AnalyzeDamageResponse }
+  | { id: string; status: "error"; error: Omit<AnalyzeDamageErrorBody, "schemaVersion"> };
+
+export interface AnalyzeDamageBatchResponse {
+  schemaVersion: string;
+  /** One entry per requested image, in request order. */
+  items: BatchItemResult[];
+  /** Combined over the successful items only; null when every item failed. Images are not echoed back. */
+  combined: Omit<CombinedAnalysisResult, "frameResults"> | null;
+  /** Id of the stored inspection covering every item, including failed ones. */
+  inspectionId?: string;
+  /** Id of the vehicle the inspection was linked to. */
+  vehicleId?: string;
+}
+
+/** True when a response written against `version` can be read by this build. */
+export const isCompatibleSchemaVersion = (version: string | undefined): boolean => {
+  if (!version) return false;
+  return version.split(".")[0] === SCHEMA_VERSION.split(".")[0];
+};
@@ -0,0 +1,75 @@
+// Deterministic repair cost estimator.
+// The model only detects damages; this prices each one from the rate table
+// and returns the line items, so every amount can be explained to a customer.
+import type { CostLineItem, DamageItem, RepairCostEstimate } from "./contract.ts";
+import { getPart, getPartLabel } from "./parts.ts";
+import { DEFAULT_RATE_TABLE, type RateTable } from "./repair-rates.ts";
+
+/** Labor is billed in half hours. */
+const roundHours = (hours: number) => Math.round(hours * 2) / 2;
+
+const formatHours = (min: number, max: number) => (min === max ? `${min} h` : `${min}-${max} h`);
+
+/** Prices one damage; `damageIndex` is its position in the result's damage list. */
+export const estimateDamageCost = (
+  damage: DamageItem,
+  damageIndex: number,
+  table: RateTable = DEFAULT_RATE_TABLE,
+): CostLineItem[] => {
+  const panelRates = table.panels[getPart(damage.part).panel ?? "other"];
+  const repairRule = table.rules[damage.type][damage.severity];
+  const replace = repairRule.replace || panelRates.replaceOnly === true;
+  const label = getPartLabel(damage.part);
+  const lineItems: CostLineItem[] = [];
+
+  if (replace && panelRates.partPrice.max > 0) {
+    lineItems.push({
+      damageIndex,
+      part: damage.part,
+      category: "parts",
+      description: `Replacement ${label.toLowerCase()}`,
+      min: panelRates.partPrice.min,
+      max: panelRates.partPrice.max,
+    });
+  }
+
+  if (repairRule.paint && panelRates.paintCost.max > 0) {
+    lineItems.push({
+      damageIndex,
+      part: damage.part,
+      category: "paint",
+      description: `Refinish ${label.toLowerCase()}`,
+      min: panelRates.paintCost.min,
+      max: panelRates.paintCost.max,
+    });
+  }
+
+  const minHours = roundHours(repairRule.laborHours.min * panelRates.laborMultiplier);
+  const maxHours = roundHours(repairRule.laborHours.max * panelRates.laborMultiplier);
+  if (maxHours > 0) {
+    lineItems.push({
+      damageIndex,
+      part: damage.part,
+      category: "labor",
+      description: `${replace ? "Remove and fit" : "Repair"}: ${formatHours(minHours, maxHours)} × ${table.laborRatePerHour} ${table.currency}/h`,
+      min: Math.round(minHours * table.laborRatePerHour),
+      max: Math.round(maxHours * table.laborRatePerHour),
+    });
+  }
+
+  return lineItems;
+};
+
+/** Prices every damage of one analysis and totals the line items. */
+export const estimateRepairCost = (
+  damages: DamageItem[],
+  table: RateTable = DEFAULT_RATE_TABLE,
+): RepairCostEstimate => {
+  const lineItems = damages.flatMap((damage, index) => estimateDamageCost(damage, index, table));
+  return {
+    min: lineItems.reduce((sum, item) => sum + item.min, 0),
+    max: lineItems.reduce((sum, item) => sum + item.max, 0),
+    currency: table.currency,
+    lineItems,
+  };
+};
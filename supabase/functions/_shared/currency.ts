@@ -0,0 +1,54 @@
+// Currency conversion and formatting.
+// Conversion uses a locally configured exchange-rate table, never a live
+// service, so the same inspection always prices the same way.
+
+/** Currency of the base rate table and of results that do not state one. */
+export const DEFAULT_CURRENCY = "INR";
+
+/** Units of each currency per 1 USD. */
+export type ExchangeRates = Record<string, number>;
+
+export const DEFAULT_EXCHANGE_RATES: ExchangeRates = {
+  USD: 1,
+  INR: 83.5,
+  EUR: 0.92,
+  GBP: 0.79,
+  AED: 3.67,
+};
+
+export const isSupportedCurrency = (currency: string, rates: ExchangeRates = DEFAULT_EXCHANGE_RATES) =>
+  rates[currency.toUpperCase()] > 0;
+
+export const convertAmount = (
+  amount: number,
+  from: string,
+  to: string,
+  rates: ExchangeRates = DEFAULT_EXCHANGE_RATES,
+): number => {
+  if (from === to) return amount;
+  const fromRate = rates[from];
+  const toRate = rates[to];
+  if (!(fromRate > 0) || !(toRate > 0)) {
+    throw new Error(`No exchange rate configured for ${fromRate > 0 ? to : from}`);
+  }
+  return (amount / fromRate) * toRate;
+};
+
+export interface FormatCurrencyOptions {
+  locale?: string;
+  /** "code" prints "INR 12,000"; use it where the ₹/€ glyphs cannot be rendered, e.g. built-in PDF fonts. */
+  display?: "symbol" | "code";
+}
+
+export const formatCurrency = (
+  amount: number,
+  currency: string = DEFAULT_CURRENCY,
+  { locale = "en-IN", display = "symbol" }: FormatCurrencyOptions = {},
+): string =>
+  new Intl.NumberFormat(locale, {
+    style: "currency",
+    currency,
+    currencyDisplay: display,
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
@@ -0,0 +1,102 @@
+// Follows damages across inspections of the same vehicle.
+// A damage in a later inspection is the same damage as an earlier one when it
+// is on the same panel and of the same type; anything unmatched either newly
+// appeared or, when it was there before, has been repaired. A timeline only
+// calls a damage repaired when the later inspection photographed its part.
+import type { DamageItem } from "./contract.ts";
+import { panelKey } from "./dedup.ts";
+import { getPart, type PartCode } from "./parts.ts";
+import { VIEWPOINTS, type Viewpoint } from "./viewpoints.ts";
+
+export type TrackedDamage = Pick<DamageItem, "type" | "part" | "location" | "severity">;
+
+export interface DamageDiff<T extends TrackedDamage> {
+  new: T[];
+  /** Seen in both; `before` and `after` are the matching reports. */
+  existing: { before: T; after: T }[];
+  repaired: T[];
+}
+
+export const damageKey = (damage: TrackedDamage) => `${panelKey(damage)}|${damage.type.trim().toLowerCase()}`;
+
+/**
+ * Matches two damage lists by panel and type. Several damages with the same key
+ * pair up in order; any left over on either side count as new or repaired.
+ */
+export const diffDamages = <T extends TrackedDamage>(before: T[], after: T[]): DamageDiff<T> => {
+  const unmatched = new Map<string, T[]>();
+  before.forEach((damage) => {
+    const key = damageKey(damage);
+    unmatched.set(key, [...(unmatched.get(key) ?? []), damage]);
+  });
+
+  const diff: DamageDiff<T> = { new: [], existing: [], repaired: [] };
+  after.forEach((damage) => {
+    const match = unmatched.get(damageKey(damage))?.shift();
+    if (match) {
+      diff.existing.push({ before: match, after: damage });
+    } else {
+      diff.new.push(damage);
+    }
+  });
+  diff.repaired = [...unmatched.values()].flat();
+  return diff;
+};
+
+const EXTERIOR_VIEWPOINTS = VIEWPOINTS.filter((viewpoint) => viewpoint !== "interior" && viewpoint !== "odometer");
+
+/** Angles a part shows in; empty for parts without a side, which only a full walk-around is sure to show. */
+const viewpointsShowing = (code: PartCode): Viewpoint[] => {
+  const { longitudinal, lateral } = getPart(code);
+  if (longitudinal && lateral) return [`${longitudinal}_${lateral}`, lateral];
+  if (lateral) return [`front_${lateral}`, lateral, `rear_${lateral}`];
+  if (longitudinal) return [longitudinal, `${longitudinal}_left`, `${longitudinal}_right`];
+  return [];
+};
+
+/** Whether photos from these angles show the damage's part. */
+export const isPartCovered = (damage: Pick<TrackedDamage, "part">, viewpoints: readonly Viewpoint[]) => {
+  const showing = viewpointsShowing(damage.part);
+  return showing.length > 0
+    ? showing.some((viewpoint) => viewpoints.includes(viewpoint))
+    : EXTERIOR_VIEWPOINTS.every((viewpoint) => viewpoints.includes(viewpoint));
+};
+
+export interface TimelineInspection<T extends TrackedDamage> {
+  id: string;
+  createdAt: string;
+  damages: T[];
+  /**
+   * Walk-around angles the inspection analyzed; empty when its images were not
+   * tagged, in which case it cannot show that anything was repaired.
+   */
+  viewpoints: Viewpoint[];
+}
+
+export interface TimelineEntry<T extends TrackedDamage> {
+  inspection: TimelineInspection<T>;
+  appeared: T[];
+  persisted: { before: T; after: T }[];
+  repaired: T[];
+  /** Open damages on parts this inspection did not photograph; they stay open. */
+  unchecked: T[];
+}
+
+/**
+ * Compares every inspection with the damages still open before it, oldest
+ * first. A damage missing from a later inspection counts as repaired only when
+ * that inspection photographed its part; otherwise it carries over unchecked.
+ * Leave out failed runs: they analyzed nothing.
+ */
+export const buildDamageTimeline = <T extends TrackedDamage>(inspections: TimelineInspection<T>[]): TimelineEntry<T>[] => {
+  let open: T[] = [];
+  return [...inspections]
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .map((inspection) => {
+      const diff = diffDamages(open, inspection.damages);
+      const repaired = diff.repaired.filter((damage) => isPartCovered(damage, inspection.viewpoints));
+      const unchecked = diff.repaired.filter((damage) => !isPartCovered(damage, inspection.viewpoints));
+      open = [...inspection.damages, ...unchecked];
+      return { inspection, appeared: diff.new, persisted: diff.existing, repaired, unchecked };
+    });
+};
@@ -0,0 +1,169 @@
+// Cross-image damage deduplication.
+// The same dent photographed from three angles is reported three times; this
+// clusters per-image damages into distinct physical damages and estimates the
+// repair cost over the clusters instead of over single images.
+import type {
+  AnalysisResult,
+  BoundingBox,
+  DamageItem,
+  DistinctDamage,
+  RepairCostEstimate,
+  Severity,
+} from "./contract.ts";
+import { DEFAULT_CURRENCY } from "./currency.ts";
+import { UNKNOWN_PART } from "./parts.ts";
+
+/** Boxes in the same image overlapping at least this much (IoU) are one damage. */
+export const SAME_IMAGE_IOU_THRESHOLD = 0.3;
+
+/**
+ * Boxes in different images overlapping at least this much are one damage.
+ * Lower than within an image: the camera moves between frames and angles.
+ */
+export const CROSS_IMAGE_IOU_THRESHOLD = 0.1;
+
+/** Descriptions sharing at least this share of their words (Jaccard) describe one damage. */
+export const DESCRIPTION_SIMILARITY_THRESHOLD = 0.5;
+
+/** Words that say nothing about which damage is meant. */
+const DESCRIPTION_STOP_WORDS = new Set(["the", "and", "with", "near", "from", "that", "this", "has", "visible", "appears", "damage"]);
+
+export const SEVERITY_RANK: Record<Severity, number> = { Minor: 1, Moderate: 2, Severe: 3 };
+
+/** Relative share of a legacy whole-image estimate carried by a damage of each severity. */
+const SEVERITY_COST_WEIGHT: Record<Severity, number> = { Minor: 1, Moderate: 3, Severe: 8 };
+
+/** Cluster by part code; locations outside the taxonomy fall back to their normalized wording. */
+export const panelKey = (damage: Pick<DamageItem, "part" | "location">) =>
+  damage.part !== UNKNOWN_PART
+    ? damage.part
+    : `${UNKNOWN_PART}:${damage.location.trim().toLowerCase().replace(/[^a-z0-9]+/g, " ").trim()}`;
+
+const intersectionOverUnion = (a: BoundingBox, b: BoundingBox) => {
+  const overlapWidth = Math.max(0, Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x));
+  const overlapHeight = Math.max(0, Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y));
+  const intersection = overlapWidth * overlapHeight;
+  const union = a.width * a.height + b.width * b.height - intersection;
+  return union > 0 ? intersection / union : 0;
+};
+
+const boxesOverlap = (a: BoundingBox[], b: BoundingBox[], threshold: number) =>
+  a.some((boxA) => b.some((boxB) => intersectionOverUnion(boxA, boxB) >= threshold));
+
+const descriptionWords = (description: string) =>
+  new Set(description.toLowerCase().split(/[^a-z0-9]+/).filter((word) => word.length > 2 && !DESCRIPTION_STOP_WORDS.has(word)));
+
+/** Jaccard similarity of the descriptions' meaningful words; 0 when either has none. */
+export const descriptionSimilarity = (a: string, b: string) => {
+  const wordsA = descriptionWords(a);
+  const wordsB = descriptionWords(b);
+  if (wordsA.size === 0 || wordsB.size === 0) return 0;
+  const shared = [...wordsA].filter((word) => wordsB.has(word)).length;
+  return shared / (wordsA.size + wordsB.size - shared);
+};
+
+interface Report {
+  frameIndex: number;
+  boundingBoxes: BoundingBox[];
+  description: string;
+}
+
+const sameDamageInImage = (a: Report, b: Report) =>
+  // Without coordinates on either side the two reports cannot be told apart, so treat them as one
+  a.boundingBoxes.length === 0 || b.boundingBoxes.length === 0 ||
+  boxesOverlap(a.boundingBoxes, b.boundingBoxes, SAME_IMAGE_IOU_THRESHOLD);
+
+const sameDamageAcrossImages = (a: Report, b: Report) =>
+  boxesOverlap(a.boundingBoxes, b.boundingBoxes, CROSS_IMAGE_IOU_THRESHOLD) ||
+  descriptionSimilarity(a.description, b.description) >= DESCRIPTION_SIMILARITY_THRESHOLD;
+
+interface Cluster {
+  key: string;
+  reports: Report[];
+  damage: DistinctDamage;
+}
+
+/** Whether a report belongs to a cluster of the same part and damage type. */
+const belongsTo = (cluster: Cluster, report: Report) => {
+  const sameImage = cluster.reports.filter((existing) => existing.frameIndex === report.frameIndex);
+  return sameImage.length > 0
+    ? sameImage.every((existing) => sameDamageInImage(existing, report))
+    : cluster.reports.some((existing) => sameDamageAcrossImages(existing, report));
+};
+
+/**
+ * Groups damages by part code and damage type. Two reports from the same
+ * image only join when their boxes overlap, so two separate dents on one
+ * bumper stay separate. Reports from different images also need evidence that
+ * they are the same damage: roughly the same place in the frame, or a
+ * similar description. Without it they are counted separately.
+ */
+export const deduplicateDamages = (results: (AnalysisResult & { frameIndex: number })[]): DistinctDamage[] => {
+  const clusters: Cluster[] = [];
+
+  results.forEach((result) => {
+    // Estimates without line items predate the rule-based estimator: split their total by severity weight
+    const lineItems = result.estimatedRepairCost?.lineItems;
+    const totalWeight = result.damages.reduce((sum, d) => sum + SEVERITY_COST_WEIGHT[d.severity], 0);
+    const currency = result.estimatedRepairCost?.currency || DEFAULT_CURRENCY;
+
+    result.damages.forEach((damage, damageIndex) => {
+      const key = `${panelKey(damage)}|${damage.type}`;
+      const occurrence = { frameIndex: result.frameIndex, damageIndex, boundingBoxes: damage.boundingBoxes ?? [] };
+      const report: Report = { frameIndex: result.frameIndex, boundingBoxes: occurrence.boundingBoxes, description: damage.description ?? "" };
+      const share = totalWeight > 0 ? SEVERITY_COST_WEIGHT[damage.severity] / totalWeight : 0;
+      const damageItems = lineItems?.filter((item) => item.damageIndex === damageIndex);
+      const estimatedRepairCost: RepairCostEstimate = damageItems
+        ? {
+          min: damageItems.reduce((sum, item) => sum + item.min, 0),
+          max: damageItems.reduce((sum, item) => sum + item.max, 0),
+          currency,
+          lineItems: damageItems,
+        }
+        : {
+          min: Math.round((result.estimatedRepairCost?.min ?? 0) * share),
+          max: Math.round((result.estimatedRepairCost?.max ?? 0) * share),
+          currency,
+        };
+
+      const cluster = clusters.find((candidate) => candidate.key === key && belongsTo(candidate, report));
+
+      if (!cluster) {
+        clusters.push({
+          key,
+          reports: [report],
+          damage: {
+            id: `damage-${clusters.length + 1}`,
+            type: damage.type,
+            part: damage.part,
+            location: damage.location,
+            severity: damage.severity,
+            description: damage.description,
+            occurrences: [occurrence],
+            supportingFrames: [result.frameIndex],
+            estimatedRepairCost,
+          },
+        });
+        return;
+      }
+
+      cluster.reports.push(report);
+      const merged = cluster.damage;
+      merged.occurrences.push(occurrence);
+      if (!merged.supportingFrames.includes(result.frameIndex)) {
+        merged.supportingFrames.push(result.frameIndex);
+        merged.supportingFrames.sort((a, b) => a - b);
+      }
+      if (SEVERITY_RANK[damage.severity] > SEVERITY_RANK[merged.severity]) {
+        merged.severity = damage.severity;
+        merged.description = damage.description;
+      }
+      // Each view prices the same physical damage, so keep the costliest view rather than adding them
+      if (estimatedRepairCost.max > merged.estimatedRepairCost.max) {
+        merged.estimatedRepairCost = estimatedRepairCost;
+      }
+    });
+  });
+
+  return clusters.map((cluster) => cluster.damage);
+};
@@ -0,0 +1,23 @@
+// Content hashes for the analysis cache key. Only Web Crypto is needed, so the
+// edge function and the tests share them.
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+/** SHA-256 of raw bytes, for payloads that do not decode as an image. */
+export const hashBytes = async (bytes: Uint8Array): Promise<string> =>
+  toHex(await crypto.subtle.digest("SHA-256", bytes));
+
+/**
+ * SHA-256 of the image's dimensions followed by its exact RGBA bytes. The
+ * same picture hashes the same whatever its container or metadata; any change
+ * to a single pixel, including a lossy re-encode, gives a different hash.
+ */
+export const hashPixels = (width: number, height: number, rgba: Uint8Array | Uint8ClampedArray): Promise<string> => {
+  const bytes = new Uint8Array(8 + rgba.length);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  bytes.set(rgba, 8);
+  return hashBytes(bytes);
+};
@@ -0,0 +1,24 @@
+// Object paths in the private inspection image bucket. The first folder is
+// always the owning organization's id: the bucket's storage policies and the
+// edge function both use it to keep organizations apart.
+export const INSPECTION_IMAGES_BUCKET = "inspection-images";
+
+/** How long signed URLs handed to the app stay valid, in seconds. */
+export const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+export type MediaVariant = "thumbnail" | "preview" | "annotated";
+
+/** Where the app uploads an original before asking for its analysis. */
+export const uploadPath = (organizationId: string, uploadId: string, extension: string) =>
+  `${organizationId}/uploads/${uploadId}.${extension}`;
+
+/** The annotated copy of an uploaded original, stored next to it. The renderer outputs PNG. */
+export const annotatedPathFor = (path: string) => path.replace(/(\.[^./]+)?$/, "-annotated.png");
+
+/** Downscaled copies kept with a stored inspection, one set per image position. */
+export const inspectionMediaPath = (organizationId: string, inspectionId: string, position: number, variant: MediaVariant) =>
+  `${organizationId}/inspections/${inspectionId}/${position}-${variant}.jpg`;
+
+/** True when `path` is a plain object path inside the organization's folder. */
+export const belongsToOrganization = (path: string, organizationId: string) =>
+  path.startsWith(`${organizationId}/`) && !path.split("/").some((segment) => segment === "" || segment === "." || segment === "..");
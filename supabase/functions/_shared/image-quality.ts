@@ -0,0 +1,105 @@
+// Image quality gate shared by the edge function and the app.
+// The app measures each photo or frame before it is sent (see
+// src/lib/image-quality.ts); the edge function re-assesses the measurements
+// with the same thresholds and stores them with the media row, so adjusters
+// can discount findings that rest on weak evidence.
+import { z } from "zod";
+
+/** Measurements taken on a downscaled grayscale copy of the image. */
+export interface ImageQualityScores {
+  /** Variance of the Laplacian; low values mean a blurry image. */
+  sharpness: number;
+  /** Mean luminance, 0-255. */
+  brightness: number;
+  /** Share of pixels crushed to black, 0-1. */
+  shadowClipping: number;
+  /** Share of pixels blown out to white, 0-1. */
+  highlightClipping: number;
+  /** Share of near-white, colorless pixels such as reflections off paint or glass, 0-1. */
+  glare: number;
+  /** Pixel size of the image that was sent. */
+  width: number;
+  height: number;
+  /** Share of the frame taken by the region holding most of the edge detail, 0-1; a rough proxy for how much of it the vehicle fills. */
+  vehicleFill: number;
+}
+
+export const QUALITY_ISSUES = ["blurry", "underexposed", "overexposed", "glare", "low_resolution", "vehicle_too_small"] as const;
+export type QualityIssue = (typeof QUALITY_ISSUES)[number];
+
+export interface ImageQuality {
+  scores: ImageQualityScores;
+  issues: QualityIssue[];
+  /** 0-100; 100 when no check failed. */
+  score: number;
+}
+
+export const QUALITY_THRESHOLDS = {
+  minSharpness: 80,
+  minBrightness: 60,
+  maxBrightness: 200,
+  maxShadowClipping: 0.35,
+  maxHighlightClipping: 0.25,
+  maxGlare: 0.08,
+  minShortEdge: 480,
+  minVehicleFill: 0.35,
+};
+
+/** Points taken off the score for each issue; blur hides damage the most. */
+const ISSUE_PENALTIES: Record<QualityIssue, number> = {
+  blurry: 40,
+  underexposed: 25,
+  overexposed: 25,
+  glare: 15,
+  low_resolution: 20,
+  vehicle_too_small: 20,
+};
+
+export const QUALITY_ISSUE_LABELS: Record<QualityIssue, string> = {
+  blurry: "Blurry",
+  underexposed: "Too dark",
+  overexposed: "Too bright",
+  glare: "Glare",
+  low_resolution: "Low resolution",
+  vehicle_too_small: "Vehicle too small",
+};
+
+export const QUALITY_ISSUE_ADVICE: Record<QualityIssue, string> = {
+  blurry: "Hold the camera steady and let it focus before taking the photo.",
+  underexposed: "Move to better light or turn on the flash.",
+  overexposed: "Avoid shooting into the sun and turn off the flash.",
+  glare: "Change the angle so reflections do not cover the panels.",
+  low_resolution: `Use a photo at least ${QUALITY_THRESHOLDS.minShortEdge} pixels on its shorter side.`,
+  vehicle_too_small: "Move closer so the vehicle fills most of the frame.",
+};
+
+/** Checks measurements against the thresholds and scores them. */
+export const assessQuality = (scores: ImageQualityScores): ImageQuality => {
+  const t = QUALITY_THRESHOLDS;
+  const failed: Record<QualityIssue, boolean> = {
+    blurry: scores.sharpness < t.minSharpness,
+    underexposed: scores.brightness < t.minBrightness || scores.shadowClipping > t.maxShadowClipping,
+    overexposed: scores.brightness > t.maxBrightness || scores.highlightClipping > t.maxHighlightClipping,
+    glare: scores.glare > t.maxGlare,
+    low_resolution: Math.min(scores.width, scores.height) < t.minShortEdge,
+    vehicle_too_small: scores.vehicleFill < t.minVehicleFill,
+  };
+  const issues = QUALITY_ISSUES.filter((issue) => failed[issue]);
+  const penalty = issues.reduce((sum, issue) => sum + ISSUE_PENALTIES[issue], 0);
+  return { scores, issues, score: Math.max(0, 100 - penalty) };
+};
+
+const share = z.number().min(0).max(1);
+
+export const imageQualityScoresSchema = z
+  .object({
+    sharpness: z.number().finite().min(0),
+    brightness: z.number().min(0).max(255),
+    shadowClipping: share,
+    highlightClipping: share,
+    glare: share,
+    width: z.number().int().positive(),
+    height: z.number().int().positive(),
+    vehicleFill: share,
+  })
+  .strict();
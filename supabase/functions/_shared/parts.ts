@@ -0,0 +1,208 @@
+// Canonical vehicle part taxonomy.
+// The model describes locations in free text ("LH front wing", "bonnet",
+// "rear bumper cover"); everything downstream — dedup, aggregation, cost
+// lookup, reports — works on the stable part codes defined here instead.
+
+export const PART_LOCALES = ["en", "hi"] as const;
+export type PartLocale = (typeof PART_LOCALES)[number];
+
+export type LongitudinalSide = "front" | "rear";
+export type LateralSide = "left" | "right";
+
+/** Panel families; synonyms resolve to a family, sides then pick the exact part. */
+export const PANELS = [
+  "bumper",
+  "hood",
+  "roof",
+  "trunk",
+  "windshield",
+  "grille",
+  "door",
+  "fender",
+  "quarter_panel",
+  "rocker_panel",
+  "headlight",
+  "taillight",
+  "mirror",
+  "wheel",
+  "window",
+  "pillar",
+] as const;
+export type Panel = (typeof PANELS)[number];
+
+export interface VehiclePart {
+  code: string;
+  panel: Panel | null;
+  longitudinal?: LongitudinalSide;
+  lateral?: LateralSide;
+  labels: Record<PartLocale, string>;
+}
+
+const part = (
+  code: string,
+  panel: Panel | null,
+  sides: { longitudinal?: LongitudinalSide; lateral?: LateralSide },
+  en: string,
+  hi: string,
+): VehiclePart => ({ code, panel, ...sides, labels: { en, hi } });
+
+/**
+ * Every part code the app knows. Entries without a side are the fallback when
+ * the model names the panel but not which one (e.g. just "door").
+ */
+export const VEHICLE_PARTS = [
+  part("front_bumper", "bumper", { longitudinal: "front" }, "Front bumper", "आगे का बम्पर"),
+  part("rear_bumper", "bumper", { longitudinal: "rear" }, "Rear bumper", "पीछे का बम्पर"),
+  part("bumper", "bumper", {}, "Bumper", "बम्पर"),
+  part("hood", "hood", {}, "Hood", "बोनट"),
+  part("roof", "roof", {}, "Roof", "छत"),
+  part("trunk", "trunk", {}, "Trunk / tailgate", "डिक्की"),
+  part("windshield", "windshield", { longitudinal: "front" }, "Windshield", "सामने का शीशा"),
+  part("rear_windshield", "windshield", { longitudinal: "rear" }, "Rear windshield", "पीछे का शीशा"),
+  part("grille", "grille", {}, "Grille", "ग्रिल"),
+  part("front_left_door", "door", { longitudinal: "front", lateral: "left" }, "Front left door", "आगे का बायाँ दरवाज़ा"),
+  part("front_right_door", "door", { longitudinal: "front", lateral: "right" }, "Front right door", "आगे का दायाँ दरवाज़ा"),
+  part("rear_left_door", "door", { longitudinal: "rear", lateral: "left" }, "Rear left door", "पीछे का बायाँ दरवाज़ा"),
+  part("rear_right_door", "door", { longitudinal: "rear", lateral: "right" }, "Rear right door", "पीछे का दायाँ दरवाज़ा"),
+  part("left_door", "door", { lateral: "left" }, "Left door", "बायाँ दरवाज़ा"),
+  part("right_door", "door", { lateral: "right" }, "Right door", "दायाँ दरवाज़ा"),
+  part("door", "door", {}, "Door", "दरवाज़ा"),
+  part("left_fender", "fender", { lateral: "left" }, "Left fender", "बायाँ फ़ेंडर"),
+  part("right_fender", "fender", { lateral: "right" }, "Right fender", "दायाँ फ़ेंडर"),
+  part("fender", "fender", {}, "Fender", "फ़ेंडर"),
+  part("left_quarter_panel", "quarter_panel", { lateral: "left" }, "Left quarter panel", "बायाँ क्वार्टर पैनल"),
+  part("right_quarter_panel", "quarter_panel", { lateral: "right" }, "Right quarter panel", "दायाँ क्वार्टर पैनल"),
+  part("quarter_panel", "quarter_panel", {}, "Quarter panel", "क्वार्टर पैनल"),
+  part("left_rocker_panel", "rocker_panel", { lateral: "left" }, "Left rocker panel", "बायाँ साइड स्कर्ट"),
+  part("right_rocker_panel", "rocker_panel", { lateral: "right" }, "Right rocker panel", "दायाँ साइड स्कर्ट"),
+  part("rocker_panel", "rocker_panel", {}, "Rocker panel", "साइड स्कर्ट"),
+  part("left_headlight", "headlight", { lateral: "left" }, "Left headlight", "बायाँ हेडलाइट"),
+  part("right_headlight", "headlight", { lateral: "right" }, "Right headlight", "दायाँ हेडलाइट"),
+  part("headlight", "headlight", {}, "Headlight", "हेडलाइट"),
+  part("left_taillight", "taillight", { lateral: "left" }, "Left taillight", "बायाँ टेललाइट"),
+  part("right_taillight", "taillight", { lateral: "right" }, "Right taillight", "दायाँ टेललाइट"),
+  part("taillight", "taillight", {}, "Taillight", "टेललाइट"),
+  part("left_mirror", "mirror", { lateral: "left" }, "Left side mirror", "बायाँ साइड मिरर"),
+  part("right_mirror", "mirror", { lateral: "right" }, "Right side mirror", "दायाँ साइड मिरर"),
+  part("mirror", "mirror", {}, "Side mirror", "साइड मिरर"),
+  part("front_left_wheel", "wheel", { longitudinal: "front", lateral: "left" }, "Front left wheel", "आगे का बायाँ पहिया"),
+  part("front_right_wheel", "wheel", { longitudinal: "front", lateral: "right" }, "Front right wheel", "आगे का दायाँ पहिया"),
+  part("rear_left_wheel", "wheel", { longitudinal: "rear", lateral: "left" }, "Rear left wheel", "पीछे का बायाँ पहिया"),
+  part("rear_right_wheel", "wheel", { longitudinal: "rear", lateral: "right" }, "Rear right wheel", "पीछे का दायाँ पहिया"),
+  part("wheel", "wheel", {}, "Wheel", "पहिया"),
+  part("left_window", "window", { lateral: "left" }, "Left side window", "बायीं खिड़की"),
+  part("right_window", "window", { lateral: "right" }, "Right side window", "दायीं खिड़की"),
+  part("window", "window", {}, "Side window", "खिड़की"),
+  part("left_pillar", "pillar", { lateral: "left" }, "Left pillar", "बायाँ पिलर"),
+  part("right_pillar", "pillar", { lateral: "right" }, "Right pillar", "दायाँ पिलर"),
+  part("pillar", "pillar", {}, "Pillar", "पिलर"),
+  part("other", null, {}, "Other", "अन्य"),
+] as const satisfies readonly VehiclePart[];
+
+export type PartCode = (typeof VEHICLE_PARTS)[number]["code"];
+
+/** Code for locations that match no panel in the taxonomy. */
+export const UNKNOWN_PART: PartCode = "other";
+
+export const PART_CODES = VEHICLE_PARTS.map((p) => p.code) as PartCode[];
+
+const PARTS_BY_CODE = new Map<string, VehiclePart>(VEHICLE_PARTS.map((p) => [p.code, p]));
+
+/** Words and phrases (US, UK and Indian usage, plus common Hindi terms) that name each panel. */
+const PANEL_SYNONYMS: Record<Panel, string[]> = {
+  bumper: ["bumper", "bumper cover", "fascia", "बम्पर"],
+  hood: ["hood", "bonnet", "बोनट"],
+  roof: ["roof", "roof panel", "sunroof", "छत"],
+  trunk: ["trunk", "trunk lid", "boot", "boot lid", "dickey", "dicky", "tailgate", "hatch", "liftgate", "डिक्की"],
+  windshield: ["windshield", "windscreen", "front glass", "back glass", "rear glass", "शीशा"],
+  grille: ["grille", "grill", "radiator grille", "ग्रिल"],
+  door: ["door", "door panel", "door skin", "दरवाज़ा", "दरवाजा"],
+  fender: ["fender", "front wing", "wing", "mudguard", "फ़ेंडर", "फेंडर"],
+  quarter_panel: ["quarter panel", "rear quarter", "quarter", "rear wing", "क्वार्टर पैनल"],
+  rocker_panel: ["rocker panel", "rocker", "sill", "side skirt", "running board", "साइड स्कर्ट"],
+  headlight: ["headlight", "headlamp", "head light", "head lamp", "हेडलाइट"],
+  taillight: ["taillight", "taillamp", "tail light", "tail lamp", "rear light", "brake light", "टेललाइट"],
+  mirror: ["mirror", "side mirror", "wing mirror", "door mirror", "orvm", "मिरर"],
+  wheel: ["wheel", "rim", "alloy", "tyre", "tire", "hubcap", "पहिया", "टायर"],
+  window: ["window", "side window", "door glass", "खिड़की"],
+  pillar: ["pillar", "a pillar", "b pillar", "c pillar", "पिलर"],
+};
+
+const SIDE_WORDS: { pattern: RegExp; longitudinal?: LongitudinalSide; lateral?: LateralSide }[] = [
+  { pattern: /\b(front|fr|forward)\b|आगे/, longitudinal: "front" },
+  { pattern: /\b(rear|back|rr)\b|पीछे/, longitudinal: "rear" },
+  { pattern: /\b(left|lh|l|nearside|near side)\b|बाय/, lateral: "left" },
+  { pattern: /\b(right|rh|r|offside|off side)\b|दाय/, lateral: "right" },
+];
+
+/** Phrases that name a panel and imply its side, checked before the generic synonyms. */
+const IMPLIED_SIDE_PHRASES: { phrase: string; panel: Panel; longitudinal: LongitudinalSide }[] = [
+  { phrase: "rear glass", panel: "windshield", longitudinal: "rear" },
+  { phrase: "back glass", panel: "windshield", longitudinal: "rear" },
+  { phrase: "rear windshield", panel: "windshield", longitudinal: "rear" },
+  { phrase: "rear windscreen", panel: "windshield", longitudinal: "rear" },
+];
+
+const normalizeText = (value: string) =>
+  ` ${value.toLowerCase().replace(/[_\-/,.()]+/g, " ").replace(/\s+/g, " ").trim()} `;
+
+// Longest synonym first, so "rear quarter" wins over "quarter" and "side mirror" over "mirror"
+const SYNONYM_INDEX = (Object.entries(PANEL_SYNONYMS) as [Panel, string[]][])
+  .flatMap(([panel, synonyms]) => synonyms.map((synonym) => ({ synonym, panel })))
+  .sort((a, b) => b.synonym.length - a.synonym.length);
+
+const findPanel = (text: string): Panel | null => {
+  const match = SYNONYM_INDEX.find(({ synonym }) =>
+    /^[a-z ]+$/.test(synonym) ? text.includes(` ${synonym} `) : text.includes(synonym)
+  );
+  return match?.panel ?? null;
+};
+
+export const isPartCode = (value: unknown): value is PartCode =>
+  typeof value === "string" && PARTS_BY_CODE.has(value);
+
+/**
+ * Maps a free-text location to the most specific part code it supports.
+ * Sides the text does not mention are never guessed: "left door" resolves to
+ * `left_door`, not `front_left_door`.
+ */
+export const normalizePart = (location: string | null | undefined): PartCode => {
+  if (!location) return UNKNOWN_PART;
+  if (isPartCode(location.trim())) return location.trim() as PartCode;
+
+  const text = normalizeText(location);
+  const implied = IMPLIED_SIDE_PHRASES.find(({ phrase }) => text.includes(` ${phrase} `));
+  const panel = implied?.panel ?? findPanel(text);
+  if (!panel) return UNKNOWN_PART;
+
+  const longitudinal = implied?.longitudinal ?? SIDE_WORDS.find((s) => s.longitudinal && s.pattern.test(text))?.longitudinal;
+  const lateral = SIDE_WORDS.find((s) => s.lateral && s.pattern.test(text))?.lateral;
+
+  // Keep candidates whose sides are all stated in the text, then prefer the most specific one
+  const candidates = VEHICLE_PARTS.filter((p: VehiclePart) =>
+    p.panel === panel &&
+    (!p.longitudinal || p.longitudinal === longitudinal) &&
+    (!p.lateral || p.lateral === lateral)
+  );
+  const specificity = (p: VehiclePart) => (p.longitudinal ? 1 : 0) + (p.lateral ? 1 : 0);
+  const best = candidates.reduce<VehiclePart | null>(
+    (current, candidate) => (!current || specificity(candidate) > specificity(current) ? candidate : current),
+    null,
+  );
+  return (best?.code as PartCode | undefined) ?? UNKNOWN_PART;
+};
+
+export const getPart = (code: PartCode): VehiclePart => PARTS_BY_CODE.get(code) ?? PARTS_BY_CODE.get(UNKNOWN_PART)!;
+
+/** Localized display name; falls back to English for locales without a translation. */
+export const getPartLabel = (code: PartCode, locale: string = "en"): string => {
+  const language = locale.split("-")[0] as PartLocale;
+  const { labels } = getPart(code);
+  return labels[language] ?? labels.en;
+};
+
+/** Display name for a damage: the canonical label, or the model's own wording when the part is unknown. */
+export const describeDamageLocation = (
+  damage: { part?: PartCode; location: string },
+  locale: string = "en",
+): string => (damage.part && damage.part !== UNKNOWN_PART ? getPartLabel(damage.part, locale) : damage.location);
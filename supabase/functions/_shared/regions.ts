@@ -0,0 +1,100 @@
+// Pricing regions.
+// Each region prices repairs in its own currency: the base INR rate table is
+// converted with the exchange-rate table, scaled to local price levels and
+// given the local labor rate.
+import { DEFAULT_EXCHANGE_RATES, convertAmount, type ExchangeRates } from "./currency.ts";
+import { DEFAULT_RATE_TABLE, type CostRange, type PanelRates, type RateTable } from "./repair-rates.ts";
+
+export interface Region {
+  code: string;
+  name: string;
+  currency: string;
+  /** BCP 47 locale used to format amounts for this region. */
+  locale: string;
+  /** Local parts and paint prices relative to the converted base table. */
+  priceFactor: number;
+  /** Workshop labor rate in the region's currency. */
+  laborRatePerHour: number;
+}
+
+export const REGIONS = [
+  { code: "IN", name: "India", currency: "INR", locale: "en-IN", priceFactor: 1, laborRatePerHour: 1200 },
+  { code: "US", name: "United States", currency: "USD", locale: "en-US", priceFactor: 2.2, laborRatePerHour: 115 },
+  { code: "GB", name: "United Kingdom", currency: "GBP", locale: "en-GB", priceFactor: 2, laborRatePerHour: 70 },
+  { code: "DE", name: "Germany", currency: "EUR", locale: "de-DE", priceFactor: 2, laborRatePerHour: 90 },
+  { code: "AE", name: "United Arab Emirates", currency: "AED", locale: "en-AE", priceFactor: 1.4, laborRatePerHour: 250 },
+] as const satisfies readonly Region[];
+
+export type RegionCode = (typeof REGIONS)[number]["code"];
+
+export const DEFAULT_REGION: RegionCode = "IN";
+
+export const isRegionCode = (value: unknown): value is RegionCode =>
+  typeof value === "string" && REGIONS.some((region) => region.code === value);
+
+export const getRegion = (code: RegionCode): Region =>
+  REGIONS.find((region) => region.code === code) ?? REGIONS[0];
+
+/** Region matching a browser locale such as "en-GB", or the default region. */
+export const regionFromLocale = (locale: string | undefined): RegionCode => {
+  const country = locale?.split("-")[1]?.toUpperCase();
+  return isRegionCode(country) ? country : DEFAULT_REGION;
+};
+
+const scaleRange = (value: CostRange, scale: (amount: number) => number): CostRange => ({
+  min: Math.round(scale(value.min)),
+  max: Math.round(scale(value.max)),
+});
+
+/** Re-expresses every price in `table` in `currency`, multiplied by `priceFactor`. */
+export const convertRateTable = (
+  table: RateTable,
+  currency: string,
+  rates: ExchangeRates = DEFAULT_EXCHANGE_RATES,
+  priceFactor = 1,
+): RateTable => {
+  if (currency === table.currency && priceFactor === 1) return table;
+  const scale = (amount: number) => convertAmount(amount, table.currency, currency, rates) * priceFactor;
+
+  const panels = Object.fromEntries(
+    Object.entries(table.panels).map(([panel, panelRates]: [string, PanelRates]) => [
+      panel,
+      { ...panelRates, partPrice: scaleRange(panelRates.partPrice, scale), paintCost: scaleRange(panelRates.paintCost, scale) },
+    ]),
+  ) as RateTable["panels"];
+
+  return {
+    ...table,
+    currency,
+    laborRatePerHour: Math.round(convertAmount(table.laborRatePerHour, table.currency, currency, rates) * 100) / 100,
+    panels,
+  };
+};
+
+/** The region's own price table, derived from `base` (the INR table unless a deployment overrides it). */
+export const buildRegionalRateTable = (
+  code: RegionCode,
+  rates: ExchangeRates = DEFAULT_EXCHANGE_RATES,
+  base: RateTable = DEFAULT_RATE_TABLE,
+): RateTable => {
+  const region = getRegion(code);
+  if (region.code === DEFAULT_REGION) return base;
+  return {
+    ...convertRateTable(base, region.currency, rates, region.priceFactor),
+    laborRatePerHour: region.laborRatePerHour,
+  };
+};
+
+/**
+ * Rate table for a request: the region's prices, re-expressed in `currency`
+ * when the user asked for a different one than the region uses.
+ */
+export const resolveRateTable = (
+  code: RegionCode,
+  currency: string | undefined,
+  rates: ExchangeRates = DEFAULT_EXCHANGE_RATES,
+  regionalTable: RateTable = buildRegionalRateTable(code, rates),
+): RateTable =>
+  currency && currency !== regionalTable.currency
+    ? convertRateTable(regionalTable, currency, rates)
+    : regionalTable;
@@ -0,0 +1,171 @@
+// Rate table for the rule-based repair cost estimator.
+// Prices are per panel family, labor hours per damage type and severity, so
+// every amount in an estimate can be traced back to one row of this table.
+import { z } from "zod";
+import { DAMAGE_TYPES, SEVERITIES, type DamageType, type Severity } from "./contract.ts";
+import { PANELS, type Panel } from "./parts.ts";
+
+export interface CostRange {
+  min: number;
+  max: number;
+}
+
+export interface PanelRates {
+  /** Price of a replacement part. */
+  partPrice: CostRange;
+  /** Materials and booth time to refinish the panel; zero for unpainted parts such as glass. */
+  paintCost: CostRange;
+  /** Scales the rule's labor hours for panels that are harder to work on (welded, large or structural). */
+  laborMultiplier: number;
+  /** Glass and lamps cannot be repaired, so any damage means a replacement. */
+  replaceOnly?: boolean;
+}
+
+export interface RepairRule {
+  laborHours: CostRange;
+  paint: boolean;
+  replace: boolean;
+}
+
+export type RatePanel = Panel | "other";
+
+export interface RateTable {
+  currency: string;
+  laborRatePerHour: number;
+  panels: Record<RatePanel, PanelRates>;
+  rules: Record<DamageType, Record<Severity, RepairRule>>;
+}
+
+const range = (min: number, max: number): CostRange => ({ min, max });
+
+const panel = (partPrice: CostRange, paintCost: CostRange, laborMultiplier: number, replaceOnly = false): PanelRates =>
+  ({ partPrice, paintCost, laborMultiplier, ...(replaceOnly ? { replaceOnly } : {}) });
+
+const rule = (minHours: number, maxHours: number, { paint = false, replace = false } = {}): RepairRule =>
+  ({ laborHours: range(minHours, maxHours), paint, replace });
+
+/** Workshop rates for a mid-segment hatchback or sedan in India. */
+export const DEFAULT_RATE_TABLE: RateTable = {
+  currency: "INR",
+  laborRatePerHour: 1200,
+  panels: {
+    bumper: panel(range(6000, 18000), range(3000, 6000), 1),
+    hood: panel(range(12000, 35000), range(5000, 9000), 1.2),
+    roof: panel(range(25000, 60000), range(6000, 11000), 1.5),
+    trunk: panel(range(10000, 30000), range(4500, 8000), 1.1),
+    windshield: panel(range(8000, 25000), range(0, 0), 1, true),
+    grille: panel(range(3000, 12000), range(0, 0), 0.6, true),
+    door: panel(range(15000, 40000), range(4500, 8000), 1.2),
+    fender: panel(range(5000, 15000), range(3500, 6500), 1),
+    quarter_panel: panel(range(15000, 45000), range(4500, 8000), 1.6),
+    rocker_panel: panel(range(6000, 18000), range(3000, 5500), 1.3),
+    headlight: panel(range(5000, 25000), range(0, 0), 0.5, true),
+    taillight: panel(range(2500, 12000), range(0, 0), 0.4, true),
+    mirror: panel(range(2500, 9000), range(1500, 3000), 0.4),
+    wheel: panel(range(4000, 15000), range(0, 0), 0.5),
+    window: panel(range(3000, 9000), range(0, 0), 0.8, true),
+    pillar: panel(range(8000, 25000), range(3000, 6000), 2),
+    other: panel(range(3000, 15000), range(3000, 6000), 1),
+  },
+  rules: {
+    dent: {
+      Minor: rule(0.5, 1.5),
+      Moderate: rule(2, 4, { paint: true }),
+      Severe: rule(3, 6, { paint: true, replace: true }),
+    },
+    scratch: {
+      Minor: rule(0.5, 1),
+      Moderate: rule(1.5, 3, { paint: true }),
+      Severe: rule(2.5, 4, { paint: true }),
+    },
+    crack: {
+      Minor: rule(1, 2, { paint: true }),
+      Moderate: rule(1.5, 3, { paint: true, replace: true }),
+      Severe: rule(2, 4, { paint: true, replace: true }),
+    },
+    broken: {
+      Minor: rule(1, 2, { paint: true, replace: true }),
+      Moderate: rule(1.5, 3, { paint: true, replace: true }),
+      Severe: rule(3, 6, { paint: true, replace: true }),
+    },
+    missing: {
+      Minor: rule(1, 2, { paint: true, replace: true }),
+      Moderate: rule(1, 2, { paint: true, replace: true }),
+      Severe: rule(2, 4, { paint: true, replace: true }),
+    },
+    rust: {
+      Minor: rule(1, 2, { paint: true }),
+      Moderate: rule(3, 5, { paint: true }),
+      Severe: rule(4, 8, { paint: true, replace: true }),
+    },
+    paint_damage: {
+      Minor: rule(0.5, 1.5, { paint: true }),
+      Moderate: rule(1, 2, { paint: true }),
+      Severe: rule(2, 3, { paint: true }),
+    },
+    other: {
+      Minor: rule(0.5, 1.5),
+      Moderate: rule(1.5, 3, { paint: true }),
+      Severe: rule(3, 6, { paint: true, replace: true }),
+    },
+  },
+};
+
+const costRangeSchema = z
+  .object({ min: z.number().min(0), max: z.number().min(0) })
+  .refine((value) => value.max >= value.min, "max must be at least min");
+
+const panelRatesSchema = z.object({
+  partPrice: costRangeSchema,
+  paintCost: costRangeSchema,
+  laborMultiplier: z.number().positive(),
+  replaceOnly: z.boolean().optional(),
+});
+
+const repairRuleSchema = z.object({
+  laborHours: costRangeSchema,
+  paint: z.boolean(),
+  replace: z.boolean(),
+});
+
+const partialRecord = <T extends z.ZodTypeAny>(keys: readonly [string, ...string[]], value: T) =>
+  z.object(Object.fromEntries(keys.map((key) => [key, value.optional()])) as Record<string, z.ZodOptional<T>>).strict();
+
+/**
+ * Overrides merged onto a base table. Every level is optional, so a deployment
+ * can change just the labor rate or one panel's prices. Amounts are in the base
+ * table's currency, which an override cannot change: relabelling would leave
+ * every inherited amount in the old currency.
+ */
+export const rateTableOverrideSchema = z
+  .object({
+    laborRatePerHour: z.number().positive().optional(),
+    panels: partialRecord([...PANELS, "other"], panelRatesSchema.partial()).optional(),
+    rules: partialRecord(DAMAGE_TYPES, partialRecord(SEVERITIES, repairRuleSchema.partial())).optional(),
+  })
+  .strict();
+
+export type RateTableOverride = z.infer<typeof rateTableOverrideSchema>;
+
+export const mergeRateTable = (base: RateTable, override: RateTableOverride): RateTable => {
+  const panels = { ...base.panels };
+  Object.entries(override.panels ?? {}).forEach(([key, rates]) => {
+    if (rates) panels[key as RatePanel] = { ...panels[key as RatePanel], ...rates } as PanelRates;
+  });
+
+  const rules = { ...base.rules };
+  Object.entries(override.rules ?? {}).forEach(([type, bySeverity]) => {
+    const merged = { ...rules[type as DamageType] };
+    Object.entries(bySeverity ?? {}).forEach(([severity, repairRule]) => {
+      if (repairRule) merged[severity as Severity] = { ...merged[severity as Severity], ...repairRule } as RepairRule;
+    });
+    rules[type as DamageType] = merged;
+  });
+
+  return {
+    currency: base.currency,
+    laborRatePerHour: override.laborRatePerHour ?? base.laborRatePerHour,
+    panels,
+    rules,
+  };
+};
@@ -0,0 +1,20 @@
+// Organization roles and what each may do. Row-level security in the
+// database enforces the same rules; these helpers keep the edge function and
+// the app in line with it.
+export const ROLES = ["inspector", "adjuster", "admin"] as const;
+export type Role = (typeof ROLES)[number];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  inspector: "Inspector",
+  adjuster: "Adjuster",
+  admin: "Admin",
+};
+
+export const isRole = (value: unknown): value is Role => (ROLES as readonly unknown[]).includes(value);
+
+/** Inspectors capture and analyze vehicles; adjusters review the results. */
+export const canAnalyze = (role: Role) => role === "inspector" || role === "admin";
+
+export const canManageMembers = (role: Role) => role === "admin";
+
+export const canDeleteInspections = (role: Role) => role === "admin";
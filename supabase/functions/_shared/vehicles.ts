@@ -0,0 +1,44 @@
+// Vehicle identity shared by the edge function and the app.
+// Inspections are linked to a vehicle by VIN when one is given, otherwise by
+// plate; both are normalized so "MH 12-AB 1234" and "mh12ab1234" match.
+import { z } from "zod";
+import type { VehicleDetails } from "./contract.ts";
+
+/** 17 characters, no I, O or Q (ISO 3779). */
+const VIN_PATTERN = /^[A-HJ-NPR-Z0-9]{17}$/;
+
+export const MAX_PLATE_LENGTH = 16;
+const MAX_DETAIL_LENGTH = 40;
+const FIRST_MODEL_YEAR = 1886;
+
+export const normalizeVin = (value: string) => value.replace(/[\s-]/g, "").toUpperCase();
+
+export const normalizePlate = (value: string) => value.replace(/[^a-z0-9]/gi, "").toUpperCase();
+
+export const isVin = (value: string) => VIN_PATTERN.test(normalizeVin(value));
+
+const detail = z.string().trim().min(1).max(MAX_DETAIL_LENGTH);
+
+export const vehicleDetailsSchema = z
+  .object({
+    vin: z.string().transform(normalizeVin).refine((vin) => VIN_PATTERN.test(vin), "must be a 17-character VIN").optional(),
+    plate: z
+      .string()
+      .transform(normalizePlate)
+      .refine((plate) => plate.length > 0 && plate.length <= MAX_PLATE_LENGTH, `must be 1-${MAX_PLATE_LENGTH} letters or digits`)
+      .optional(),
+    make: detail.optional(),
+    model: detail.optional(),
+    year: z.number().int().min(FIRST_MODEL_YEAR).max(new Date().getFullYear() + 1).optional(),
+    color: detail.optional(),
+  })
+  .strict()
+  .refine((vehicle) => vehicle.vin || vehicle.plate, "a VIN or a plate is required");
+
+/** Reads a free-text reference as a VIN when it is one, otherwise as a plate. */
+export const vehicleFromRef = (ref: string): VehicleDetails =>
+  isVin(ref) ? { vin: normalizeVin(ref) } : { plate: normalizePlate(ref) };
+
+/** "2019 Maruti Swift", falling back to the plate or VIN. */
+export const vehicleLabel = (vehicle: { vin?: string | null; plate?: string | null; make?: string | null; model?: string | null; year?: number | null }) =>
+  [vehicle.year, vehicle.make, vehicle.model].filter(Boolean).join(" ") || vehicle.plate || vehicle.vin || "Unknown vehicle";
@@ -0,0 +1,45 @@
+// Standard angles of a guided walk-around, in capture order: eight around the
+// vehicle clockwise from the front, then the interior and the odometer.
+// Shots tagged with a viewpoint keep it through analysis and storage.
+export const VIEWPOINTS = [
+  "front",
+  "front_left",
+  "left",
+  "rear_left",
+  "rear",
+  "rear_right",
+  "right",
+  "front_right",
+  "interior",
+  "odometer",
+] as const;
+export type Viewpoint = (typeof VIEWPOINTS)[number];
+
+export const VIEWPOINT_LABELS: Record<Viewpoint, string> = {
+  front: "Front",
+  front_left: "Front-left",
+  left: "Left",
+  rear_left: "Rear-left",
+  rear: "Rear",
+  rear_right: "Rear-right",
+  right: "Right",
+  front_right: "Front-right",
+  interior: "Interior",
+  odometer: "Odometer",
+};
+
+/** Where to stand or what to frame for each shot. */
+export const VIEWPOINT_INSTRUCTIONS: Record<Viewpoint, string> = {
+  front: "Stand in front of the vehicle and fit the whole bumper and bonnet in the frame.",
+  front_left: "Step to the front-left corner so the front and the left side are both visible.",
+  left: "Stand level with the middle of the left side and fit the whole side in the frame.",
+  rear_left: "Step to the rear-left corner so the rear and the left side are both visible.",
+  rear: "Stand behind the vehicle and fit the whole bumper and boot in the frame.",
+  rear_right: "Step to the rear-right corner so the rear and the right side are both visible.",
+  right: "Stand level with the middle of the right side and fit the whole side in the frame.",
+  front_right: "Step to the front-right corner so the front and the right side are both visible.",
+  interior: "Shoot the dashboard and front seats through the open driver's door.",
+  odometer: "Turn on the ignition and fill the frame with the instrument cluster.",
+};
+
+export const isViewpoint = (value: unknown): value is Viewpoint => (VIEWPOINTS as readonly unknown[]).includes(value);
@@ -0,0 +1,239 @@
+// Deterministic damage annotation renderer.
+// Draws severity-colored outlines, numbered badges and labels onto the original
+// pixels from the structured damage coordinates. No randomness, no system fonts
+// and no anti-aliasing, so identical inputs always encode to identical PNG bytes.
+import { decode, Image } from "imagescript";
+import { decode as decodeBase64, encode as encodeBase64 } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import type { BoundingBox, DamageItem, PolygonPoint, Severity } from "../_shared/contract.ts";
+import { describeDamageLocation } from "../_shared/parts.ts";
+
+/** Longest edge of the rendered PNG; larger photos are downscaled first to keep responses small. */
+export const ANNOTATION_MAX_DIMENSION = 1600;
+
+/** PNG deflate level. Part of the byte-stability contract: changing it changes every rendered file. */
+const PNG_COMPRESSION_LEVEL = 6;
+
+type Rgb = [number, number, number];
+
+const SEVERITY_COLORS: Record<Severity, Rgb> = {
+  Severe: [220, 38, 38],
+  Moderate: [249, 115, 22],
+  Minor: [234, 179, 8],
+};
+
+const LABEL_BACKGROUND: Rgb = [17, 24, 39];
+const LABEL_TEXT: Rgb = [255, 255, 255];
+
+interface Raster {
+  width: number;
+  height: number;
+  /** RGBA, row-major */
+  data: Uint8ClampedArray;
+}
+
+// 5x7 bitmap glyphs; each row is a 5-bit mask, most significant bit on the left.
+const GLYPH_WIDTH = 5;
+const GLYPH_HEIGHT = 7;
+const GLYPHS: Record<string, number[]> = {
+  "0": [0x0e, 0x11, 0x13, 0x15, 0x19, 0x11, 0x0e],
+  "1": [0x04, 0x0c, 0x04, 0x04, 0x04, 0x04, 0x0e],
+  "2": [0x0e, 0x11, 0x01, 0x02, 0x04, 0x08, 0x1f],
+  "3": [0x1f, 0x02, 0x04, 0x02, 0x01, 0x11, 0x0e],
+  "4": [0x02, 0x06, 0x0a, 0x12, 0x1f, 0x02, 0x02],
+  "5": [0x1f, 0x10, 0x1e, 0x01, 0x01, 0x11, 0x0e],
+  "6": [0x06, 0x08, 0x10, 0x1e, 0x11, 0x11, 0x0e],
+  "7": [0x1f, 0x01, 0x02, 0x04, 0x08, 0x08, 0x08],
+  "8": [0x0e, 0x11, 0x11, 0x0e, 0x11, 0x11, 0x0e],
+  "9": [0x0e, 0x11, 0x11, 0x0f, 0x01, 0x02, 0x0c],
+  A: [0x0e, 0x11, 0x11, 0x11, 0x1f, 0x11, 0x11],
+  B: [0x1e, 0x11, 0x11, 0x1e, 0x11, 0x11, 0x1e],
+  C: [0x0e, 0x11, 0x10, 0x10, 0x10, 0x11, 0x0e],
+  D: [0x1c, 0x12, 0x11, 0x11, 0x11, 0x12, 0x1c],
+  E: [0x1f, 0x10, 0x10, 0x1e, 0x10, 0x10, 0x1f],
+  F: [0x1f, 0x10, 0x10, 0x1e, 0x10, 0x10, 0x10],
+  G: [0x0e, 0x11, 0x10, 0x17, 0x11, 0x11, 0x0f],
+  H: [0x11, 0x11, 0x11, 0x1f, 0x11, 0x11, 0x11],
+  I: [0x0e, 0x04, 0x04, 0x04, 0x04, 0x04, 0x0e],
+  J: [0x07, 0x02, 0x02, 0x02, 0x02, 0x12, 0x0c],
+  K: [0x11, 0x12, 0x14, 0x18, 0x14, 0x12, 0x11],
+  L: [0x10, 0x10, 0x10, 0x10, 0x10, 0x10, 0x1f],
+  M: [0x11, 0x1b, 0x15, 0x15, 0x11, 0x11, 0x11],
+  N: [0x11, 0x11, 0x19, 0x15, 0x13, 0x11, 0x11],
+  O: [0x0e, 0x11, 0x11, 0x11, 0x11, 0x11, 0x0e],
+  P: [0x1e, 0x11, 0x11, 0x1e, 0x10, 0x10, 0x10],
+  Q: [0x0e, 0x11, 0x11, 0x11, 0x15, 0x12, 0x0d],
+  R: [0x1e, 0x11, 0x11, 0x1e, 0x14, 0x12, 0x11],
+  S: [0x0f, 0x10, 0x10, 0x0e, 0x01, 0x01, 0x1e],
+  T: [0x1f, 0x04, 0x04, 0x04, 0x04, 0x04, 0x04],
+  U: [0x11, 0x11, 0x11, 0x11, 0x11, 0x11, 0x0e],
+  V: [0x11, 0x11, 0x11, 0x11, 0x11, 0x0a, 0x04],
+  W: [0x11, 0x11, 0x11, 0x15, 0x15, 0x15, 0x0a],
+  X: [0x11, 0x11, 0x0a, 0x04, 0x0a, 0x11, 0x11],
+  Y: [0x11, 0x11, 0x11, 0x0a, 0x04, 0x04, 0x04],
+  Z: [0x1f, 0x01, 0x02, 0x04, 0x08, 0x10, 0x1f],
+  "-": [0x00, 0x00, 0x00, 0x1f, 0x00, 0x00, 0x00],
+  ".": [0x00, 0x00, 0x00, 0x00, 0x00, 0x0c, 0x0c],
+  " ": [0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00],
+};
+
+const setPixel = (raster: Raster, x: number, y: number, [r, g, b]: Rgb) => {
+  if (x < 0 || y < 0 || x >= raster.width || y >= raster.height) return;
+  const offset = (y * raster.width + x) * 4;
+  raster.data[offset] = r;
+  raster.data[offset + 1] = g;
+  raster.data[offset + 2] = b;
+  raster.data[offset + 3] = 255;
+};
+
+const fillRect = (raster: Raster, x: number, y: number, width: number, height: number, color: Rgb) => {
+  for (let py = y; py < y + height; py++) {
+    for (let px = x; px < x + width; px++) {
+      setPixel(raster, px, py, color);
+    }
+  }
+};
+
+const strokeRect = (raster: Raster, x: number, y: number, width: number, height: number, thickness: number, color: Rgb) => {
+  fillRect(raster, x, y, width, thickness, color);
+  fillRect(raster, x, y + height - thickness, width, thickness, color);
+  fillRect(raster, x, y, thickness, height, color);
+  fillRect(raster, x + width - thickness, y, thickness, height, color);
+};
+
+/** Bresenham line with a square brush of `thickness` pixels. */
+const drawLine = (raster: Raster, x0: number, y0: number, x1: number, y1: number, thickness: number, color: Rgb) => {
+  const dx = Math.abs(x1 - x0);
+  const dy = -Math.abs(y1 - y0);
+  const sx = x0 < x1 ? 1 : -1;
+  const sy = y0 < y1 ? 1 : -1;
+  const half = Math.floor(thickness / 2);
+  let error = dx + dy;
+  let x = x0;
+  let y = y0;
+
+  while (true) {
+    fillRect(raster, x - half, y - half, thickness, thickness, color);
+    if (x === x1 && y === y1) break;
+    const doubled = 2 * error;
+    if (doubled >= dy) {
+      error += dy;
+      x += sx;
+    }
+    if (doubled <= dx) {
+      error += dx;
+      y += sy;
+    }
+  }
+};
+
+const textWidth = (text: string, scale: number) => text.length * (GLYPH_WIDTH + 1) * scale - scale;
+
+const drawText = (raster: Raster, x: number, y: number, text: string, scale: number, color: Rgb) => {
+  [...text].forEach((char, charIndex) => {
+    const glyph = GLYPHS[char] ?? GLYPHS[" "];
+    const originX = x + charIndex * (GLYPH_WIDTH + 1) * scale;
+    glyph.forEach((row, rowIndex) => {
+      for (let column = 0; column < GLYPH_WIDTH; column++) {
+        if (row & (1 << (GLYPH_WIDTH - 1 - column))) {
+          fillRect(raster, originX + column * scale, y + rowIndex * scale, scale, scale, color);
+        }
+      }
+    });
+  });
+};
+
+const toPixelBox = (raster: Raster, box: BoundingBox) => {
+  const x = Math.round(box.x * raster.width);
+  const y = Math.round(box.y * raster.height);
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.min(raster.width - x, Math.round(box.width * raster.width))),
+    height: Math.max(1, Math.min(raster.height - y, Math.round(box.height * raster.height))),
+  };
+};
+
+const toPixelPoint = (raster: Raster, [x, y]: PolygonPoint): [number, number] => [
+  Math.min(raster.width - 1, Math.round(x * raster.width)),
+  Math.min(raster.height - 1, Math.round(y * raster.height)),
+];
+
+const labelFor = (damage: DamageItem) =>
+  `${damage.type.replace(/_/g, " ")} - ${describeDamageLocation(damage)}`.toUpperCase().slice(0, 40);
+
+/** Draws every localized damage onto the raster in list order. */
+export const drawAnnotations = (raster: Raster, damages: DamageItem[]) => {
+  const shortEdge = Math.min(raster.width, raster.height);
+  const thickness = Math.max(3, Math.round(shortEdge * 0.006));
+  const textScale = Math.max(2, Math.round(shortEdge / 300));
+  const padding = textScale * 2;
+  const lineHeight = GLYPH_HEIGHT * textScale + padding * 2;
+
+  damages.forEach((damage, index) => {
+    const color = SEVERITY_COLORS[damage.severity];
+    const anchors: { x: number; y: number }[] = [];
+
+    if (damage.polygons?.length) {
+      damage.polygons.forEach((polygon) => {
+        const points = polygon.map((point) => toPixelPoint(raster, point));
+        points.forEach(([x0, y0], pointIndex) => {
+          const [x1, y1] = points[(pointIndex + 1) % points.length];
+          drawLine(raster, x0, y0, x1, y1, thickness, color);
+        });
+        anchors.push({
+          x: Math.min(...points.map(([x]) => x)),
+          y: Math.min(...points.map(([, y]) => y)),
+        });
+      });
+    } else {
+      damage.boundingBoxes.forEach((box) => {
+        const pixelBox = toPixelBox(raster, box);
+        strokeRect(raster, pixelBox.x, pixelBox.y, pixelBox.width, pixelBox.height, thickness, color);
+        anchors.push({ x: pixelBox.x, y: pixelBox.y });
+      });
+    }
+
+    const anchor = anchors[0];
+    if (!anchor) return;
+
+    // Number badge in the severity color, then a dark label strip beside it.
+    // Both sit above the region, or just inside it when the region touches the top edge.
+    const number = String(index + 1);
+    const badgeWidth = textWidth(number, textScale) + padding * 2;
+    const label = labelFor(damage);
+    const labelWidth = textWidth(label, textScale) + padding * 2;
+    const top = anchor.y - lineHeight >= 0 ? anchor.y - lineHeight : anchor.y + thickness;
+    const left = Math.max(0, Math.min(anchor.x, raster.width - badgeWidth - labelWidth));
+
+    fillRect(raster, left, top, badgeWidth, lineHeight, color);
+    drawText(raster, left + padding, top + padding, number, textScale, LABEL_TEXT);
+    fillRect(raster, left + badgeWidth, top, labelWidth, lineHeight, LABEL_BACKGROUND);
+    drawText(raster, left + badgeWidth + padding, top + padding, label, textScale, LABEL_TEXT);
+  });
+};
+
+const DATA_URL_PATTERN = /^data:image\/[\w.+-]+;base64,(.+)$/;
+
+/**
+ * Renders the annotated PNG as a data URL, or returns null when the input is not
+ * a base64 data URL or no damage carries coordinates.
+ */
+export const renderAnnotatedImage = async (imageDataUrl: string, damages: DamageItem[]): Promise<string | null> => {
+  const localized = damages.some((d) => d.boundingBoxes.length > 0 || (d.polygons?.length ?? 0) > 0);
+  const match = imageDataUrl.match(DATA_URL_PATTERN);
+  if (!localized || !match) return null;
+
+  const decoded = await decode(decodeBase64(match[1]));
+  if (!(decoded instanceof Image)) return null;
+
+  const image = Math.max(decoded.width, decoded.height) > ANNOTATION_MAX_DIMENSION
+    ? decoded.width >= decoded.height
+      ? decoded.resize(ANNOTATION_MAX_DIMENSION, Image.RESIZE_AUTO)
+      : decoded.resize(Image.RESIZE_AUTO, ANNOTATION_MAX_DIMENSION)
+    : decoded;
+
+  drawAnnotations({ width: image.width, height: image.height, data: image.bitmap }, damages);
+
+  const png = await image.encode(PNG_COMPRESSION_LEVEL);
+  return `data:image/png;base64,${encodeBase64(png)}`;
+};
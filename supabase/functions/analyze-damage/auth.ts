@@ -0,0 +1,67 @@
+// Identifies the caller from the Authorization header.
+// The gateway verifies that a JWT is present (verify_jwt in config.toml), but
+// the public anon key is a valid JWT too, so this also requires a signed-in
+// user who belongs to an organization and whose role may run analyses.
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import { canAnalyze, isRole, type Role } from "../_shared/roles.ts";
+
+export interface Caller {
+  userId: string;
+  organizationId: string;
+  role: Role;
+}
+
+export class AuthFailure extends Error {
+  constructor(
+    readonly status: 401 | 403 | 500,
+    readonly code: 'unauthorized' | 'forbidden' | 'server_error',
+    message: string,
+  ) {
+    super(message);
+    this.name = 'AuthFailure';
+  }
+}
+
+let serviceClient: SupabaseClient | null = null;
+
+const getServiceClient = () => {
+  if (serviceClient) return serviceClient;
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new AuthFailure(500, 'server_error', 'Authentication is not configured');
+  }
+  serviceClient = createClient(supabaseUrl, serviceRoleKey, { auth: { persistSession: false } });
+  return serviceClient;
+};
+
+/** Resolves the signed-in user and their organization, or throws an AuthFailure. */
+export const authenticate = async (req: Request): Promise<Caller> => {
+  const token = req.headers.get('Authorization')?.match(/^Bearer\s+(.+)$/i)?.[1];
+  if (!token) {
+    throw new AuthFailure(401, 'unauthorized', 'Sign in to analyze vehicles');
+  }
+
+  const client = getServiceClient();
+  const { data: { user }, error } = await client.auth.getUser(token);
+  if (error || !user) {
+    throw new AuthFailure(401, 'unauthorized', 'Your session has expired. Please sign in again.');
+  }
+
+  const { data: membership, error: membershipError } = await client
+    .from('organization_members')
+    .select('organization_id, role')
+    .eq('user_id', user.id)
+    .maybeSingle();
+  if (membershipError) {
+    throw new AuthFailure(500, 'server_error', `Could not load your organization: ${membershipError.message}`);
+  }
+  if (!membership || !isRole(membership.role)) {
+    throw new AuthFailure(403, 'forbidden', 'Join or create an organization before analyzing vehicles');
+  }
+  if (!canAnalyze(membership.role)) {
+    throw new AuthFailure(403, 'forbidden', `The ${membership.role} role cannot run analyses`);
+  }
+
+  return { userId: user.id, organizationId: membership.organization_id as string, role: membership.role };
+};
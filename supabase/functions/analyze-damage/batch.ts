@@ -0,0 +1,92 @@
+// Batch analysis: runs the single-image pipeline over N images with bounded
+// concurrency and reports each item's outcome independently, so one bad frame
+// does not fail the whole inspection.
+import { AnalysisFailure, analyzeImage, type AnalysisRun, type PipelineOptions } from "./pipeline.ts";
+import { combineResults } from "../_shared/combine.ts";
+import {
+  SCHEMA_VERSION,
+  type AnalyzeDamageBatchRequest,
+  type AnalyzeDamageBatchResponse,
+  type BatchItemResult,
+} from "../_shared/contract.ts";
+
+const DEFAULT_CONCURRENCY = 3;
+
+/** Maps items through `fn` with at most `limit` calls in flight; results keep input order. */
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> => {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+};
+
+const getConcurrency = () => {
+  const configured = Number(Deno.env.get('BATCH_CONCURRENCY'));
+  return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_CONCURRENCY;
+};
+
+/** Per-item outcome kept alongside the response so the caller can persist every run. */
+export type BatchItemRun = { run: AnalysisRun; failure: null } | { run: null; failure: unknown };
+
+export interface BatchRun {
+  response: AnalyzeDamageBatchResponse;
+  /** One entry per requested image, in request order. */
+  itemRuns: BatchItemRun[];
+}
+
+/** A batch whose stored images have already been read into data URLs. */
+export type InlineBatch = Pick<AnalyzeDamageBatchRequest, 'source'> & { images: { id: string; imageBase64: string }[] };
+
+export const analyzeBatch = async (
+  { images, source }: InlineBatch,
+  options: PipelineOptions,
+): Promise<BatchRun> => {
+  console.log(`Batch: analyzing ${images.length} ${source} item(s)...`);
+
+  const itemRuns = await mapWithConcurrency(images, getConcurrency(), async ({ id, imageBase64 }): Promise<BatchItemRun> => {
+    try {
+      return { run: await analyzeImage(imageBase64, options), failure: null };
+    } catch (error) {
+      console.error(`Batch item ${id} failed:`, error);
+      return { run: null, failure: error };
+    }
+  });
+
+  const items = itemRuns.map(({ run, failure }, index): BatchItemResult => {
+    const { id } = images[index];
+    if (run) return { id, status: 'ok', result: run.response };
+    if (failure instanceof AnalysisFailure) {
+      return { id, status: 'error', error: { error: failure.message, code: failure.code, issues: failure.issues } };
+    }
+    return {
+      id,
+      status: 'error',
+      error: { error: failure instanceof Error ? failure.message : 'An unexpected error occurred', code: 'server_error' },
+    };
+  });
+
+  const succeeded = items.flatMap((item, index) =>
+    item.status === 'ok' ? [{ ...item.result, frameIndex: index }] : []
+  );
+
+  return {
+    response: {
+      schemaVersion: SCHEMA_VERSION,
+      items,
+      combined: succeeded.length > 0 ? combineResults(succeeded, source) : null,
+    },
+    itemRuns,
+  };
+};
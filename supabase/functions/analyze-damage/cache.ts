@@ -0,0 +1,122 @@
+// Content-hash cache for validated analysis results.
+// Keyed on the SHA-256 of the image's decoded pixels plus the prompt version
+// and model, so a re-upload of the same photo (with different metadata, or
+// under another data URL mime label) is answered without another AI call.
+// Entries belong to one organization: another organization uploading the same
+// photo runs (and pays for) its own analysis. Annotations are not cached: they
+// are re-rendered deterministically from the cached coordinates.
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import { decode, Image } from "imagescript";
+import { decode as decodeBase64 } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import { hashBytes, hashPixels } from "../_shared/image-hash.ts";
+import type { AnalysisResult } from "../_shared/contract.ts";
+
+export interface CacheKey {
+  organizationId: string;
+  imageHash: string;
+  promptVersion: string;
+  model: string;
+}
+
+export interface ResultCacheStore {
+  get(key: CacheKey): Promise<AnalysisResult | null>;
+  set(key: CacheKey, result: AnalysisResult): Promise<void>;
+}
+
+/** The decoded pixels of a still image; null when the bytes are not one. */
+const decodeStill = async (bytes: Uint8Array): Promise<Image | null> => {
+  try {
+    const image = await decode(bytes);
+    return image instanceof Image ? image : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Hashes the image's exact decoded pixels. Payloads that do not decode as an
+ * image are hashed as they are, so they still get a stable key.
+ */
+export const hashImage = async (imageDataUrl: string): Promise<string> => {
+  const commaIndex = imageDataUrl.indexOf(',');
+  const bytes = imageDataUrl.startsWith('data:') && commaIndex !== -1
+    ? decodeBase64(imageDataUrl.slice(commaIndex + 1))
+    : new TextEncoder().encode(imageDataUrl);
+  const image = await decodeStill(bytes);
+  return image ? hashPixels(image.width, image.height, image.bitmap) : hashBytes(bytes);
+};
+
+const serializeKey = ({ organizationId, imageHash, promptVersion, model }: CacheKey) =>
+  `${organizationId}:${imageHash}:${promptVersion}:${model}`;
+
+/**
+ * Process-local store. Survives between requests on a warm function instance;
+ * also used by tests and when no database is available.
+ */
+export const createMemoryCacheStore = (maxEntries = 500): ResultCacheStore => {
+  const entries = new Map<string, AnalysisResult>();
+
+  return {
+    get: (key) => Promise.resolve(entries.get(serializeKey(key)) ?? null),
+    set: (key, result) => {
+      const serialized = serializeKey(key);
+      entries.delete(serialized);
+      entries.set(serialized, result);
+      // Map preserves insertion order, so the first key is the least recently written
+      if (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+      return Promise.resolve();
+    },
+  };
+};
+
+/** Store backed by the `analysis_cache` table; needs the service role key. */
+export const createPostgresCacheStore = (client: SupabaseClient): ResultCacheStore => ({
+  async get({ organizationId, imageHash, promptVersion, model }) {
+    const { data, error } = await client
+      .from('analysis_cache')
+      .select('result')
+      .eq('organization_id', organizationId)
+      .eq('image_hash', imageHash)
+      .eq('prompt_version', promptVersion)
+      .eq('model', model)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Cache lookup failed:', error.message);
+      return null;
+    }
+    return (data?.result as AnalysisResult | undefined) ?? null;
+  },
+
+  async set({ organizationId, imageHash, promptVersion, model }, result) {
+    const { error } = await client
+      .from('analysis_cache')
+      .upsert({ organization_id: organizationId, image_hash: imageHash, prompt_version: promptVersion, model, result });
+
+    if (error) {
+      console.error('Cache write failed:', error.message);
+    }
+  },
+});
+
+let memoryStore: ResultCacheStore | null = null;
+
+/**
+ * Select the cache store from ANALYSIS_CACHE: "postgres" (default), "memory" or "off".
+ * Falls back to memory when the service role credentials are missing.
+ */
+export const getCacheStoreFromEnv = (): ResultCacheStore | null => {
+  const storeName = Deno.env.get('ANALYSIS_CACHE') ?? 'postgres';
+  if (storeName === 'off') return null;
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (storeName === 'postgres' && supabaseUrl && serviceRoleKey) {
+    return createPostgresCacheStore(createClient(supabaseUrl, serviceRoleKey, { auth: { persistSession: false } }));
+  }
+
+  memoryStore ??= createMemoryCacheStore();
+  return memoryStore;
+};
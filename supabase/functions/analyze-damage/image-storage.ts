@@ -0,0 +1,90 @@
+// Reads uploaded originals from, and writes rendered images to, the private
+// inspection image bucket. Images move between here and the pipeline as data
+// URLs, which is what the providers and renderers already work with.
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import { decode as decodeBase64, encode as encodeBase64 } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import { INSPECTION_IMAGES_BUCKET, SIGNED_URL_TTL_SECONDS } from "../_shared/image-paths.ts";
+
+/** Largest original the function will download, matching the bucket's file size limit. */
+export const MAX_STORED_IMAGE_BYTES = 10 * 1024 * 1024;
+
+export class ImageNotFound extends Error {
+  constructor(readonly path: string) {
+    super(`No uploaded image at "${path}"`);
+    this.name = 'ImageNotFound';
+  }
+}
+
+export interface ImageStorage {
+  /** Downloads an object as a data URL; throws ImageNotFound when it does not exist. */
+  read(path: string): Promise<string>;
+  /** Uploads a data URL, replacing any object at `path`. */
+  write(path: string, imageDataUrl: string): Promise<void>;
+  signedUrl(path: string): Promise<string>;
+  /** Deletes objects; paths that do not exist are ignored. */
+  remove(paths: string[]): Promise<void>;
+}
+
+const DATA_URL_PATTERN = /^data:([^;,]+);base64,(.+)$/s;
+
+/**
+ * Whether a failed download means the object does not exist. Storage answers a
+ * missing object with a 404, or with a 400 whose body carries a "404" status
+ * code; anything else (auth, network, server errors) is a real failure.
+ */
+const isNotFound = async (error: unknown): Promise<boolean> => {
+  const response = (error as { originalError?: unknown } | null)?.originalError;
+  const status = response instanceof Response ? response.status : (error as { status?: unknown } | null)?.status;
+  if (status === 404) return true;
+  if (status !== 400 || !(response instanceof Response)) return false;
+  const body = await response.clone().json().catch(() => null);
+  return body?.statusCode === '404' || body?.error === 'not_found';
+};
+
+export const createSupabaseImageStorage = (client: SupabaseClient): ImageStorage => {
+  const bucket = () => client.storage.from(INSPECTION_IMAGES_BUCKET);
+
+  return {
+    async read(path) {
+      const { data, error } = await bucket().download(path);
+      if (error) {
+        if (await isNotFound(error)) throw new ImageNotFound(path);
+        throw new Error(`Image download failed: ${error.message}`);
+      }
+      if (!data) throw new ImageNotFound(path);
+      if (data.size > MAX_STORED_IMAGE_BYTES) {
+        throw new Error(`Uploaded image is larger than ${MAX_STORED_IMAGE_BYTES / 1024 / 1024} MB`);
+      }
+      const bytes = new Uint8Array(await data.arrayBuffer());
+      return `data:${data.type || 'image/jpeg'};base64,${encodeBase64(bytes)}`;
+    },
+
+    async write(path, imageDataUrl) {
+      const match = imageDataUrl.match(DATA_URL_PATTERN);
+      if (!match) throw new Error('Only base64 data URLs can be stored');
+      const { error } = await bucket().upload(path, decodeBase64(match[2]), { contentType: match[1], upsert: true });
+      if (error) throw new Error(`Image upload failed: ${error.message}`);
+    },
+
+    async signedUrl(path) {
+      const { data, error } = await bucket().createSignedUrl(path, SIGNED_URL_TTL_SECONDS);
+      if (error || !data) throw new Error(`Could not sign image URL: ${error?.message}`);
+      return data.signedUrl;
+    },
+
+    async remove(paths) {
+      if (paths.length === 0) return;
+      const { error } = await bucket().remove(paths);
+      if (error) throw new Error(`Image removal failed: ${error.message}`);
+    },
+  };
+};
+
+/** Storage needs the service role key; returns null when it is not configured. */
+export const getImageStorageFromEnv = (): ImageStorage | null => {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!supabaseUrl || !serviceRoleKey) return null;
+
+  return createSupabaseImageStorage(createClient(supabaseUrl, serviceRoleKey, { auth: { persistSession: false } }));
+};
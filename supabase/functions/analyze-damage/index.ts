@@ -1,270 +1,322 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { getProviderFromEnv } from "./providers.ts";
+import { getCacheStoreFromEnv } from "./cache.ts";
+import { getPricingFromEnv } from "./rate-table.ts";
+import {
+  batchInspection,
+  getInspectionStoreFromEnv,
+  singleImageInspection,
+  type InspectionRecord,
+  type ResolvedImage,
+  type RunContext,
+  type SavedInspection,
+} from "./inspection-store.ts";
+import { PROMPT_VERSION } from "./prompts.ts";
+import { AnalysisFailure, analyzeImage, type AnalysisRun } from "./pipeline.ts";
+import { analyzeBatch } from "./batch.ts";
+import { AuthFailure, authenticate, type Caller } from "./auth.ts";
+import { QuotaExceeded, getQuotaStoreFromEnv, type QuotaGrant, type QuotaStore } from "./quota.ts";
+import { ImageNotFound, getImageStorageFromEnv, type ImageStorage } from "./image-storage.ts";
+import { annotatedPathFor, belongsToOrganization } from "../_shared/image-paths.ts";
+import { assessQuality, imageQualityScoresSchema, type ImageQuality } from "../_shared/image-quality.ts";
+import { isSupportedCurrency } from "../_shared/currency.ts";
+import { DEFAULT_REGION, REGIONS, isRegionCode } from "../_shared/regions.ts";
+import { vehicleDetailsSchema, vehicleFromRef } from "../_shared/vehicles.ts";
+import { VIEWPOINTS, isViewpoint } from "../_shared/viewpoints.ts";
+import { toValidationIssues } from "../_shared/analysis-schema.ts";
+import {
+  MAX_BATCH_SIZE,
+  MAX_VEHICLE_REF_LENGTH,
+  SCHEMA_VERSION,
+  type AnalyzeDamageBatchRequest,
+  type AnalyzeDamageBatchResponse,
+  type AnalyzeDamageErrorBody,
+  type AnalyzeDamageErrorCode,
+  type AnalyzeDamageRequest,
+  type AnalyzeDamageResponse,
+  type BatchImage,
+  type ImageInput,
+  type MeasuredImage,
+  type ValidationIssue,
+  type VehicleDetails,
+} from "../_shared/contract.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-serve(async (req) => {
-  // Handle CORS preflight requests
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
-  }
+const jsonResponse = (
+  body: AnalyzeDamageResponse | AnalyzeDamageBatchResponse | AnalyzeDamageErrorBody,
+  status = 200,
+) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
 
-  try {
-    const { imageBase64 } = await req.json();
-    
-    if (!imageBase64) {
-      return new Response(
-        JSON.stringify({ error: 'No image provided' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
+const errorResponse = (
+  status: number,
+  code: AnalyzeDamageErrorCode,
+  error: string,
+  issues?: ValidationIssue[],
+  extra: Pick<AnalyzeDamageErrorBody, 'resetAt' | 'limitedBy'> = {},
+) => jsonResponse({ error, code, schemaVersion: SCHEMA_VERSION, ...(issues ? { issues } : {}), ...extra }, status);
 
-    const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
-    if (!LOVABLE_API_KEY) {
-      throw new Error('LOVABLE_API_KEY is not configured');
-    }
+/** Seconds until a quota resets, for the Retry-After header. */
+const retryAfterSeconds = (resetAt: string) =>
+  Math.max(1, Math.ceil((new Date(resetAt).getTime() - Date.now()) / 1000));
 
-    console.log('Step 1: Analyzing vehicle damage with AI...');
+/** Refunds are best effort too: a failed refund only costs the organization credits. */
+const refundCredits = async (quota: QuotaStore | null, caller: Caller, grant: QuotaGrant | null, credits: number) => {
+  if (!quota || !grant || credits === 0) return;
+  try {
+    await quota.refund(caller, grant, credits);
+  } catch (error) {
+    console.error('Failed to refund analysis credits:', error);
+  }
+};
 
-    const systemPrompt = `You are an expert AI vehicle damage detection system. Your job is to carefully analyze vehicle images.
+/** Persisting is best effort: a failed write is logged and the analysis is still returned. */
+const saveInspection = async (record: () => Promise<InspectionRecord>): Promise<SavedInspection | null> => {
+  const store = getInspectionStoreFromEnv();
+  if (!store) return null;
+  try {
+    return await store.save(await record());
+  } catch (error) {
+    console.error('Failed to persist inspection:', error);
+    return null;
+  }
+};
 
-CRITICAL RULES:
-1. If the image does NOT contain a vehicle (car, truck, motorcycle, etc.), set hasVehicle to false
-2. If the vehicle is in PERFECT condition with NO visible damage, set hasDamage to false and damages to empty array
-3. Only report damage that is ACTUALLY VISIBLE in the image - do not assume or guess damage
-4. Be very accurate - false positives are worse than false negatives
+/** True when exactly one of imageBase64 and imagePath is a non-empty string. */
+const isImageInput = (input: Partial<ImageInput> | undefined): input is ImageInput =>
+  (typeof input?.imageBase64 === 'string' && input.imageBase64 !== '') !==
+    (typeof input?.imagePath === 'string' && input.imagePath !== '');
 
-When analyzing an image:
-1. First determine if there is a vehicle in the image
-2. If there is a vehicle, carefully examine for ACTUAL visible damage (dents, scratches, cracks, broken parts, rust, paint damage)
-3. Only report damage you can clearly see - not potential or possible damage
-4. If the car looks clean and undamaged, report no damage
+/** Re-assesses the app's quality measurements with the shared thresholds; null when none were sent. */
+const parseQuality = (quality: unknown): ImageQuality | null => {
+  if (quality === undefined) return null;
+  const parsed = imageQualityScoresSchema.safeParse(quality);
+  if (!parsed.success) {
+    throw new AnalysisFailure(400, 'invalid_request', 'Invalid image quality scores', toValidationIssues(parsed.error));
+  }
+  return assessQuality(parsed.data);
+};
 
-Respond ONLY with a valid JSON object in this exact format:
-{
-  "hasVehicle": boolean,
-  "hasDamage": boolean,
-  "overallSeverity": "None" | "Minor" | "Moderate" | "Severe",
-  "confidenceScore": number (0-100),
-  "damages": [
-    {
-      "type": "string (dent/scratch/crack/broken/missing/rust/paint_damage)",
-      "location": "string (specific part like front bumper, left door, hood, etc.)",
-      "severity": "Minor" | "Moderate" | "Severe",
-      "description": "string"
-    }
-  ],
-  "affectedAreas": ["string"],
-  "estimatedRepairCost": {
-    "min": number,
-    "max": number,
-    "currency": "INR"
-  },
-  "recommendations": ["string"],
-  "summary": "string (2-3 sentence summary)"
-}
+const CAPTURE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}([+-]\d{2}:\d{2}|Z)?$/;
 
-If no vehicle is detected, respond with:
-{
-  "hasVehicle": false,
-  "hasDamage": false,
-  "overallSeverity": "None",
-  "confidenceScore": 95,
-  "damages": [],
-  "affectedAreas": [],
-  "estimatedRepairCost": { "min": 0, "max": 0, "currency": "INR" },
-  "recommendations": ["Please upload a clear image of a vehicle for damage analysis."],
-  "summary": "No vehicle detected in the image. Please upload a clear photo of a car, truck, or motorcycle."
-}
+/** Checks the photo's capture time as the app read it from EXIF; null when none was sent. */
+const parseCapturedAt = (capturedAt: unknown): string | null => {
+  if (capturedAt === undefined) return null;
+  if (typeof capturedAt !== 'string' || !CAPTURE_TIME_PATTERN.test(capturedAt) || Number.isNaN(Date.parse(capturedAt))) {
+    throw new AnalysisFailure(400, 'invalid_request', 'capturedAt must be an ISO 8601 date and time');
+  }
+  return capturedAt;
+};
 
-If vehicle is detected but has NO damage:
-{
-  "hasVehicle": true,
-  "hasDamage": false,
-  "overallSeverity": "None",
-  "confidenceScore": 90,
-  "damages": [],
-  "affectedAreas": [],
-  "estimatedRepairCost": { "min": 0, "max": 0, "currency": "INR" },
-  "recommendations": ["Vehicle appears to be in good condition.", "Regular maintenance recommended."],
-  "summary": "Vehicle analyzed. No visible damage detected. The vehicle appears to be in good condition."
-}
+/** Reads an uploaded original so the pipeline only ever sees data URLs. */
+const resolveImage = async (
+  input: ImageInput & MeasuredImage & Pick<BatchImage, 'timestamp' | 'viewpoint'>,
+  caller: Caller,
+  storage: ImageStorage | null,
+): Promise<ResolvedImage> => {
+  const quality = parseQuality(input.quality);
+  const details = {
+    quality,
+    capturedAt: parseCapturedAt(input.capturedAt),
+    timestamp: input.timestamp ?? null,
+    viewpoint: input.viewpoint ?? null,
+  };
+  if (input.imageBase64) return { imageBase64: input.imageBase64, imagePath: null, ...details };
 
-IMPORTANT: Always estimate repair costs in Indian Rupees (INR). Typical ranges:
-- Minor damage: ₹5,000 - ₹25,000
-- Moderate damage: ₹25,000 - ₹1,00,000
-- Severe damage: ₹1,00,000 - ₹5,00,000+`;
+  const path = input.imagePath as string;
+  if (!belongsToOrganization(path, caller.organizationId)) {
+    throw new AuthFailure(403, 'forbidden', 'Images can only be read from your organization\'s folder');
+  }
+  if (!storage) throw new Error('Image storage is not configured');
+  try {
+    return { imageBase64: await storage.read(path), imagePath: path, ...details };
+  } catch (error) {
+    if (error instanceof ImageNotFound) throw new AnalysisFailure(400, 'invalid_request', error.message);
+    throw error;
+  }
+};
 
-    // Step 1: Analyze the image for damage
-    const analysisResponse = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { 
-            role: 'user', 
-            content: [
-              {
-                type: 'text',
-                text: 'Analyze this image carefully. First check if it contains a vehicle. If yes, examine it for any visible damage. Be accurate and only report real damage you can see.'
-              },
-              {
-                type: 'image_url',
-                image_url: {
-                  url: imageBase64
-                }
-              }
-            ]
-          }
-        ],
-      }),
-    });
+/**
+ * For uploaded originals, stores the annotated image next to the original and
+ * answers with a signed URL instead of the full data URL. Best effort: the data
+ * URL is returned when storing fails.
+ */
+const withStoredAnnotation = async (
+  response: AnalyzeDamageResponse,
+  image: ResolvedImage,
+  storage: ImageStorage | null,
+): Promise<AnalyzeDamageResponse> => {
+  if (!storage || !image.imagePath || !response.annotatedImage) return response;
+  const path = annotatedPathFor(image.imagePath);
+  try {
+    await storage.write(path, response.annotatedImage);
+    return { ...response, annotatedImage: await storage.signedUrl(path), annotatedImagePath: path };
+  } catch (error) {
+    console.error('Failed to store annotated image:', error);
+    return response;
+  }
+};
 
-    if (!analysisResponse.ok) {
-      if (analysisResponse.status === 429) {
-        return new Response(
-          JSON.stringify({ error: 'Rate limit exceeded. Please try again later.' }),
-          { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-      if (analysisResponse.status === 402) {
-        return new Response(
-          JSON.stringify({ error: 'AI credits exhausted. Please add more credits.' }),
-          { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-      const errorText = await analysisResponse.text();
-      console.error('AI Gateway error:', analysisResponse.status, errorText);
-      throw new Error(`AI Gateway error: ${analysisResponse.status}`);
-    }
+/** Response fields pointing at the stored inspection and vehicle, when they were saved. */
+const savedIds = (saved: SavedInspection | null) => ({
+  ...(saved ? { inspectionId: saved.inspectionId } : {}),
+  ...(saved?.vehicleId ? { vehicleId: saved.vehicleId } : {}),
+});
 
-    const analysisData = await analysisResponse.json();
-    const aiResponse = analysisData.choices?.[0]?.message?.content;
-    
-    console.log('Analysis Response received:', aiResponse);
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
 
-    // Parse the JSON response from AI
-    let analysisResult;
+  try {
+    const caller = await authenticate(req);
+    let body: Partial<AnalyzeDamageRequest & AnalyzeDamageBatchRequest>;
     try {
-      let jsonStr = aiResponse;
-      const jsonMatch = aiResponse.match(/```(?:json)?\s*([\s\S]*?)```/);
-      if (jsonMatch) {
-        jsonStr = jsonMatch[1].trim();
-      }
-      analysisResult = JSON.parse(jsonStr);
-    } catch (parseError) {
-      console.error('Failed to parse AI response:', parseError);
-      analysisResult = {
-        hasVehicle: false,
-        hasDamage: false,
-        overallSeverity: "None",
-        confidenceScore: 0,
-        damages: [],
-        affectedAreas: [],
-        estimatedRepairCost: { min: 0, max: 0, currency: "USD" },
-        recommendations: ["Unable to analyze image. Please try with a clearer image."],
-        summary: "Could not process the image. Please upload a clear image."
-      };
+      body = await req.json();
+    } catch {
+      return errorResponse(400, 'invalid_request', 'Request body must be valid JSON');
+    }
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return errorResponse(400, 'invalid_request', 'Request body must be a JSON object');
     }
 
-    // Step 2: If damage is detected, generate annotated image with damage markers
-    let annotatedImage = null;
-    
-    if (analysisResult.hasVehicle && analysisResult.hasDamage && analysisResult.damages.length > 0) {
-      console.log('Step 2: Generating annotated image with damage markers...');
-      
-      // Create a detailed prompt for the image editing model
-      const damageDetails = analysisResult.damages.map((d: { type: string; location: string; severity: string }, i: number) => 
-        `${i + 1}. ${d.severity.toUpperCase()} ${d.type} on the ${d.location}`
-      ).join('\n');
-      
-      const annotationPrompt = `You are a professional vehicle damage annotator. Draw LARGE, BOLD, and CLEARLY VISIBLE markers on this vehicle image to highlight ALL damaged areas.
+    // Pricing: region picks the price table, currency (optional) converts it
+    const region = body.region ?? DEFAULT_REGION;
+    if (!isRegionCode(region)) {
+      return errorResponse(400, 'invalid_request', `Unknown region "${region}". Supported: ${REGIONS.map((r) => r.code).join(', ')}`);
+    }
+    const pricing = getPricingFromEnv();
+    const currency = typeof body.currency === 'string' ? body.currency.toUpperCase() : undefined;
+    if (currency && !isSupportedCurrency(currency, pricing.exchangeRates)) {
+      return errorResponse(400, 'invalid_request', `No exchange rate configured for currency "${body.currency}"`);
+    }
+    const rateTable = pricing.rateTableFor(region, currency);
 
-DAMAGE AREAS TO MARK (mark EACH one with a separate marker):
-${damageDetails}
+    if (body.vehicleRef !== undefined && typeof body.vehicleRef !== 'string') {
+      return errorResponse(400, 'invalid_request', 'vehicleRef must be a string');
+    }
+    const vehicleRef = body.vehicleRef?.trim() || null;
+    if (vehicleRef && vehicleRef.length > MAX_VEHICLE_REF_LENGTH) {
+      return errorResponse(400, 'invalid_request', `vehicleRef can be at most ${MAX_VEHICLE_REF_LENGTH} characters`);
+    }
+    let vehicle: VehicleDetails | null = null;
+    if (body.vehicle !== undefined) {
+      const parsed = vehicleDetailsSchema.safeParse(body.vehicle);
+      if (!parsed.success) {
+        return errorResponse(400, 'invalid_request', 'Invalid vehicle details', toValidationIssues(parsed.error));
+      }
+      vehicle = parsed.data as VehicleDetails;
+    } else if (vehicleRef) {
+      // A reference that is neither a VIN nor a usable plate is kept as text only
+      const parsed = vehicleDetailsSchema.safeParse(vehicleFromRef(vehicleRef));
+      vehicle = parsed.success ? (parsed.data as VehicleDetails) : null;
+    }
 
-MARKING INSTRUCTIONS:
-1. Draw a THICK BRIGHT RED circle or oval around EACH Severe damage area
-2. Draw a THICK BRIGHT ORANGE circle or oval around EACH Moderate damage area  
-3. Draw a THICK BRIGHT YELLOW circle or oval around EACH Minor damage area
-4. Add a NUMBER (1, 2, 3, etc.) next to each circle corresponding to the damage list
-5. Add a SHORT LABEL text near each marker (e.g., "HOOD DENT", "BUMPER CRACK")
-6. Make sure circles are LARGE enough to clearly encompass the damaged area
-7. Use THICK outlines (at least 5-10 pixels) so they are highly visible
-8. Ensure ALL ${analysisResult.damages.length} damage areas are marked - do not miss any
+    const provider = getProviderFromEnv();
+    const options = { provider, cache: getCacheStoreFromEnv(), rateTable, region, organizationId: caller.organizationId };
+    const context: RunContext = {
+      model: provider.model,
+      promptVersion: PROMPT_VERSION,
+      region,
+      currency: rateTable.currency,
+      exchangeRates: pricing.exchangeRates,
+      vehicleRef: vehicleRef ?? vehicle?.vin ?? vehicle?.plate ?? null,
+      vehicle,
+      organizationId: caller.organizationId,
+      userId: caller.userId,
+    };
+    const quota = getQuotaStoreFromEnv();
+    const storage = getImageStorageFromEnv();
 
-The goal is to make EVERY damage area immediately obvious at a glance. Be thorough and mark all areas listed above.`;
+    // Batch mode: { images: [{ id, imageBase64 | imagePath, quality?, capturedAt?, timestamp?, viewpoint? }], source }
+    if (Array.isArray(body.images)) {
+      const { images } = body;
+      if (images.length === 0) {
+        return errorResponse(400, 'invalid_request', 'No images provided');
+      }
+      if (images.length > MAX_BATCH_SIZE) {
+        return errorResponse(400, 'invalid_request', `A batch can contain at most ${MAX_BATCH_SIZE} images`);
+      }
+      if (images.some((image) => typeof image?.id !== 'string' || !isImageInput(image))) {
+        return errorResponse(400, 'invalid_request', 'Every batch item needs a string id and either imageBase64 or imagePath');
+      }
+      if (new Set(images.map((image) => image.id)).size !== images.length) {
+        return errorResponse(400, 'invalid_request', 'Batch item ids must be unique');
+      }
+      if (images.some(({ timestamp }) => timestamp !== undefined && !(Number.isFinite(timestamp) && timestamp >= 0))) {
+        return errorResponse(400, 'invalid_request', 'Batch item timestamps must be non-negative numbers of seconds');
+      }
+      if (images.some(({ viewpoint }) => viewpoint !== undefined && !isViewpoint(viewpoint))) {
+        return errorResponse(400, 'invalid_request', `Batch item viewpoints must be one of: ${VIEWPOINTS.join(', ')}`);
+      }
 
+      const source = body.source === 'video' ? 'video' : 'multi-image';
+      const resolved = await Promise.all(images.map((image) => resolveImage(image, caller, storage)));
+      const grant = quota ? await quota.consume(caller, images.length) : null;
+      let refunded = 0;
       try {
-        const imageEditResponse = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${LOVABLE_API_KEY}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            model: 'google/gemini-2.5-flash-image-preview',
-            messages: [
-              {
-                role: 'user',
-                content: [
-                  {
-                    type: 'text',
-                    text: annotationPrompt
-                  },
-                  {
-                    type: 'image_url',
-                    image_url: {
-                      url: imageBase64
-                    }
-                  }
-                ]
-              }
-            ],
-            modalities: ['image', 'text']
-          }),
-        });
-
-        if (imageEditResponse.ok) {
-          const imageEditData = await imageEditResponse.json();
-          console.log('Image edit response received');
-          
-          // Extract the annotated image
-          const editedImageUrl = imageEditData.choices?.[0]?.message?.images?.[0]?.image_url?.url;
-          if (editedImageUrl) {
-            annotatedImage = editedImageUrl;
-            console.log('Annotated image generated successfully');
-          }
-        } else {
-          console.error('Image annotation failed:', await imageEditResponse.text());
-        }
-      } catch (imageError) {
-        console.error('Error generating annotated image:', imageError);
-        // Continue without annotated image
+        const batchRun = await analyzeBatch(
+          { images: resolved.map(({ imageBase64 }, index) => ({ id: images[index].id, imageBase64 })), source },
+          options,
+        );
+        const failed = batchRun.response.items.filter((item) => item.status === 'error').length;
+        await refundCredits(quota, caller, grant, failed);
+        refunded = failed;
+        const saved = await saveInspection(() => batchInspection(resolved, source, batchRun, context));
+        const items = await Promise.all(batchRun.response.items.map(async (item, index) =>
+          item.status === 'ok' ? { ...item, result: await withStoredAnnotation(item.result, resolved[index], storage) } : item
+        ));
+        return jsonResponse({ ...batchRun.response, items, ...savedIds(saved) });
+      } catch (failure) {
+        // The caller gets no results at all, so none of the batch is charged
+        await refundCredits(quota, caller, grant, images.length - refunded);
+        throw failure;
       }
     }
 
-    return new Response(
-      JSON.stringify({
-        ...analysisResult,
-        annotatedImage
-      }),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+    if (!isImageInput(body)) {
+      return errorResponse(400, 'invalid_request', 'Provide either imageBase64 or imagePath');
+    }
+    const image = await resolveImage(body, caller, storage);
+
+    const grant = quota ? await quota.consume(caller, 1) : null;
+    let run: AnalysisRun;
+    try {
+      run = await analyzeImage(image.imageBase64, options);
+    } catch (failure) {
+      await refundCredits(quota, caller, grant, 1);
+      await saveInspection(() => singleImageInspection(image, { failure }, context));
+      throw failure;
+    }
+    const saved = await saveInspection(() => singleImageInspection(image, { run }, context));
+    const response = await withStoredAnnotation(run.response, image, storage);
+    return jsonResponse({ ...response, ...savedIds(saved) });
 
   } catch (error: unknown) {
+    if (error instanceof AuthFailure) {
+      return errorResponse(error.status, error.code, error.message);
+    }
+    if (error instanceof QuotaExceeded) {
+      const response = errorResponse(429, 'quota_exceeded', error.message, undefined, {
+        resetAt: error.resetAt,
+        limitedBy: error.limitedBy,
+      });
+      response.headers.set('Retry-After', String(retryAfterSeconds(error.resetAt)));
+      return response;
+    }
+    if (error instanceof AnalysisFailure) {
+      return errorResponse(error.status, error.code, error.message, error.issues);
+    }
     console.error('Error in analyze-damage function:', error);
     const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred';
-    return new Response(
-      JSON.stringify({ error: errorMessage }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+    return errorResponse(500, 'server_error', errorMessage);
   }
 });
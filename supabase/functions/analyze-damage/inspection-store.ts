@@ -0,0 +1,518 @@
+// Persists every analysis run as an inspection.
+// One row in `inspections` per request, one `inspection_media` row per image
+// (with the model, prompt version and raw model output) and one
+// `damage_findings` row per damage, so past inspections can be reopened and
+// queried without re-running the model. Inspections that name a vehicle are
+// linked to its `vehicles` row, which is created on first sight. Thumbnails
+// and previews go to the inspection image bucket; the rows keep their paths.
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import { AnalysisFailure, type AnalysisRun } from "./pipeline.ts";
+import { hashImage } from "./cache.ts";
+import type { BatchItemRun } from "./batch.ts";
+import { renderPreview, renderThumbnail } from "./thumbnails.ts";
+import { createSupabaseImageStorage, type ImageStorage } from "./image-storage.ts";
+import { inspectionMediaPath, type MediaVariant } from "../_shared/image-paths.ts";
+import type { ImageQuality } from "../_shared/image-quality.ts";
+import type { Viewpoint } from "../_shared/viewpoints.ts";
+import { convertAmount, type ExchangeRates } from "../_shared/currency.ts";
+import {
+  SCHEMA_VERSION,
+  type AnalyzeDamageBatchResponse,
+  type AnalyzeDamageErrorBody,
+  type BoundingBox,
+  type InspectionSource,
+  type InspectionStatus,
+  type OverallSeverity,
+  type PolygonPoint,
+  type RepairCostEstimate,
+  type Severity,
+  type VehicleDetails,
+} from "../_shared/contract.ts";
+import type { PartCode } from "../_shared/parts.ts";
+
+type StoredError = Omit<AnalyzeDamageErrorBody, "schemaVersion">;
+
+/** An image as the pipeline saw it, where the app uploaded it when it did, and how good the app measured it to be. */
+export interface ResolvedImage {
+  imageBase64: string;
+  imagePath: string | null;
+  quality: ImageQuality | null;
+  /** When the camera took the photo, from its EXIF data. */
+  capturedAt: string | null;
+  /** Seconds into the video, for frames. */
+  timestamp: number | null;
+  /** Angle of a guided walk-around shot. */
+  viewpoint: Viewpoint | null;
+}
+
+export interface MediaRecord {
+  position: number;
+  imageHash: string;
+  mimeType: string | null;
+  byteSize: number | null;
+  /** Storage path of the uploaded original; null when it was sent inline. */
+  originalPath: string | null;
+  /** Quality gate result; null when the app sent no measurements. */
+  quality: ImageQuality | null;
+  /** When the camera took the photo, from its EXIF data. */
+  capturedAt: string | null;
+  /** Seconds into the video, for frames. */
+  videoTimestamp: number | null;
+  viewpoint: Viewpoint | null;
+  /** JPEG data URL preview; null when the image could not be decoded. Uploaded on save. */
+  thumbnail: string | null;
+  /** Display-size JPEG data URLs of the original and the annotated image. Uploaded on save. */
+  preview: string | null;
+  annotatedPreview: string | null;
+  status: "ok" | "error";
+  model: string;
+  promptVersion: string;
+  cached: boolean;
+  rawOutput: string | null;
+  result: unknown;
+  error: StoredError | null;
+}
+
+export interface FindingRecord {
+  position: number;
+  /** Set when the finding comes from exactly one image. */
+  mediaPosition: number | null;
+  supportingPositions: number[];
+  type: string;
+  part: PartCode;
+  location: string;
+  severity: Severity;
+  description: string;
+  boundingBoxes: BoundingBox[];
+  polygons: PolygonPoint[][] | null;
+  estimatedRepairCost: RepairCostEstimate;
+}
+
+export interface InspectionRecord {
+  organizationId: string;
+  /** The signed-in user who ran the analysis. */
+  createdBy: string;
+  source: InspectionSource;
+  vehicleRef: string | null;
+  vehicle: VehicleDetails | null;
+  status: InspectionStatus;
+  region: string;
+  currency: string;
+  overallSeverity: OverallSeverity | null;
+  estimatedRepairCost: { min: number; max: number };
+  /** The upper estimate in USD, so inspections priced in different currencies sort together. */
+  estimatedCostMaxUsd: number;
+  result: unknown;
+  error: StoredError | null;
+  media: MediaRecord[];
+  findings: FindingRecord[];
+}
+
+export interface SavedInspection {
+  inspectionId: string;
+  /** Null when the inspection names no vehicle or the vehicle could not be stored. */
+  vehicleId: string | null;
+}
+
+export interface InspectionStore {
+  /** Returns null when the write failed (the analysis itself still succeeds). */
+  save(record: InspectionRecord): Promise<SavedInspection | null>;
+}
+
+/** Identifies the model configuration for runs that failed before producing an AnalysisRun. */
+export interface RunContext {
+  model: string;
+  promptVersion: string;
+  region: string;
+  currency: string;
+  /** Rates the estimate was priced with, for its USD equivalent. */
+  exchangeRates: ExchangeRates;
+  vehicleRef: string | null;
+  vehicle: VehicleDetails | null;
+  organizationId: string;
+  userId: string;
+}
+
+const describeInput = (imageDataUrl: string) => {
+  const match = imageDataUrl.match(/^data:([^;,]+)[^,]*,(.*)$/s);
+  if (!match) return { mimeType: null, byteSize: null };
+  const payload = match[2];
+  const padding = payload.endsWith('==') ? 2 : payload.endsWith('=') ? 1 : 0;
+  return { mimeType: match[1], byteSize: Math.floor((payload.length * 3) / 4) - padding };
+};
+
+const toStoredError = (failure: unknown): StoredError =>
+  failure instanceof AnalysisFailure
+    ? { error: failure.message, code: failure.code, ...(failure.issues ? { issues: failure.issues } : {}) }
+    : { error: failure instanceof Error ? failure.message : 'An unexpected error occurred', code: 'server_error' };
+
+/** Strips the rendered image; it can be re-rendered from the stored coordinates. */
+const withoutImages = <T extends { annotatedImage?: string | null }>({ annotatedImage: _annotatedImage, ...rest }: T) => rest;
+
+/** Renders a downscaled copy, or null when the image cannot be decoded. */
+const safeRender = async (render: (imageDataUrl: string) => Promise<string | null>, imageDataUrl: string | null | undefined) => {
+  if (!imageDataUrl) return null;
+  try {
+    return await render(imageDataUrl);
+  } catch (error) {
+    console.error('Preview rendering failed:', error);
+    return null;
+  }
+};
+
+const mediaFromRun = async (
+  position: number,
+  { imageBase64, imagePath, quality, capturedAt, timestamp, viewpoint }: ResolvedImage,
+  run: AnalysisRun,
+): Promise<MediaRecord> => ({
+  position,
+  imageHash: run.imageHash,
+  ...describeInput(imageBase64),
+  originalPath: imagePath,
+  quality,
+  capturedAt,
+  videoTimestamp: timestamp,
+  viewpoint,
+  thumbnail: await safeRender(renderThumbnail, imageBase64),
+  preview: await safeRender(renderPreview, imageBase64),
+  annotatedPreview: await safeRender(renderPreview, run.response.annotatedImage),
+  status: 'ok',
+  model: run.model,
+  promptVersion: run.promptVersion,
+  cached: run.response.cached === true,
+  rawOutput: run.rawOutput,
+  result: withoutImages(run.response),
+  error: null,
+});
+
+const mediaFromFailure = async (
+  position: number,
+  { imageBase64, imagePath, quality, capturedAt, timestamp, viewpoint }: ResolvedImage,
+  failure: unknown,
+  context: RunContext,
+): Promise<MediaRecord> => ({
+  position,
+  imageHash: await hashImage(imageBase64),
+  ...describeInput(imageBase64),
+  originalPath: imagePath,
+  quality,
+  capturedAt,
+  videoTimestamp: timestamp,
+  viewpoint,
+  thumbnail: await safeRender(renderThumbnail, imageBase64),
+  preview: await safeRender(renderPreview, imageBase64),
+  annotatedPreview: null,
+  status: 'error',
+  model: context.model,
+  promptVersion: context.promptVersion,
+  cached: false,
+  rawOutput: failure instanceof AnalysisFailure ? failure.rawOutput ?? null : null,
+  result: null,
+  error: toStoredError(failure),
+});
+
+const lineItemsFor = (estimate: RepairCostEstimate, damageIndex: number): RepairCostEstimate => {
+  const lineItems = (estimate.lineItems ?? []).filter((item) => item.damageIndex === damageIndex);
+  return {
+    min: lineItems.reduce((sum, item) => sum + item.min, 0),
+    max: lineItems.reduce((sum, item) => sum + item.max, 0),
+    currency: estimate.currency,
+    lineItems,
+  };
+};
+
+const inUsd = ({ max, currency }: RepairCostEstimate, rates: ExchangeRates) => convertAmount(max, currency, 'USD', rates);
+
+export const singleImageInspection = async (
+  image: ResolvedImage,
+  outcome: { run: AnalysisRun } | { failure: unknown },
+  context: RunContext,
+): Promise<InspectionRecord> => {
+  if ('failure' in outcome) {
+    return {
+      organizationId: context.organizationId,
+      createdBy: context.userId,
+      source: 'image',
+      vehicleRef: context.vehicleRef,
+      vehicle: context.vehicle,
+      status: 'failed',
+      region: context.region,
+      currency: context.currency,
+      overallSeverity: null,
+      estimatedRepairCost: { min: 0, max: 0 },
+      estimatedCostMaxUsd: 0,
+      result: null,
+      error: toStoredError(outcome.failure),
+      media: [await mediaFromFailure(0, image, outcome.failure, context)],
+      findings: [],
+    };
+  }
+
+  const { response } = outcome.run;
+  return {
+    organizationId: context.organizationId,
+    createdBy: context.userId,
+    source: 'image',
+    vehicleRef: context.vehicleRef,
+    vehicle: context.vehicle,
+    status: 'completed',
+    region: context.region,
+    currency: response.estimatedRepairCost.currency,
+    overallSeverity: response.overallSeverity,
+    estimatedRepairCost: response.estimatedRepairCost,
+    estimatedCostMaxUsd: inUsd(response.estimatedRepairCost, context.exchangeRates),
+    result: withoutImages(response),
+    error: null,
+    media: [await mediaFromRun(0, image, outcome.run)],
+    findings: response.damages.map((damage, index) => ({
+      position: index,
+      mediaPosition: 0,
+      supportingPositions: [0],
+      type: damage.type,
+      part: damage.part,
+      location: damage.location,
+      severity: damage.severity,
+      description: damage.description,
+      boundingBoxes: damage.boundingBoxes,
+      polygons: damage.polygons ?? null,
+      estimatedRepairCost: lineItemsFor(response.estimatedRepairCost, index),
+    })),
+  };
+};
+
+export const batchInspection = async (
+  images: ResolvedImage[],
+  source: InspectionSource,
+  { response, itemRuns }: { response: AnalyzeDamageBatchResponse; itemRuns: BatchItemRun[] },
+  context: RunContext,
+): Promise<InspectionRecord> => {
+  const media = await Promise.all(itemRuns.map(({ run, failure }, position) =>
+    run
+      ? mediaFromRun(position, images[position], run)
+      : mediaFromFailure(position, images[position], failure, context)
+  ));
+  const failed = media.filter((item) => item.status === 'error').length;
+  const { combined } = response;
+
+  return {
+    organizationId: context.organizationId,
+    createdBy: context.userId,
+    source,
+    vehicleRef: context.vehicleRef,
+    vehicle: context.vehicle,
+    status: failed === 0 ? 'completed' : failed === media.length ? 'failed' : 'partial',
+    region: context.region,
+    currency: combined?.estimatedRepairCost.currency ?? context.currency,
+    overallSeverity: combined?.overallSeverity ?? null,
+    estimatedRepairCost: combined?.estimatedRepairCost ?? { min: 0, max: 0 },
+    estimatedCostMaxUsd: combined ? inUsd(combined.estimatedRepairCost, context.exchangeRates) : 0,
+    result: combined,
+    error: combined ? null : media[0]?.error ?? null,
+    media,
+    findings: (combined?.distinctDamages ?? []).map((damage, index) => {
+      const singleSource = damage.supportingFrames.length === 1;
+      return {
+        position: index,
+        mediaPosition: singleSource ? damage.supportingFrames[0] : null,
+        supportingPositions: damage.supportingFrames,
+        type: damage.type,
+        part: damage.part,
+        location: damage.location,
+        severity: damage.severity,
+        description: damage.description,
+        boundingBoxes: singleSource ? damage.occurrences.flatMap((occurrence) => occurrence.boundingBoxes) : [],
+        polygons: null,
+        estimatedRepairCost: damage.estimatedRepairCost,
+      };
+    }),
+  };
+};
+
+/** Only the details that were given, as column values; an update never clears a known field. */
+const vehicleColumns = ({ vin, plate, make, model, year, color }: VehicleDetails) =>
+  Object.fromEntries(Object.entries({ vin, plate, make, model, year, color }).filter(([, value]) => value !== undefined));
+
+/**
+ * Finds the organization's vehicle by VIN, else by plate, and fills in any new details;
+ * creates it when neither matches. When a VIN is given, its plate only matches vehicles
+ * with no VIN yet.
+ */
+const findOrCreateVehicle = async (
+  client: SupabaseClient,
+  organizationId: string,
+  vehicle: VehicleDetails,
+): Promise<string | null> => {
+  const vehicles = () => client.from('vehicles').select('id').eq('organization_id', organizationId);
+  const byVin = vehicle.vin
+    ? await vehicles().eq('vin', vehicle.vin).maybeSingle()
+    : { data: null, error: null };
+  const plateQuery = () => {
+    const query = vehicles().eq('plate', vehicle.plate);
+    return (vehicle.vin ? query.is('vin', null) : query).order('updated_at', { ascending: false }).limit(1).maybeSingle();
+  };
+  const byPlate = !byVin.data && vehicle.plate ? await plateQuery() : { data: null, error: null };
+  const lookupError = byVin.error ?? byPlate.error;
+  if (lookupError) {
+    console.error('Vehicle lookup failed:', lookupError.message);
+    return null;
+  }
+
+  const existing = byVin.data ?? byPlate.data;
+  if (existing) {
+    const { error } = await client
+      .from('vehicles')
+      .update({ ...vehicleColumns(vehicle), updated_at: new Date().toISOString() })
+      .eq('id', existing.id);
+    if (error) console.error('Vehicle update failed:', error.message);
+    return existing.id as string;
+  }
+
+  const { data: created, error } = await client
+    .from('vehicles')
+    .insert({ ...vehicleColumns(vehicle), organization_id: organizationId })
+    .select('id')
+    .single();
+  if (error || !created) {
+    console.error('Vehicle write failed:', error?.message);
+    return null;
+  }
+  return created.id as string;
+};
+
+/** Uploads one rendered copy and returns its path, or null when there is nothing to store or the upload failed. */
+const storeRendition = async (
+  storage: ImageStorage,
+  record: InspectionRecord,
+  inspectionId: string,
+  media: MediaRecord,
+  variant: MediaVariant,
+  imageDataUrl: string | null,
+): Promise<string | null> => {
+  if (!imageDataUrl) return null;
+  const path = inspectionMediaPath(record.organizationId, inspectionId, media.position, variant);
+  try {
+    await storage.write(path, imageDataUrl);
+    return path;
+  } catch (error) {
+    console.error(`Storing the ${variant} of image ${media.position} failed:`, error);
+    return null;
+  }
+};
+
+/** Store backed by the inspection tables and image bucket; needs the service role key. */
+export const createPostgresInspectionStore = (client: SupabaseClient, storage: ImageStorage): InspectionStore => ({
+  async save(record) {
+    const vehicleId = record.vehicle ? await findOrCreateVehicle(client, record.organizationId, record.vehicle) : null;
+
+    const { data: inspection, error: inspectionError } = await client
+      .from('inspections')
+      .insert({
+        organization_id: record.organizationId,
+        created_by: record.createdBy,
+        source: record.source,
+        vehicle_ref: record.vehicleRef,
+        vehicle_id: vehicleId,
+        status: record.status,
+        schema_version: SCHEMA_VERSION,
+        region: record.region,
+        currency: record.currency,
+        overall_severity: record.overallSeverity,
+        damage_count: record.findings.length,
+        estimated_cost_min: record.estimatedRepairCost.min,
+        estimated_cost_max: record.estimatedRepairCost.max,
+        estimated_cost_max_usd: record.estimatedCostMaxUsd,
+        result: record.result,
+        error: record.error,
+      })
+      .select('id')
+      .single();
+
+    if (inspectionError || !inspection) {
+      console.error('Inspection write failed:', inspectionError?.message);
+      return null;
+    }
+
+    const paths = await Promise.all(record.media.map(async (media) => ({
+      thumbnail: await storeRendition(storage, record, inspection.id, media, 'thumbnail', media.thumbnail),
+      preview: await storeRendition(storage, record, inspection.id, media, 'preview', media.preview),
+      annotated: await storeRendition(storage, record, inspection.id, media, 'annotated', media.annotatedPreview),
+    })));
+
+    const { data: mediaRows, error: mediaError } = await client
+      .from('inspection_media')
+      .insert(record.media.map((media, index) => ({
+        inspection_id: inspection.id,
+        position: media.position,
+        image_hash: media.imageHash,
+        mime_type: media.mimeType,
+        byte_size: media.byteSize,
+        original_path: media.originalPath,
+        quality: media.quality,
+        captured_at: media.capturedAt,
+        video_timestamp: media.videoTimestamp,
+        viewpoint: media.viewpoint,
+        thumbnail_path: paths[index].thumbnail,
+        preview_path: paths[index].preview,
+        annotated_path: paths[index].annotated,
+        status: media.status,
+        model: media.model,
+        prompt_version: media.promptVersion,
+        cached: media.cached,
+        raw_output: media.rawOutput,
+        result: media.result,
+        error: media.error,
+      })))
+      .select('id, position');
+
+    const mediaIds = new Map((mediaRows ?? []).map((row) => [row.position as number, row.id as string]));
+    const { error: findingsError } = mediaError || record.findings.length === 0
+      ? { error: mediaError }
+      : await client.from('damage_findings').insert(record.findings.map((finding) => ({
+        inspection_id: inspection.id,
+        media_id: finding.mediaPosition === null ? null : mediaIds.get(finding.mediaPosition) ?? null,
+        position: finding.position,
+        type: finding.type,
+        part: finding.part,
+        location: finding.location,
+        severity: finding.severity,
+        description: finding.description,
+        bounding_boxes: finding.boundingBoxes,
+        polygons: finding.polygons,
+        supporting_positions: finding.supportingPositions,
+        cost_min: finding.estimatedRepairCost.min,
+        cost_max: finding.estimatedRepairCost.max,
+        currency: finding.estimatedRepairCost.currency,
+        line_items: finding.estimatedRepairCost.lineItems ?? [],
+      })));
+
+    if (findingsError) {
+      // Do not leave a half-written inspection behind; media and findings cascade
+      console.error('Inspection details write failed:', findingsError.message);
+      await client.from('inspections').delete().eq('id', inspection.id);
+      const uploaded = paths.flatMap(({ thumbnail, preview, annotated }) => [thumbnail, preview, annotated])
+        .filter((path): path is string => path !== null);
+      try {
+        await storage.remove(uploaded);
+      } catch (error) {
+        console.error('Removing the inspection\'s stored images failed:', error);
+      }
+      return null;
+    }
+    return { inspectionId: inspection.id as string, vehicleId };
+  },
+});
+
+/**
+ * Select the inspection store from INSPECTION_STORE: "postgres" (default) or "off".
+ * Returns null (nothing is persisted) when the service role credentials are missing.
+ */
+export const getInspectionStoreFromEnv = (): InspectionStore | null => {
+  if ((Deno.env.get('INSPECTION_STORE') ?? 'postgres') === 'off') return null;
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!supabaseUrl || !serviceRoleKey) return null;
+
+  const client = createClient(supabaseUrl, serviceRoleKey, { auth: { persistSession: false } });
+  return createPostgresInspectionStore(client, createSupabaseImageStorage(client));
+};
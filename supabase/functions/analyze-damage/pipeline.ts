@@ -0,0 +1,164 @@
+// Single-image analysis pipeline: cache lookup, model call, validation, cost
+// estimation and annotation rendering. Throws AnalysisFailure for anything the client should
+// see as a typed error; the HTTP layer only maps it to a response.
+import { ProviderError, type AIProvider } from "./providers.ts";
+import { hashImage, type ResultCacheStore } from "./cache.ts";
+import { renderAnnotatedImage } from "./annotation-renderer.ts";
+import { PROMPT_VERSION, SYSTEM_PROMPT, USER_PROMPT } from "./prompts.ts";
+import { parseModelOutput } from "../_shared/analysis-schema.ts";
+import { estimateRepairCost } from "../_shared/cost-estimator.ts";
+import type { RateTable } from "../_shared/repair-rates.ts";
+import type { RegionCode } from "../_shared/regions.ts";
+import {
+  SCHEMA_VERSION,
+  type AnalysisResult,
+  type AnalyzeDamageErrorCode,
+  type AnalyzeDamageResponse,
+  type ValidationIssue,
+} from "../_shared/contract.ts";
+
+export class AnalysisFailure extends Error {
+  readonly status: number;
+  readonly code: AnalyzeDamageErrorCode;
+  readonly issues?: ValidationIssue[];
+  /** The model's reply when it failed validation, kept for the inspection record. */
+  readonly rawOutput?: string;
+
+  constructor(
+    status: number,
+    code: AnalyzeDamageErrorCode,
+    message: string,
+    issues?: ValidationIssue[],
+    rawOutput?: string,
+  ) {
+    super(message);
+    this.name = "AnalysisFailure";
+    this.status = status;
+    this.code = code;
+    this.issues = issues;
+    this.rawOutput = rawOutput;
+  }
+}
+
+/** What one image run produced, beyond the response: enough to persist it as inspection media. */
+export interface AnalysisRun {
+  response: AnalyzeDamageResponse;
+  imageHash: string;
+  model: string;
+  promptVersion: string;
+  /** Null when the result came from the cache. */
+  rawOutput: string | null;
+}
+
+export interface PipelineOptions {
+  provider: AIProvider;
+  cache: ResultCacheStore | null;
+  /** Already resolved for the request's region and currency. */
+  rateTable: RateTable;
+  region: RegionCode;
+  /** Scopes cached results to the caller's organization. */
+  organizationId: string;
+}
+
+const detectDamage = async (
+  imageBase64: string,
+  provider: AIProvider,
+): Promise<{ result: AnalysisResult; rawOutput: string }> => {
+  console.log(`Step 1: Analyzing vehicle damage with ${provider.name} (${provider.model})...`);
+
+  let aiResponse: string;
+  try {
+    aiResponse = await provider.analyze({
+      systemPrompt: SYSTEM_PROMPT,
+      userPrompt: USER_PROMPT,
+      imageUrl: imageBase64,
+    });
+  } catch (providerError) {
+    if (providerError instanceof ProviderError && providerError.status === 429) {
+      throw new AnalysisFailure(429, 'rate_limited', 'Rate limit exceeded. Please try again later.');
+    }
+    if (providerError instanceof ProviderError && providerError.status === 402) {
+      throw new AnalysisFailure(402, 'credits_exhausted', 'AI credits exhausted. Please add more credits.');
+    }
+    throw providerError;
+  }
+
+  // Only the size: the reply describes the customer's vehicle and can quote its plate or VIN
+  console.log(`Analysis response received (${aiResponse.length} characters)`);
+
+  // Validate the model output against the shared contract, coercing near-misses
+  const parsed = parseModelOutput(aiResponse);
+  if (!parsed.success) {
+    console.error('Model output failed validation:', parsed.issues);
+    throw new AnalysisFailure(
+      422,
+      'validation_failed',
+      'The AI returned an invalid analysis. Please try again.',
+      parsed.issues,
+      aiResponse,
+    );
+  }
+  return { result: parsed.data, rawOutput: aiResponse };
+};
+
+export const analyzeImage = async (
+  imageBase64: string,
+  { provider, cache, rateTable, region, organizationId }: PipelineOptions,
+): Promise<AnalysisRun> => {
+  const cacheKey = {
+    organizationId,
+    imageHash: await hashImage(imageBase64),
+    promptVersion: PROMPT_VERSION,
+    model: provider.model,
+  };
+
+  const cachedResult = cache ? await cache.get(cacheKey) : null;
+  if (cachedResult) {
+    console.log(`Cache hit for image ${cacheKey.imageHash}`);
+  }
+
+  let analysisResult = cachedResult;
+  let rawOutput: string | null = null;
+  if (!analysisResult) {
+    const detection = await detectDamage(imageBase64, provider);
+    analysisResult = detection.result;
+    rawOutput = detection.rawOutput;
+    if (cache) {
+      await cache.set(cacheKey, analysisResult);
+    }
+  }
+
+  // Priced after the cache so rate table changes apply without another model call
+  const estimatedRepairCost = estimateRepairCost(analysisResult.damages, rateTable);
+
+  // Step 2: Render severity-colored markers onto the original pixels from the damage coordinates
+  let annotatedImage: string | null = null;
+
+  if (analysisResult.hasVehicle && analysisResult.hasDamage && analysisResult.damages.length > 0) {
+    console.log('Step 2: Rendering annotated image with damage markers...');
+    try {
+      annotatedImage = await renderAnnotatedImage(imageBase64, analysisResult.damages);
+      if (annotatedImage) {
+        console.log('Annotated image rendered successfully');
+      }
+    } catch (imageError) {
+      console.error('Error rendering annotated image:', imageError);
+      // Continue without annotated image
+    }
+  }
+
+  return {
+    response: {
+      schemaVersion: SCHEMA_VERSION,
+      ...analysisResult,
+      estimatedRepairCost,
+      annotatedImage,
+      cached: cachedResult !== null,
+      region,
+    },
+    imageHash: cacheKey.imageHash,
+    model: provider.model,
+    promptVersion: PROMPT_VERSION,
+    rawOutput,
+  };
+};
@@ -0,0 +1,155 @@
+// AI provider abstraction for analyze-damage.
+// The handler only talks to an AIProvider; which one is used is decided by
+// environment config so the pipeline can run against the Lovable gateway, any
+// OpenAI-compatible endpoint, or fully offline with the mock provider.
+
+export interface AnalyzeRequest {
+  systemPrompt: string;
+  userPrompt: string;
+  imageUrl: string;
+}
+
+export interface AIProvider {
+  name: string;
+  model: string;
+  /** Returns the raw text content of the model's reply. */
+  analyze(request: AnalyzeRequest): Promise<string>;
+}
+
+/**
+ * Upstream failure with the HTTP status the provider answered with,
+ * so the handler can surface 402/429 to the client unchanged.
+ */
+export class ProviderError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "ProviderError";
+    this.status = status;
+  }
+}
+
+interface OpenAICompatibleConfig {
+  name: string;
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+}
+
+export const createOpenAICompatibleProvider = (config: OpenAICompatibleConfig): AIProvider => {
+  const chatCompletion = (body: Record<string, unknown>) =>
+    fetch(`${config.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${config.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+
+  return {
+    name: config.name,
+    model: config.model,
+
+    async analyze({ systemPrompt, userPrompt, imageUrl }) {
+      const response = await chatCompletion({
+        model: config.model,
+        messages: [
+          { role: 'system', content: systemPrompt },
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: userPrompt },
+              { type: 'image_url', image_url: { url: imageUrl } },
+            ],
+          },
+        ],
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error(`${config.name} error:`, response.status, errorText);
+        throw new ProviderError(`${config.name} error: ${response.status}`, response.status);
+      }
+
+      const data = await response.json();
+      return data.choices?.[0]?.message?.content ?? '';
+    },
+  };
+};
+
+const MOCK_RESPONSE = {
+  hasVehicle: true,
+  hasDamage: true,
+  overallSeverity: "Moderate",
+  confidenceScore: 90,
+  damages: [
+    {
+      type: "dent",
+      part: "front_bumper",
+      location: "front bumper",
+      severity: "Moderate",
+      description: "Mock provider: dent with minor deformation on the front bumper.",
+      boundingBoxes: [{ x: 0.32, y: 0.58, width: 0.22, height: 0.16 }],
+    },
+    {
+      type: "scratch",
+      part: "left_fender",
+      location: "left fender",
+      severity: "Minor",
+      description: "Mock provider: surface scratches on the left fender.",
+      boundingBoxes: [{ x: 0.08, y: 0.42, width: 0.18, height: 0.12 }],
+    },
+  ],
+  affectedAreas: ["front bumper", "left fender"],
+  recommendations: ["Mock provider result - no AI model was called."],
+  summary: "Mock provider: moderate damage detected on the front bumper and left fender.",
+};
+
+/** Deterministic provider for CI and air-gapped machines; never touches the network. */
+export const createMockProvider = (): AIProvider => ({
+  name: 'mock',
+  model: 'mock/static-v1',
+  analyze: () => Promise.resolve(JSON.stringify(MOCK_RESPONSE)),
+});
+
+const requireEnv = (key: string): string => {
+  const value = Deno.env.get(key);
+  if (!value) {
+    throw new Error(`${key} is not configured`);
+  }
+  return value;
+};
+
+/**
+ * Select the provider from environment config:
+ * - AI_PROVIDER: "lovable" (default), "openai" or "mock"
+ * - AI_MODEL: overrides the analysis model
+ * - LOVABLE_API_KEY: required for "lovable"
+ * - OPENAI_BASE_URL / OPENAI_API_KEY: required for "openai"
+ */
+export const getProviderFromEnv = (): AIProvider => {
+  const providerName = Deno.env.get('AI_PROVIDER') ?? 'lovable';
+
+  switch (providerName) {
+    case 'lovable':
+      return createOpenAICompatibleProvider({
+        name: 'Lovable AI Gateway',
+        baseUrl: 'https://ai.gateway.lovable.dev/v1',
+        apiKey: requireEnv('LOVABLE_API_KEY'),
+        model: Deno.env.get('AI_MODEL') ?? 'google/gemini-2.5-flash',
+      });
+    case 'openai':
+      return createOpenAICompatibleProvider({
+        name: 'OpenAI-compatible endpoint',
+        baseUrl: requireEnv('OPENAI_BASE_URL'),
+        apiKey: requireEnv('OPENAI_API_KEY'),
+        model: Deno.env.get('AI_MODEL') ?? 'gpt-4o-mini',
+      });
+    case 'mock':
+      return createMockProvider();
+    default:
+      throw new Error(`Unknown AI_PROVIDER "${providerName}"`);
+  }
+};
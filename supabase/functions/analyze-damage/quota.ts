@@ -0,0 +1,94 @@
+// Per-user request rate and per-organization monthly credits.
+// Counters live in Postgres (see the add_usage_quotas migration) so every
+// function instance sees the same totals. One credit is one image.
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import type { QuotaLimit } from "../_shared/contract.ts";
+import type { Caller } from "./auth.ts";
+
+const DEFAULT_REQUESTS_PER_MINUTE = 10;
+
+/** Credits reserved for one request; `period` is the month they were counted in. */
+export interface QuotaGrant {
+  period: string;
+  credits: number;
+}
+
+export class QuotaExceeded extends Error {
+  constructor(
+    readonly limitedBy: QuotaLimit,
+    /** ISO timestamp after which the request can be retried. */
+    readonly resetAt: string,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'QuotaExceeded';
+  }
+}
+
+export interface QuotaStore {
+  /** Counts a request and reserves `credits`, or throws QuotaExceeded. */
+  consume(caller: Caller, credits: number): Promise<QuotaGrant>;
+  /** Gives back credits for images that could not be analyzed. */
+  refund(caller: Caller, grant: QuotaGrant, credits: number): Promise<void>;
+}
+
+interface ConsumeRow {
+  allowed: boolean;
+  limited_by: QuotaLimit | null;
+  reset_at: string | null;
+  period: string;
+  used: number | null;
+  quota: number | null;
+}
+
+const exceededMessage = (row: ConsumeRow, credits: number) =>
+  row.limited_by === 'user'
+    ? 'Too many analysis requests. Please wait a minute and try again.'
+    : `Your organization has used ${row.used} of its ${row.quota} analysis credits this month` +
+      (credits > 1 ? ` and this request needs ${credits}.` : '.');
+
+export const createPostgresQuotaStore = (client: SupabaseClient, requestsPerMinute: number): QuotaStore => ({
+  async consume(caller, credits) {
+    const { data, error } = await client.rpc('consume_analysis_quota', {
+      member_id: caller.userId,
+      org_id: caller.organizationId,
+      credits,
+      requests_per_minute: requestsPerMinute,
+    });
+    if (error) throw new Error(`Quota check failed: ${error.message}`);
+
+    const row = (data as ConsumeRow[] | null)?.[0];
+    if (!row) throw new Error('Quota check returned no result');
+    if (!row.allowed) {
+      throw new QuotaExceeded(row.limited_by ?? 'organization', row.reset_at ?? new Date().toISOString(), exceededMessage(row, credits));
+    }
+    return { period: row.period, credits };
+  },
+
+  async refund(caller, grant, credits) {
+    if (credits <= 0) return;
+    const { error } = await client.rpc('refund_analysis_credits', {
+      member_id: caller.userId,
+      org_id: caller.organizationId,
+      period: grant.period,
+      credits: Math.min(credits, grant.credits),
+    });
+    if (error) throw new Error(`Credit refund failed: ${error.message}`);
+  },
+});
+
+/**
+ * Quotas are on unless QUOTAS=off. RATE_LIMIT_PER_MINUTE overrides the
+ * per-user request rate; monthly credits are set per organization in the database.
+ */
+export const getQuotaStoreFromEnv = (): QuotaStore | null => {
+  if ((Deno.env.get('QUOTAS') ?? 'on') === 'off') return null;
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!supabaseUrl || !serviceRoleKey) return null;
+
+  const configured = Number(Deno.env.get('RATE_LIMIT_PER_MINUTE'));
+  const requestsPerMinute = Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_REQUESTS_PER_MINUTE;
+  return createPostgresQuotaStore(createClient(supabaseUrl, serviceRoleKey, { auth: { persistSession: false } }), requestsPerMinute);
+};
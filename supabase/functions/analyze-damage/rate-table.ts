@@ -0,0 +1,68 @@
+// Loads the pricing configuration for this deployment.
+// REPAIR_RATE_TABLE holds JSON overrides per region code, in that region's
+// currency (an override cannot set another one), merged onto the built-in
+// regional tables, e.g.
+//   {"IN": {"laborRatePerHour": 1500}, "US": {"panels": {"door": {"partPrice": {"min": 450, "max": 1100}}}}}
+// EXCHANGE_RATES holds units per 1 USD merged onto the defaults, e.g. {"INR": 84.1}.
+import { z } from "zod";
+import { DEFAULT_EXCHANGE_RATES, type ExchangeRates } from "../_shared/currency.ts";
+import { REGIONS, buildRegionalRateTable, isRegionCode, resolveRateTable, type RegionCode } from "../_shared/regions.ts";
+import { mergeRateTable, rateTableOverrideSchema, type RateTable } from "../_shared/repair-rates.ts";
+
+export interface PricingConfig {
+  exchangeRates: ExchangeRates;
+  /** Rate table for a request's region, in the requested currency when one is given. */
+  rateTableFor(region: RegionCode, currency?: string): RateTable;
+}
+
+const overridesSchema = z
+  .record(z.string(), rateTableOverrideSchema)
+  .refine((value) => Object.keys(value).every(isRegionCode), 'keys must be region codes');
+
+const exchangeRatesSchema = z.record(z.string().length(3), z.number().positive());
+
+/** Parses a JSON env var with `schema`, logging and returning null when it is missing or invalid. */
+const readJsonEnv = <T>(name: string, schema: z.ZodType<T>): T | null => {
+  const source = Deno.env.get(name);
+  if (!source) return null;
+  try {
+    const parsed = schema.safeParse(JSON.parse(source));
+    if (parsed.success) return parsed.data;
+    console.error(`Invalid ${name}, using defaults:`, parsed.error.issues);
+  } catch (error) {
+    console.error(`${name} is not valid JSON, using defaults:`, error);
+  }
+  return null;
+};
+
+let configured: { key: string; config: PricingConfig } | null = null;
+
+/** Falls back to the built-in tables (and logs why) when an env var is not valid JSON or fails validation. */
+export const getPricingFromEnv = (): PricingConfig => {
+  const key = `${Deno.env.get('REPAIR_RATE_TABLE') ?? ''}|${Deno.env.get('EXCHANGE_RATES') ?? ''}`;
+  if (configured && configured.key === key) return configured.config;
+
+  const overrides = readJsonEnv('REPAIR_RATE_TABLE', overridesSchema) ?? {};
+  const exchangeRates = {
+    ...DEFAULT_EXCHANGE_RATES,
+    ...Object.fromEntries(
+      Object.entries(readJsonEnv('EXCHANGE_RATES', exchangeRatesSchema) ?? {}).map(([code, rate]) => [code.toUpperCase(), rate]),
+    ),
+  };
+
+  const regionalTables = new Map<RegionCode, RateTable>(
+    REGIONS.map(({ code }) => {
+      const table = buildRegionalRateTable(code, exchangeRates);
+      const override = overrides[code];
+      return [code, override ? mergeRateTable(table, override) : table];
+    }),
+  );
+
+  const config: PricingConfig = {
+    exchangeRates,
+    rateTableFor: (region, currency) =>
+      resolveRateTable(region, currency, exchangeRates, regionalTables.get(region)),
+  };
+  configured = { key, config };
+  return config;
+};
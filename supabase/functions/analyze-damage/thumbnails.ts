@@ -0,0 +1,38 @@
+// Downscaled JPEG copies stored with each inspection image: a small thumbnail
+// so history lists can show the vehicle without loading the full upload, and a
+// display-size preview (original and annotated) for reopening an inspection.
+import { decode, Image } from "imagescript";
+import { decode as decodeBase64, encode as encodeBase64 } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+
+/** Longest edge of a thumbnail in pixels. */
+export const THUMBNAIL_MAX_DIMENSION = 240;
+
+/** Longest edge of a stored preview in pixels. */
+export const PREVIEW_MAX_DIMENSION = 1280;
+
+const THUMBNAIL_JPEG_QUALITY = 70;
+const PREVIEW_JPEG_QUALITY = 80;
+
+const DATA_URL_PATTERN = /^data:image\/[\w.+-]+;base64,(.+)$/;
+
+/** Returns a JPEG data URL no larger than `maxDimension`, or null when the input is not a decodable base64 image. */
+const renderJpeg = async (imageDataUrl: string, maxDimension: number, quality: number): Promise<string | null> => {
+  const match = imageDataUrl.match(DATA_URL_PATTERN);
+  if (!match) return null;
+
+  const decoded = await decode(decodeBase64(match[1]));
+  if (!(decoded instanceof Image)) return null;
+
+  const resized = decoded.width >= decoded.height
+    ? decoded.resize(Math.min(maxDimension, decoded.width), Image.RESIZE_AUTO)
+    : decoded.resize(Image.RESIZE_AUTO, Math.min(maxDimension, decoded.height));
+
+  const jpeg = await resized.encodeJPEG(quality);
+  return `data:image/jpeg;base64,${encodeBase64(jpeg)}`;
+};
+
+export const renderThumbnail = (imageDataUrl: string) =>
+  renderJpeg(imageDataUrl, THUMBNAIL_MAX_DIMENSION, THUMBNAIL_JPEG_QUALITY);
+
+export const renderPreview = (imageDataUrl: string) =>
+  renderJpeg(imageDataUrl, PREVIEW_MAX_DIMENSION, PREVIEW_JPEG_QUALITY);
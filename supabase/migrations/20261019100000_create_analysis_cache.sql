@@ -0,0 +1,14 @@
+-- Content-hash cache for analyze-damage results.
+-- Rows are written and read only by the edge function with the service role key.
+create table public.analysis_cache (
+  image_hash text not null,
+  prompt_version text not null,
+  model text not null,
+  result jsonb not null,
+  created_at timestamptz not null default now(),
+  primary key (image_hash, prompt_version, model)
+);
+
+alter table public.analysis_cache enable row level security;
+
+create index analysis_cache_created_at_idx on public.analysis_cache (created_at);
@@ -0,0 +1,78 @@
+-- Persisted inspections: one row per analyze-damage request, one media row per
+-- analyzed image or video frame, one finding per reported (or, for multi-image
+-- inspections, per distinct) damage.
+-- Rows are written by the edge function with the service role key.
+create table public.inspections (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  source text not null check (source in ('image', 'multi-image', 'video')),
+  status text not null check (status in ('completed', 'partial', 'failed')),
+  schema_version text not null,
+  region text not null,
+  currency text not null,
+  overall_severity text check (overall_severity in ('None', 'Minor', 'Moderate', 'Severe')),
+  damage_count integer not null default 0,
+  estimated_cost_min numeric not null default 0,
+  estimated_cost_max numeric not null default 0,
+  -- Normalized result: the single-image response or the combined multi-image result, without images
+  result jsonb,
+  -- Error body when the whole inspection failed
+  error jsonb
+);
+
+create index inspections_created_at_idx on public.inspections (created_at desc);
+
+create table public.inspection_media (
+  id uuid primary key default gen_random_uuid(),
+  inspection_id uuid not null references public.inspections (id) on delete cascade,
+  position integer not null,
+  image_hash text not null,
+  mime_type text,
+  byte_size integer,
+  status text not null check (status in ('ok', 'error')),
+  model text not null,
+  prompt_version text not null,
+  cached boolean not null default false,
+  -- Model reply as received; null when the result came from the cache
+  raw_output text,
+  result jsonb,
+  error jsonb,
+  created_at timestamptz not null default now(),
+  unique (inspection_id, position)
+);
+
+create table public.damage_findings (
+  id uuid primary key default gen_random_uuid(),
+  inspection_id uuid not null references public.inspections (id) on delete cascade,
+  -- The image the finding was reported on; null when it was merged across several
+  media_id uuid references public.inspection_media (id) on delete cascade,
+  position integer not null,
+  type text not null,
+  part text not null,
+  location text not null,
+  severity text not null check (severity in ('Minor', 'Moderate', 'Severe')),
+  description text not null default '',
+  bounding_boxes jsonb not null default '[]'::jsonb,
+  polygons jsonb,
+  -- Media positions that show this damage
+  supporting_positions integer[] not null default '{}',
+  cost_min numeric not null default 0,
+  cost_max numeric not null default 0,
+  currency text not null,
+  line_items jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now(),
+  unique (inspection_id, position)
+);
+
+create index inspection_media_inspection_id_idx on public.inspection_media (inspection_id);
+create index damage_findings_inspection_id_idx on public.damage_findings (inspection_id);
+create index damage_findings_part_idx on public.damage_findings (part);
+
+alter table public.inspections enable row level security;
+alter table public.inspection_media enable row level security;
+alter table public.damage_findings enable row level security;
+
+-- Read-only access for the app until inspections are scoped to signed-in users
+create policy "Inspections are readable" on public.inspections for select using (true);
+create policy "Inspection media is readable" on public.inspection_media for select using (true);
+create policy "Damage findings are readable" on public.damage_findings for select using (true);
@@ -0,0 +1,7 @@
+-- History list support: a small preview per inspection image and a free-text
+-- vehicle reference (plate or VIN) to filter inspections by.
+alter table public.inspection_media add column thumbnail text;
+
+alter table public.inspections add column vehicle_ref text;
+
+create index inspections_overall_severity_idx on public.inspections (overall_severity);
@@ -0,0 +1,5 @@
+-- Detail page support: display-size copies of each inspection image, original
+-- and annotated, so a saved inspection can be reopened and its report
+-- re-downloaded without the original upload.
+alter table public.inspection_media add column preview text;
+alter table public.inspection_media add column annotated_preview text;
@@ -0,0 +1,53 @@
+-- Vehicles, so repeat inspections of the same car can be followed over time.
+-- VINs and plates are stored normalized (upper case, letters and digits only);
+-- the edge function links each inspection by VIN first, then by plate.
+create table public.vehicles (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  vin text check (vin ~ '^[A-HJ-NPR-Z0-9]{17}$'),
+  plate text check (plate ~ '^[A-Z0-9]{1,16}$'),
+  make text,
+  model text,
+  year integer check (year between 1886 and 2100),
+  color text,
+  check (vin is not null or plate is not null)
+);
+
+create unique index vehicles_vin_idx on public.vehicles (vin) where vin is not null;
+-- Not unique: plates are transferred and reissued
+create index vehicles_plate_idx on public.vehicles (plate);
+
+alter table public.inspections
+  add column vehicle_id uuid references public.vehicles (id) on delete set null;
+
+create index inspections_vehicle_id_idx on public.inspections (vehicle_id, created_at);
+
+-- Backfill from the free-text references saved so far
+with normalized as (
+  select
+    upper(regexp_replace(vehicle_ref, '[\s-]', '', 'g')) as vin,
+    upper(regexp_replace(vehicle_ref, '[^a-zA-Z0-9]', '', 'g')) as plate
+  from public.inspections
+  where vehicle_ref is not null
+)
+insert into public.vehicles (vin, plate)
+select distinct
+  case when vin ~ '^[A-HJ-NPR-Z0-9]{17}$' then vin end,
+  case when vin !~ '^[A-HJ-NPR-Z0-9]{17}$' then plate end
+from normalized
+where vin ~ '^[A-HJ-NPR-Z0-9]{17}$' or plate ~ '^[A-Z0-9]{1,16}$';
+
+update public.inspections i
+set vehicle_id = v.id
+from public.vehicles v
+where i.vehicle_ref is not null
+  and (
+    v.vin = upper(regexp_replace(i.vehicle_ref, '[\s-]', '', 'g'))
+    or (v.vin is null and v.plate = upper(regexp_replace(i.vehicle_ref, '[^a-zA-Z0-9]', '', 'g')))
+  );
+
+alter table public.vehicles enable row level security;
+
+-- Read-only access for the app until vehicles are scoped to signed-in users
+create policy "Vehicles are readable" on public.vehicles for select using (true);
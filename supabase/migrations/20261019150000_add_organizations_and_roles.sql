@@ -0,0 +1,253 @@
+-- Organizations and role-based access.
+-- Every user belongs to at most one organization with one role:
+--   inspector  runs analyses and reads the organization's inspections
+--   adjuster   reads the organization's inspections
+--   admin      both, plus managing members and deleting inspections
+-- Inspections, their media and findings, and vehicles are only visible to
+-- members of the organization that owns them. The edge function writes with
+-- the service role key after checking the caller's role.
+create table public.organizations (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  name text not null check (length(trim(name)) between 1 and 80)
+);
+
+create table public.organization_members (
+  organization_id uuid not null references public.organizations (id) on delete cascade,
+  user_id uuid not null unique references auth.users (id) on delete cascade,
+  role text not null check (role in ('inspector', 'adjuster', 'admin')),
+  created_at timestamptz not null default now(),
+  primary key (organization_id, user_id)
+);
+
+-- Rows saved before organizations existed move to one organization. It has no
+-- members yet; an operator adds its first admin directly:
+--   insert into public.organization_members (organization_id, user_id, role) values (..., ..., 'admin');
+insert into public.organizations (name)
+select 'Default organization'
+where exists (select 1 from public.inspections) or exists (select 1 from public.vehicles);
+
+alter table public.inspections
+  add column organization_id uuid references public.organizations (id) on delete cascade,
+  add column created_by uuid references auth.users (id) on delete set null;
+alter table public.vehicles
+  add column organization_id uuid references public.organizations (id) on delete cascade;
+
+update public.inspections set organization_id = (select id from public.organizations limit 1);
+update public.vehicles set organization_id = (select id from public.organizations limit 1);
+
+alter table public.inspections alter column organization_id set not null;
+alter table public.vehicles alter column organization_id set not null;
+
+create index inspections_organization_id_idx on public.inspections (organization_id, created_at desc);
+
+-- Cached analyses belong to the organization that paid for them; another
+-- organization uploading the same photo gets its own model call. Entries from
+-- before organizations cannot be attributed, so they are dropped.
+delete from public.analysis_cache;
+alter table public.analysis_cache
+  drop constraint analysis_cache_pkey,
+  add column organization_id uuid not null references public.organizations (id) on delete cascade,
+  add primary key (organization_id, image_hash, prompt_version, model);
+
+-- A VIN is unique within an organization, not across all of them
+drop index public.vehicles_vin_idx;
+create unique index vehicles_organization_vin_idx on public.vehicles (organization_id, vin) where vin is not null;
+drop index public.vehicles_plate_idx;
+create index vehicles_organization_plate_idx on public.vehicles (organization_id, plate);
+
+-- Membership lookups for policies. Security definer so policies on
+-- organization_members itself do not recurse.
+create function public.current_organization_id()
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select organization_id from public.organization_members where user_id = auth.uid()
+$$;
+
+create function public.has_role(roles text[])
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.organization_members where user_id = auth.uid() and role = any (roles)
+  )
+$$;
+
+-- Creates an organization with the caller as its admin
+create function public.create_organization(name text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  new_id uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in to create an organization' using errcode = '28000';
+  end if;
+  if exists (select 1 from organization_members where user_id = auth.uid()) then
+    raise exception 'You already belong to an organization' using errcode = '23505';
+  end if;
+
+  insert into organizations (name) values (trim(create_organization.name)) returning id into new_id;
+  insert into organization_members (organization_id, user_id, role) values (new_id, auth.uid(), 'admin');
+  return new_id;
+end;
+$$;
+
+-- Adds a signed-up user to the caller's organization. Existing members are
+-- refused: their role changes only through set_organization_member_role.
+create function public.add_organization_member(email text, role text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  member_id uuid;
+  org_id uuid;
+begin
+  if not has_role(array['admin']) then
+    raise exception 'Only admins can manage members' using errcode = '42501';
+  end if;
+  org_id := current_organization_id();
+
+  select id into member_id from auth.users where lower(auth.users.email) = lower(trim(add_organization_member.email));
+  if member_id is null then
+    raise exception 'No user has signed up with %', add_organization_member.email using errcode = 'P0002';
+  end if;
+  if exists (select 1 from organization_members where user_id = member_id and organization_id = org_id) then
+    raise exception '% is already a member; change their role instead', add_organization_member.email using errcode = '23505';
+  end if;
+  if exists (select 1 from organization_members where user_id = member_id and organization_id <> org_id) then
+    raise exception '% already belongs to another organization', add_organization_member.email using errcode = '23505';
+  end if;
+
+  insert into organization_members (organization_id, user_id, role)
+  values (org_id, member_id, add_organization_member.role);
+end;
+$$;
+
+-- Changes a member's role. The only way roles change after a member is added:
+-- there is no update policy on organization_members, so admins cannot rewrite
+-- other columns, move rows between users, or demote themselves.
+create function public.set_organization_member_role(member_id uuid, role text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  org_id uuid;
+  current_role_name text;
+begin
+  if not has_role(array['admin']) then
+    raise exception 'Only admins can manage members' using errcode = '42501';
+  end if;
+  if member_id = auth.uid() then
+    raise exception 'Admins cannot change their own role' using errcode = '42501';
+  end if;
+  org_id := current_organization_id();
+
+  select m.role into current_role_name
+  from organization_members m
+  where m.user_id = member_id and m.organization_id = org_id
+  for update;
+  if current_role_name is null then
+    raise exception 'Not a member of your organization' using errcode = 'P0002';
+  end if;
+  if current_role_name = 'admin' and set_organization_member_role.role <> 'admin' and not exists (
+    select 1 from organization_members m
+    where m.organization_id = org_id and m.role = 'admin' and m.user_id <> member_id
+  ) then
+    raise exception 'An organization needs at least one admin' using errcode = '23514';
+  end if;
+
+  update organization_members m set role = set_organization_member_role.role
+  where m.user_id = member_id and m.organization_id = org_id;
+end;
+$$;
+
+-- Members with their email addresses, which live in auth.users
+create function public.list_organization_members()
+returns table (user_id uuid, email text, role text, created_at timestamptz)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select m.user_id, u.email::text, m.role, m.created_at
+  from organization_members m
+  join auth.users u on u.id = m.user_id
+  where m.organization_id = current_organization_id()
+  order by m.created_at
+$$;
+
+revoke execute on function public.create_organization(text) from public;
+revoke execute on function public.add_organization_member(text, text) from public;
+revoke execute on function public.set_organization_member_role(uuid, text) from public;
+revoke execute on function public.list_organization_members() from public;
+grant execute on function public.create_organization(text) to authenticated;
+grant execute on function public.add_organization_member(text, text) to authenticated;
+grant execute on function public.set_organization_member_role(uuid, text) to authenticated;
+grant execute on function public.list_organization_members() to authenticated;
+
+alter table public.organizations enable row level security;
+alter table public.organization_members enable row level security;
+
+create policy "Members can read their organization" on public.organizations
+  for select to authenticated using (id = public.current_organization_id());
+create policy "Admins can rename their organization" on public.organizations
+  for update to authenticated
+  using (id = public.current_organization_id() and public.has_role(array['admin']));
+
+create policy "Members can read their organization's members" on public.organization_members
+  for select to authenticated using (organization_id = public.current_organization_id());
+-- Roles change through set_organization_member_role only. Admins cannot remove
+-- themselves, so an organization is never left without one.
+create policy "Admins can remove members" on public.organization_members
+  for delete to authenticated
+  using (
+    organization_id = public.current_organization_id()
+    and public.has_role(array['admin'])
+    and user_id <> auth.uid()
+  );
+
+-- Replace the open read policies with per-organization ones
+drop policy "Inspections are readable" on public.inspections;
+drop policy "Inspection media is readable" on public.inspection_media;
+drop policy "Damage findings are readable" on public.damage_findings;
+drop policy "Vehicles are readable" on public.vehicles;
+
+create policy "Members can read their organization's inspections" on public.inspections
+  for select to authenticated using (organization_id = public.current_organization_id());
+create policy "Admins can delete their organization's inspections" on public.inspections
+  for delete to authenticated
+  using (organization_id = public.current_organization_id() and public.has_role(array['admin']));
+
+create policy "Members can read their organization's inspection media" on public.inspection_media
+  for select to authenticated using (
+    exists (
+      select 1 from public.inspections i
+      where i.id = inspection_id and i.organization_id = public.current_organization_id()
+    )
+  );
+
+create policy "Members can read their organization's damage findings" on public.damage_findings
+  for select to authenticated using (
+    exists (
+      select 1 from public.inspections i
+      where i.id = inspection_id and i.organization_id = public.current_organization_id()
+    )
+  );
+
+create policy "Members can read their organization's vehicles" on public.vehicles
+  for select to authenticated using (organization_id = public.current_organization_id());
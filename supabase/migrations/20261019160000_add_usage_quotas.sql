@@ -0,0 +1,121 @@
+-- Analysis quotas. Two limits apply to every analysis request:
+--   requests per minute per user, counted in one-minute windows
+--   analysis credits per organization per calendar month (UTC), where one
+--   credit is one image: a batch of eight photos uses eight
+-- The edge function calls consume_analysis_quota before analyzing and gives
+-- credits back with refund_analysis_credits for images that failed.
+alter table public.organizations
+  add column monthly_credits integer not null default 500 check (monthly_credits >= 0);
+
+-- Admins may rename their organization but not raise its allowance
+revoke update on public.organizations from authenticated;
+grant update (name) on public.organizations to authenticated;
+
+create table public.user_request_windows (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  window_start timestamptz not null,
+  request_count integer not null default 0,
+  primary key (user_id, window_start)
+);
+
+-- One row per organization, month and user, so usage can be broken down by
+-- member. user_id has no foreign key: usage stays counted after a user is deleted.
+create table public.organization_usage (
+  organization_id uuid not null references public.organizations (id) on delete cascade,
+  period_start date not null,
+  user_id uuid not null,
+  credits_used integer not null default 0 check (credits_used >= 0),
+  request_count integer not null default 0,
+  updated_at timestamptz not null default now(),
+  primary key (organization_id, period_start, user_id)
+);
+
+-- Counts one request and reserves credits, or reports which limit was hit and
+-- when it resets. Nothing is counted against the organization when refused.
+create function public.consume_analysis_quota(
+  member_id uuid,
+  org_id uuid,
+  credits integer,
+  requests_per_minute integer
+)
+returns table (
+  allowed boolean,
+  limited_by text,
+  reset_at timestamptz,
+  period date,
+  used integer,
+  quota integer
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  window_start_at timestamptz := date_trunc('minute', now());
+  month_start date := date_trunc('month', now() at time zone 'utc')::date;
+  next_month timestamptz := (date_trunc('month', now() at time zone 'utc') + interval '1 month') at time zone 'utc';
+  request_total integer;
+  credits_so_far integer;
+  credit_limit integer;
+begin
+  delete from user_request_windows
+  where user_request_windows.user_id = member_id and window_start < window_start_at - interval '1 hour';
+
+  insert into user_request_windows (user_id, window_start, request_count)
+  values (member_id, window_start_at, 1)
+  on conflict (user_id, window_start) do update set request_count = user_request_windows.request_count + 1
+  returning request_count into request_total;
+
+  if request_total > requests_per_minute then
+    return query select false, 'user'::text, window_start_at + interval '1 minute', month_start, null::integer, null::integer;
+    return;
+  end if;
+
+  -- Locking the organization serializes concurrent requests from its members
+  select monthly_credits into credit_limit from organizations where id = org_id for update;
+  if credit_limit is null then
+    raise exception 'Unknown organization %', org_id using errcode = 'P0002';
+  end if;
+  select coalesce(sum(credits_used), 0) into credits_so_far
+  from organization_usage
+  where organization_id = org_id and period_start = month_start;
+
+  if credits_so_far + credits > credit_limit then
+    return query select false, 'organization'::text, next_month, month_start, credits_so_far, credit_limit;
+    return;
+  end if;
+
+  insert into organization_usage (organization_id, period_start, user_id, credits_used, request_count)
+  values (org_id, month_start, member_id, credits, 1)
+  on conflict (organization_id, period_start, user_id) do update set
+    credits_used = organization_usage.credits_used + excluded.credits_used,
+    request_count = organization_usage.request_count + 1,
+    updated_at = now();
+
+  return query select true, null::text, null::timestamptz, month_start, credits_so_far + credits, credit_limit;
+end;
+$$;
+
+-- Returns credits reserved for images that could not be analyzed
+create function public.refund_analysis_credits(member_id uuid, org_id uuid, period date, credits integer)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update organization_usage
+  set credits_used = greatest(credits_used - credits, 0), updated_at = now()
+  where organization_id = org_id and period_start = period and user_id = member_id
+$$;
+
+-- Only the edge function, using the service role, counts usage
+revoke execute on function public.consume_analysis_quota(uuid, uuid, integer, integer) from public;
+revoke execute on function public.refund_analysis_credits(uuid, uuid, date, integer) from public;
+grant execute on function public.consume_analysis_quota(uuid, uuid, integer, integer) to service_role;
+grant execute on function public.refund_analysis_credits(uuid, uuid, date, integer) to service_role;
+
+alter table public.user_request_windows enable row level security;
+alter table public.organization_usage enable row level security;
+
+create policy "Members can read their organization's usage" on public.organization_usage
+  for select to authenticated using (organization_id = public.current_organization_id());
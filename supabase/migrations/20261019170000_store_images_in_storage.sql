@@ -0,0 +1,30 @@
+-- Inspection images move out of JSON bodies and table columns into a private
+-- Storage bucket. Paths start with the owning organization's id:
+--   {organization}/uploads/{id}.{ext}                       originals uploaded by the app
+--   {organization}/uploads/{id}-annotated.png               the annotated result next to it
+--   {organization}/inspections/{inspection}/{n}-{variant}.jpg  thumbnail, preview and annotated copies
+-- The app reads them through short-lived signed URLs.
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values ('inspection-images', 'inspection-images', false, 10485760, array['image/jpeg', 'image/png', 'image/webp']);
+
+create policy "Analysts can upload to their organization's folder" on storage.objects
+  for insert to authenticated
+  with check (
+    bucket_id = 'inspection-images'
+    and (storage.foldername(name))[1] = public.current_organization_id()::text
+    and public.has_role(array['inspector', 'admin'])
+  );
+
+create policy "Members can read their organization's images" on storage.objects
+  for select to authenticated
+  using (
+    bucket_id = 'inspection-images'
+    and (storage.foldername(name))[1] = public.current_organization_id()::text
+  );
+
+-- Rows saved before this keep their data URL columns; new rows only set the paths
+alter table public.inspection_media
+  add column original_path text,
+  add column thumbnail_path text,
+  add column preview_path text,
+  add column annotated_path text;
@@ -0,0 +1,6 @@
+-- Quality gate result for each image: the app's sharpness, exposure, glare,
+-- resolution and framing measurements, the issues they raise and a 0-100
+-- score (see supabase/functions/_shared/image-quality.ts). Null for images
+-- sent without measurements and for rows saved before this.
+alter table public.inspection_media
+  add column quality jsonb;
@@ -0,0 +1,5 @@
+-- Where in the video each extracted frame was taken, in seconds from the
+-- start, so reports can point back at the footage. Null for photos and for
+-- frames saved before this.
+alter table public.inspection_media
+  add column video_timestamp double precision;
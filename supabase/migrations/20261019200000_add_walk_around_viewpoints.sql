@@ -0,0 +1,9 @@
+-- Angle of each photo taken in a guided walk-around (see
+-- supabase/functions/_shared/viewpoints.ts). Null for photos picked from the
+-- gallery, video frames and rows saved before this.
+alter table public.inspection_media
+  add column viewpoint text
+    check (viewpoint in (
+      'front', 'front_left', 'left', 'rear_left', 'rear',
+      'rear_right', 'right', 'front_right', 'interior', 'odometer'
+    ));
@@ -0,0 +1,18 @@
+-- Upper repair estimate converted to USD when the inspection is saved, so the
+-- history can sort by cost across currencies. Rows saved before this are
+-- converted with the default exchange-rate table
+-- (supabase/functions/_shared/currency.ts).
+alter table public.inspections
+  add column estimated_cost_max_usd numeric not null default 0;
+
+update public.inspections
+set estimated_cost_max_usd = estimated_cost_max / case currency
+  when 'USD' then 1
+  when 'INR' then 83.5
+  when 'EUR' then 0.92
+  when 'GBP' then 0.79
+  when 'AED' then 3.67
+end
+where currency in ('USD', 'INR', 'EUR', 'GBP', 'AED');
+
+create index inspections_organization_cost_idx on public.inspections (organization_id, estimated_cost_max_usd);
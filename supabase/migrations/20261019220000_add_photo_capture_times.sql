@@ -0,0 +1,8 @@
+-- When the camera took each photo, read from its EXIF data before the app
+-- strips metadata. Kept as the camera wrote it: ISO 8601 local time, with the
+-- UTC offset only when the camera recorded one, so it is text rather than
+-- timestamptz. Null for video frames, photos without EXIF and rows saved
+-- before this.
+alter table public.inspection_media
+  add column captured_at text
+    check (captured_at ~ '^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}([+-]\d{2}:\d{2}|Z)?$');